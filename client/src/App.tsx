@@ -10,29 +10,60 @@ import { BlueprintImporter } from "./components/BlueprintImporter";
 import { RoomDesigner } from "./components/RoomDesigner";
 import { ObjectEditor } from "./components/ObjectEditor";
 import { Toolbar } from "./components/Toolbar";
+import { ProjectManager } from "./components/ProjectManager";
+import { SceneImporter } from "./components/SceneImporter";
+import { ModelExporter } from "./components/ModelExporter";
+import { QuantityReport } from "./components/QuantityReport";
+import { CostEstimator } from "./components/CostEstimator";
+import { RoomList } from "./components/RoomList";
+import { OutlinerPanel } from "./components/OutlinerPanel";
+import { LayerPanel } from "./components/LayerPanel";
+import { LevelPanel } from "./components/LevelPanel";
+import { WallToolPanel } from "./components/WallToolPanel";
+import { MeasureToolPanel } from "./components/MeasureToolPanel";
+import { SnapPanel } from "./components/SnapPanel";
+import { GizmoPanel } from "./components/GizmoPanel";
+import { downloadSceneFile } from "./lib/sceneFile";
+import { downloadScenePackage, SCENE_PACKAGE_EXTENSION } from "./lib/scenePackage";
 import { useModeling } from "./lib/stores/useModeling";
 import { useAudio } from "./lib/stores/useAudio";
+import { useHistoryShortcuts } from "./hooks/use-history-shortcuts";
 import { Button } from "./components/ui/button";
 import { Card } from "./components/ui/card";
-import { Volume2, VolumeX, Box, Orbit, Upload, Bot, Building, Home, Eye, Map } from "lucide-react";
+import { Volume2, VolumeX, Box, Orbit, Upload, Bot, Building, Home, Eye, Map, Undo2, Redo2, FolderOpen, Calculator, Receipt } from "lucide-react";
 
 function App() {
   const { 
     selectedObject, 
+    selectedIds,
     objects, 
     currentRoom,
+    floorPlan,
+    camera,
     viewMode,
     createObject, 
     clearScene, 
-    duplicateObject, 
-    deleteObject,
-    setViewMode
+    duplicateObjects,
+    deleteObjects,
+    setViewMode,
+    undo,
+    redo,
+    past,
+    future
   } = useModeling();
-  const { toggleMute, isMuted } = useAudio();
+  const { toggleMute, isMuted, playHit } = useAudio();
   const [showAI, setShowAI] = useState(false);
   const [showImporter, setShowImporter] = useState(false);
   const [showBlueprint, setShowBlueprint] = useState(false);
   const [showRoomDesigner, setShowRoomDesigner] = useState(false);
+  const [showProjects, setShowProjects] = useState(false);
+  const [showSceneImporter, setShowSceneImporter] = useState(false);
+  const [showModelExporter, setShowModelExporter] = useState(false);
+  const [showQuantities, setShowQuantities] = useState(false);
+  const [showEstimate, setShowEstimate] = useState(false);
+
+  // Ctrl+Z / Ctrl+Shift+Z, in the 3D view and the plan alike
+  useHistoryShortcuts();
 
   const handleCanvasClick = useCallback((event: React.MouseEvent) => {
     // Prevent deselection when clicking on UI elements
@@ -52,28 +83,23 @@ function App() {
   };
 
   const exportScene = () => {
-    const sceneData = {
-      objects: objects.map(obj => ({
-        ...obj,
-        // Don't export object URLs for imported models
-        modelPath: obj.type === 'imported' ? undefined : obj.modelPath
-      })),
-      timestamp: new Date().toISOString(),
-      version: '1.0'
-    };
-    
-    const blob = new Blob([JSON.stringify(sceneData, null, 2)], { 
-      type: 'application/json' 
-    });
-    
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `precision-build-ai-scene-${Date.now()}.json`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    downloadSceneFile(
+      { objects, currentRoom, floorPlan, camera },
+      `precision-build-ai-scene-${Date.now()}.json`
+    );
+  };
+
+  // Unlike exportScene this keeps imported models and the blueprint image
+  const exportPackage = async () => {
+    try {
+      await downloadScenePackage(
+        { objects, currentRoom, floorPlan, camera },
+        `precision-build-ai-project-${Date.now()}${SCENE_PACKAGE_EXTENSION}`
+      );
+    } catch (error) {
+      console.error('Scene packaging failed:', error);
+      playHit();
+    }
   };
 
   return (
@@ -132,7 +158,9 @@ function App() {
             
             {selectedObject && (
               <div className="text-gray-300">
-                Selected: <span className="text-yellow-400 capitalize">{selectedObject.type}</span>
+                Selected: <span className="text-yellow-400 capitalize">
+                  {selectedIds.length > 1 ? `${selectedIds.length} objects` : selectedObject.type}
+                </span>
               </div>
             )}
             
@@ -200,6 +228,22 @@ function App() {
           </div>
         </Card>
 
+        <LevelPanel />
+
+        <RoomList />
+
+        <OutlinerPanel />
+
+        <LayerPanel />
+
+        {viewMode === '3d' && <WallToolPanel />}
+
+        {viewMode === '3d' && <MeasureToolPanel />}
+
+        {viewMode === '3d' && <GizmoPanel />}
+
+        <SnapPanel />
+
         <Card className="bg-black/80 border-blue-500/30 backdrop-blur-sm">
           <div className="p-3">
             <h3 className="text-white font-semibold mb-3 text-sm">Create Objects</h3>
@@ -348,7 +392,7 @@ function App() {
                   <Button
                     variant="outline"
                     size="sm"
-                    onClick={() => duplicateObject(selectedObject.id)}
+                    onClick={() => duplicateObjects(selectedIds)}
                     className="flex-1 border-blue-500/30 text-blue-400 hover:bg-blue-500/20"
                   >
                     Duplicate
@@ -356,7 +400,7 @@ function App() {
                   <Button
                     variant="outline"
                     size="sm"
-                    onClick={() => deleteObject(selectedObject.id)}
+                    onClick={() => deleteObjects(selectedIds)}
                     className="flex-1 border-red-500/30 text-red-400 hover:bg-red-500/20"
                   >
                     Delete
@@ -371,6 +415,39 @@ function App() {
           <div className="p-4">
             <h3 className="text-white font-semibold mb-3 text-sm">Scene Tools</h3>
             <div className="space-y-2">
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={undo}
+                  disabled={past.length === 0}
+                  className="flex-1 border-blue-500/30 text-blue-400 hover:bg-blue-500/20 disabled:opacity-50"
+                  title={past.length > 0 ? `Undo ${past[past.length - 1].label} (Ctrl+Z)` : 'Nothing to undo'}
+                >
+                  <Undo2 size={16} className="mr-1" />
+                  Undo
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={redo}
+                  disabled={future.length === 0}
+                  className="flex-1 border-blue-500/30 text-blue-400 hover:bg-blue-500/20 disabled:opacity-50"
+                  title={future.length > 0 ? `Redo ${future[future.length - 1].label} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+                >
+                  <Redo2 size={16} className="mr-1" />
+                  Redo
+                </Button>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowProjects(true)}
+                className="w-full border-blue-500/30 text-blue-400 hover:bg-blue-500/20"
+              >
+                <FolderOpen size={16} className="mr-2" />
+                Projects
+              </Button>
               <Button
                 variant="outline"
                 size="sm"
@@ -379,6 +456,53 @@ function App() {
               >
                 Export Scene
               </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={exportPackage}
+                className="w-full border-green-500/30 text-green-400 hover:bg-green-500/20"
+                title="Export with imported models and blueprint embedded"
+              >
+                Export Package
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowModelExporter(true)}
+                disabled={objects.length === 0}
+                className="w-full border-green-500/30 text-green-400 hover:bg-green-500/20 disabled:opacity-50"
+                title="Export GLB/glTF, or OBJ/STL for fabrication"
+              >
+                Export 3D Model
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowQuantities(true)}
+                className="w-full border-green-500/30 text-green-400 hover:bg-green-500/20"
+                title="Floor, wall and paint areas and room volumes, exportable as CSV"
+              >
+                <Calculator size={16} className="mr-2" />
+                Quantities
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowEstimate(true)}
+                className="w-full border-green-500/30 text-green-400 hover:bg-green-500/20"
+                title="Bill of materials and costs by room, exportable as CSV or PDF"
+              >
+                <Receipt size={16} className="mr-2" />
+                Cost Estimate
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowSceneImporter(true)}
+                className="w-full border-green-500/30 text-green-400 hover:bg-green-500/20"
+              >
+                Import Scene
+              </Button>
               <Button
                 variant="outline"
                 size="sm"
@@ -430,6 +554,46 @@ function App() {
         />
       )}
 
+      {/* Project Manager Modal */}
+      {showProjects && (
+        <ProjectManager
+          isOpen={showProjects}
+          onClose={() => setShowProjects(false)}
+        />
+      )}
+
+      {/* Scene Importer Modal */}
+      {showSceneImporter && (
+        <SceneImporter
+          isOpen={showSceneImporter}
+          onClose={() => setShowSceneImporter(false)}
+        />
+      )}
+
+      {/* 3D Model Exporter Modal */}
+      {showModelExporter && (
+        <ModelExporter
+          isOpen={showModelExporter}
+          onClose={() => setShowModelExporter(false)}
+        />
+      )}
+
+      {/* Quantity Take-off Modal */}
+      {showQuantities && (
+        <QuantityReport
+          isOpen={showQuantities}
+          onClose={() => setShowQuantities(false)}
+        />
+      )}
+
+      {/* Cost Estimate Modal */}
+      {showEstimate && (
+        <CostEstimator
+          isOpen={showEstimate}
+          onClose={() => setShowEstimate(false)}
+        />
+      )}
+
       {/* Interactive Help Panel */}
       <div className="absolute bottom-20 left-4 z-10">
         <Card className="bg-black/80 border-blue-500/30 backdrop-blur-sm">
@@ -443,6 +607,8 @@ function App() {
               <div>🪑 <strong>Furniture:</strong> Use room designer to add furniture</div>
               <div>💬 <strong>AI Commands:</strong> "create bedroom 4x5 meters", "add sofa"</div>
               <div>🖱️ <strong>Controls:</strong> Click to select, drag to orbit, scroll to zoom</div>
+              <div>↩️ <strong>History:</strong> Ctrl+Z to undo, Ctrl+Shift+Z to redo</div>
+              <div>🧩 <strong>Selection:</strong> Shift-click or Shift-drag a box to select more, Ctrl+G to group</div>
               <div>📐 <strong>Views:</strong> Switch between 2D floor plan and 3D room view</div>
             </div>
           </div>
@@ -1,17 +1,260 @@
-import { useRef, useEffect, useState } from "react";
+import { useRef, useEffect, useMemo, useState } from "react";
 import { useModeling } from "../../lib/stores/useModeling";
 import { Card } from "../ui/card";
 import { Button } from "../ui/button";
-import { ZoomIn, ZoomOut, RotateCcw, Grid3X3, Ruler } from "lucide-react";
+import { ZoomIn, ZoomOut, RotateCcw, Grid3X3, Ruler, MousePointer2, Pentagon, PenLine, DoorOpen, AppWindow, Image, DraftingCompass, Printer } from "lucide-react";
+import type { FloorPlan, MeasurementAnchor, ModelingObject, Room } from "../../types/modeling";
+import {
+  objectSnapTargets,
+  pointSnapOptions,
+  snapObjectPosition,
+  snapPoint,
+  snapRotation,
+  type ObjectSnapResult,
+  type PlanPosition,
+  type SnapResult
+} from "../../lib/snapping";
+import { pointInPolygon, polygonBounds, roomOutline, uniqueRoomName } from "../../lib/rooms";
+import { localToPlan, planToLocal } from "../../lib/planFrame";
+import { getWallJoins } from "../../lib/wallJoins";
+import { useDrawing, type DrawingTool } from "../../lib/stores/useDrawing";
+import { useSnapping } from "../../lib/stores/useSnapping";
+import { WallSettings } from "../WallSettings";
+import { useActiveLevel } from "../../hooks/use-active-level";
+import { useGroupShortcuts } from "../../hooks/use-group-shortcuts";
+import { expandToGroups, listGroups, selectionUnit } from "../../lib/groups";
+import { isLocked, visibleObjects } from "../../lib/visibility";
+import { getLayer, isPrinted, objectLayer } from "../../lib/layers";
+import { printImage } from "../../lib/utils";
+import { isOnLevel, objectsOnLevel, roomsOnLevel, stairSteps } from "../../lib/levels";
+import { MeasurePanel } from "../MeasurePanel";
+import {
+  anchorPoint,
+  clearance,
+  footprint,
+  formatLength,
+  pinAnchor,
+  resolveMeasurement,
+  type ResolvedMeasurement
+} from "../../lib/measurements";
+
+const PIXELS_PER_METER = 20; // at zoom 1
+const MIN_ZOOM = 0.3;
+const MAX_ZOOM = 3;
+const SNAP_RADIUS_PX = 10;
+// Pointer travel (px) before pressing on an object starts dragging it
+const DRAG_THRESHOLD_PX = 3;
+// Selection handles: corner squares and the rotation knob above the object
+const HANDLE_SIZE_PX = 8;
+const ROTATE_HANDLE_OFFSET_PX = 24;
+const MIN_OBJECT_SIZE = 0.05;
+
+// The blueprint with its dark lines recoloured; white paper stays white
+function tintImage(image: HTMLImageElement, color: string): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = image.naturalWidth;
+  canvas.height = image.naturalHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return canvas;
+
+  ctx.drawImage(image, 0, 0);
+  ctx.globalCompositeOperation = 'screen';
+  ctx.fillStyle = color;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  // Back to the image's own transparency
+  ctx.globalCompositeOperation = 'destination-in';
+  ctx.drawImage(image, 0, 0);
+  return canvas;
+}
+
+interface ObjectDrag {
+  id: string;
+  kind: 'move' | 'rotate' | 'resize';
+  // Move: pointer relative to the object's centre when grabbed. Resize: the
+  // corner opposite the one dragged, which stays put.
+  grab: PlanPosition;
+  // Resize: the dragged corner, as -1/1 along the object's local X and Z
+  corner?: PlanPosition;
+  // Move: everything that moves with the object (the selection or its group)
+  ids?: string[];
+  startX: number;
+  startY: number;
+  moved: boolean;
+}
+
+// Selection box dragged out from empty space, in plan coordinates
+interface BoxSelect {
+  start: PlanPosition;
+  end: PlanPosition;
+  additive: boolean;
+}
+
+interface PanDrag {
+  startX: number;
+  startY: number;
+  pan: { x: number; y: number };
+}
+
+const CORNERS: PlanPosition[] = [
+  { x: -1, z: -1 },
+  { x: 1, z: -1 },
+  { x: 1, z: 1 },
+  { x: -1, z: 1 }
+];
+
+const TRACE_HINTS: Record<Exclude<DrawingTool, 'select'>, string> = {
+  room: 'Click the corners of the room. Click the first corner, double-click or press Enter to close it.',
+  wall: 'Click to place wall corners. Double-click, Enter or right-click ends the chain; click the first corner to close it.',
+  door: 'Click both sides of the door opening, ideally on a wall.',
+  window: 'Click both sides of the window, ideally on a wall.',
+  measure: 'Click two points to dimension them; points on objects follow them. For clearance, click an object, then a wall.'
+};
 
 export function FloorPlanView() {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [zoom, setZoom] = useState(1);
   const [pan, setPan] = useState({ x: 0, y: 0 });
   const [showGrid, setShowGrid] = useState(true);
-  const [showMeasurements, setShowMeasurements] = useState(true);
+  // Drawing the plan for print: only layers marked for printing, no editing aids
+  const [printing, setPrinting] = useState(false);
+
+  // Blueprint tracing
+  const { tool, setTool, wallThickness, wallHeight, measureMode } = useDrawing();
+  const snapSettings = useSnapping();
+  const [tracePoints, setTracePoints] = useState<PlanPosition[]>([]);
+  // First end of a dimension being placed with the measure tool
+  const [measureStart, setMeasureStart] = useState<MeasurementAnchor | null>(null);
+  const [cursor, setCursor] = useState<SnapResult | null>(null);
+  // Moving objects with the select tool
+  const dragRef = useRef<ObjectDrag | null>(null);
+  const [boxSelect, setBoxSelect] = useState<BoxSelect | null>(null);
+  const panRef = useRef<PanDrag | null>(null);
+  // A press on a handle, or one that dragged, must not select on release
+  const skipClickRef = useRef(false);
+  const [snapGuides, setSnapGuides] = useState<ObjectSnapResult['guides']>({});
+  const [underlay, setUnderlay] = useState<HTMLImageElement | null>(null);
+  const [underlayOpacity, setUnderlayOpacity] = useState(0.5);
   
-  const { objects, currentRoom, selectedObject, selectObject } = useModeling();
+  const {
+    objects: allObjects,
+    currentRoom,
+    floorPlan,
+    selectedObject,
+    selectedIds,
+    selectObject,
+    selectObjects,
+    updateObject,
+    transformObjects,
+    beginTransaction,
+    commitTransaction,
+    setActiveLevel,
+    createWall,
+    createOpening,
+    createPolygonRoom,
+    addMeasurement,
+    setLayer
+  } = useModeling();
+
+  // Dimensions and the blueprint are shown and printed with their layers
+  const annotationsLayer = getLayer(floorPlan, 'annotations');
+  const underlayLayer = getLayer(floorPlan, 'underlay');
+  const showMeasurements = printing ? isPrinted(annotationsLayer) : annotationsLayer.visible;
+  const showUnderlay = printing ? isPrinted(underlayLayer) : underlayLayer.visible;
+  const underlayImage = useMemo(
+    () => underlay && underlayLayer.color ? tintImage(underlay, underlayLayer.color) : underlay,
+    [underlay, underlayLayer.color]
+  );
+
+  // Ctrl+G groups the selection, Ctrl+Shift+G ungroups it
+  useGroupShortcuts();
+
+  // The plan shows one level at a time, without hidden objects
+  const { levels, level } = useActiveLevel();
+  const objects = useMemo(
+    () => objectsOnLevel(visibleObjects(allObjects, floorPlan), level.id, levels),
+    [allObjects, floorPlan, level, levels]
+  );
+  // Stairs coming up from the level below, drawn as a landing outline
+  const arrivingStairs = useMemo(
+    () => allObjects.filter(obj => obj.type === 'stairs' && obj.connectsTo === level.id),
+    [allObjects, level]
+  );
+  const measurements = useMemo(
+    () => (floorPlan?.measurements || []).filter(m => isOnLevel(m, level.id, levels)),
+    [floorPlan, level, levels]
+  );
+
+  // The canvas can only draw decoded images
+  useEffect(() => {
+    if (!floorPlan?.imageUrl) {
+      setUnderlay(null);
+      return;
+    }
+
+    let cancelled = false;
+    const img = new window.Image();
+    img.onload = () => {
+      if (!cancelled) setUnderlay(img);
+    };
+    img.src = floorPlan.imageUrl;
+    return () => {
+      cancelled = true;
+    };
+  }, [floorPlan?.imageUrl]);
+
+  // Wheel zoom keeps the point under the cursor in place. Registered by hand
+  // because React's wheel listener is passive and cannot stop page scrolling.
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const next = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom * Math.exp(-event.deltaY * 0.001)));
+      if (next === zoom) return;
+
+      const rect = canvas.getBoundingClientRect();
+      const cursorX = event.clientX - rect.left - canvas.offsetWidth / 2;
+      const cursorY = event.clientY - rect.top - canvas.offsetHeight / 2;
+      setPan({
+        x: cursorX - (cursorX - pan.x) * next / zoom,
+        y: cursorY - (cursorY - pan.y) * next / zoom
+      });
+      setZoom(next);
+    };
+
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', handleWheel);
+  }, [zoom, pan]);
+
+  // Ending a room outline builds the room; wall chains are already built
+  const finishTrace = () => {
+    if (tool === 'room' && tracePoints.length >= 3) {
+      createPolygonRoom('custom', tracePoints, { name: uniqueRoomName(floorPlan?.rooms || [], 'Room') });
+    }
+    setTracePoints([]);
+    setMeasureStart(null);
+  };
+
+  // Escape/Enter end the current chain; Escape again leaves the tool
+  useEffect(() => {
+    if (tool === 'select') return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target && ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+
+      if (event.key === 'Enter') {
+        finishTrace();
+      } else if (event.key === 'Escape') {
+        if (tracePoints.length === 0 && !measureStart) setTool('select');
+        finishTrace();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [tool, tracePoints, measureStart]);
 
   useEffect(() => {
     if (!canvasRef.current) return;
@@ -34,26 +277,302 @@ export function FloorPlanView() {
     ctx.translate(canvas.offsetWidth / 2 + pan.x, canvas.offsetHeight / 2 + pan.y);
     ctx.scale(zoom, zoom);
 
+    // Blueprint underlay goes below everything, including the grid
+    if (floorPlan && underlayImage && showUnderlay) {
+      drawUnderlay(ctx, floorPlan, underlayImage);
+    }
+
     // Draw grid
     if (showGrid) {
       drawGrid(ctx, canvas.offsetWidth, canvas.offsetHeight);
     }
 
-    // Draw room if exists
-    if (currentRoom) {
-      drawRoom(ctx, currentRoom);
+    // Extent of the imported blueprint at its calibrated scale
+    if (floorPlan?.imageSize) {
+      drawPlanBounds(ctx, floorPlan);
+    }
+
+    // Selected room last so its outline sits on top of shared edges
+    const rooms = roomsOnLevel(floorPlan?.rooms || [], level.id, levels);
+    rooms
+      .filter(room => room.id !== currentRoom?.id)
+      .forEach(room => drawRoom(ctx, room, false));
+    if (currentRoom && rooms.includes(currentRoom)) {
+      drawRoom(ctx, currentRoom, true);
     }
 
-    // Draw objects from top-down view
-    objects.forEach(obj => {
-      drawObject2D(ctx, obj, obj.id === selectedObject?.id);
+    arrivingStairs.forEach(stairs => drawArrivingStairs(ctx, stairs));
+
+    // Draw objects from top-down view; openings after walls so they cut them
+    const drawn = printing ? objects.filter(obj => objectLayer(obj, floorPlan).print) : objects;
+    [...drawn].sort((a, b) => Number(!!a.hostId) - Number(!!b.hostId)).forEach(obj => {
+      drawObject2D(ctx, obj, !printing && selectedIds.includes(obj.id));
     });
 
+    if (!printing && tool === 'select' && selectedObject && hasHandles(selectedObject)) {
+      drawHandles(ctx, selectedObject);
+    }
+
+    // Dimension lines sit above the objects they measure
+    if (showMeasurements) {
+      measurements.forEach(m => drawDimension(ctx, resolveMeasurement(m, objects), annotationsLayer.color || '#fbbf24'));
+    }
+
+    if (!printing) {
+      drawSnapGuides(ctx, canvas.offsetWidth, canvas.offsetHeight);
+
+      if (boxSelect) {
+        drawSelectionBox(ctx, boxSelect);
+      }
+
+      if (tool === 'measure') {
+        drawMeasurePreview(ctx);
+      } else if (tool !== 'select') {
+        drawTracePreview(ctx);
+      }
+    }
+
     ctx.restore();
-  }, [objects, currentRoom, selectedObject, zoom, pan, showGrid, showMeasurements]);
+  }, [objects, arrivingStairs, measurements, currentRoom, floorPlan, level, levels, selectedObject, zoom, pan, showGrid,
+      showMeasurements, underlayImage, showUnderlay, underlayOpacity, tool, tracePoints, measureStart, measureMode, cursor,
+      snapGuides, selectedIds, boxSelect, printing]);
+
+  // Runs after the plan has been redrawn for print
+  useEffect(() => {
+    if (!printing) return;
+    const canvas = canvasRef.current;
+    if (canvas) printImage(canvas.toDataURL('image/png'), floorPlan?.name || 'Floor plan');
+    setPrinting(false);
+  }, [printing]);
+
+  const drawUnderlay = (ctx: CanvasRenderingContext2D, plan: FloorPlan, image: CanvasImageSource) => {
+    const width = plan.dimensions.width * PIXELS_PER_METER;
+    const length = plan.dimensions.length * PIXELS_PER_METER;
+
+    ctx.save();
+    ctx.globalAlpha = underlayOpacity;
+    ctx.drawImage(image, -width/2, -length/2, width, length);
+    ctx.restore();
+  };
+
+  const drawTracePreview = (ctx: CanvasRenderingContext2D) => {
+    const scale = PIXELS_PER_METER;
+    const points = cursor ? [...tracePoints, cursor.point] : tracePoints;
+
+    if (points.length > 1) {
+      ctx.save();
+      ctx.strokeStyle = tool === 'room' ? '#34d399' : tool === 'wall' ? '#f472b6' : tool === 'door' ? '#f59e0b' : '#3b82f6';
+      ctx.lineWidth = tool === 'wall' ? Math.max(2, wallThickness * scale) : 3;
+      ctx.globalAlpha = 0.8;
+      ctx.setLineDash([6, 4]);
+      ctx.beginPath();
+      points.forEach((p, i) => i === 0 ? ctx.moveTo(p.x * scale, p.z * scale) : ctx.lineTo(p.x * scale, p.z * scale));
+      if (tool === 'room' && points.length > 2) {
+        ctx.closePath();
+        ctx.fillStyle = 'rgba(52, 211, 153, 0.15)';
+        ctx.fill();
+      }
+      ctx.stroke();
+      ctx.restore();
+
+      // Length of the segment being drawn
+      const a = points[points.length - 2];
+      const b = points[points.length - 1];
+      ctx.fillStyle = '#ffffff';
+      ctx.font = '10px Inter';
+      ctx.textAlign = 'center';
+      ctx.fillText(
+        `${Math.hypot(b.x - a.x, b.z - a.z).toFixed(2)}m`,
+        (a.x + b.x) / 2 * scale,
+        (a.z + b.z) / 2 * scale - 8
+      );
+    }
+
+    if (cursor) {
+      const x = cursor.point.x * scale;
+      const z = cursor.point.z * scale;
+      ctx.strokeStyle = cursor.kind === 'endpoint' ? '#10b981' : cursor.kind === 'wall' ? '#22d3ee' : '#ffffff';
+      ctx.lineWidth = 1.5;
+      ctx.beginPath();
+      if (cursor.kind === 'endpoint') {
+        ctx.rect(x - 5, z - 5, 10, 10);
+      } else if (cursor.kind === 'wall') {
+        ctx.arc(x, z, 5, 0, Math.PI * 2);
+      } else {
+        ctx.moveTo(x - 5, z);
+        ctx.lineTo(x + 5, z);
+        ctx.moveTo(x, z - 5);
+        ctx.lineTo(x, z + 5);
+      }
+      ctx.stroke();
+    }
+  };
+
+  // Architectural dimension: the measured line with slashed ends and its
+  // length on a backing so it stays legible over walls
+  const drawDimension = (ctx: CanvasRenderingContext2D, dimension: ResolvedMeasurement, color: string) => {
+    const scale = PIXELS_PER_METER;
+    const { start, end, length } = dimension;
+    const x1 = start.x * scale;
+    const z1 = start.z * scale;
+    const x2 = end.x * scale;
+    const z2 = end.z * scale;
+
+    ctx.save();
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(x1, z1);
+    ctx.lineTo(x2, z2);
+    if (length > 1e-6) {
+      // Ticks at 45° to the line
+      const ux = (x2 - x1) / (length * scale);
+      const uz = (z2 - z1) / (length * scale);
+      const tx = (ux - uz) * 4;
+      const tz = (uz + ux) * 4;
+      [[x1, z1], [x2, z2]].forEach(([x, z]) => {
+        ctx.moveTo(x - tx, z - tz);
+        ctx.lineTo(x + tx, z + tz);
+      });
+    }
+    ctx.stroke();
+
+    const label = formatLength(length);
+    ctx.font = '10px Inter';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    const labelWidth = ctx.measureText(label).width + 6;
+    ctx.fillStyle = 'rgba(26, 26, 46, 0.85)';
+    ctx.fillRect((x1 + x2) / 2 - labelWidth / 2, (z1 + z2) / 2 - 7, labelWidth, 14);
+    ctx.fillStyle = color;
+    ctx.fillText(label, (x1 + x2) / 2, (z1 + z2) / 2);
+    ctx.restore();
+  };
+
+  const drawMeasurePreview = (ctx: CanvasRenderingContext2D) => {
+    const preview = measurePreview();
+    if (preview) drawDimension(ctx, preview, '#22d3ee');
+
+    // Highlight the object a clearance is measured from
+    const from = measureMode === 'clearance' && measureStart?.objectId
+      ? objects.find(obj => obj.id === measureStart.objectId)
+      : undefined;
+    if (from) {
+      const scale = PIXELS_PER_METER;
+      ctx.save();
+      ctx.strokeStyle = '#22d3ee';
+      ctx.lineWidth = 1.5;
+      ctx.setLineDash([4, 3]);
+      ctx.beginPath();
+      footprint(from).forEach((p, i) => i === 0 ? ctx.moveTo(p.x * scale, p.z * scale) : ctx.lineTo(p.x * scale, p.z * scale));
+      ctx.closePath();
+      ctx.stroke();
+      ctx.restore();
+    }
+
+    if (cursor) {
+      const x = cursor.point.x * PIXELS_PER_METER;
+      const z = cursor.point.z * PIXELS_PER_METER;
+      ctx.strokeStyle = cursor.kind === 'endpoint' ? '#10b981' : cursor.kind === 'wall' ? '#22d3ee' : '#ffffff';
+      ctx.lineWidth = 1.5;
+      ctx.beginPath();
+      ctx.moveTo(x - 5, z);
+      ctx.lineTo(x + 5, z);
+      ctx.moveTo(x, z - 5);
+      ctx.lineTo(x, z + 5);
+      ctx.stroke();
+    }
+  };
+
+  // Floors belong to their room; everything else can be turned and resized
+  // when it is selected on its own and not locked
+  const hasHandles = (obj: ModelingObject) =>
+    obj.type !== 'floor' && obj.type !== 'ceiling' && !isLocked(obj, floorPlan) &&
+    selectedIds.length === 1 && objects.some(o => o.id === obj.id);
+
+  const handlePoints = (obj: ModelingObject) => {
+    const halfWidth = obj.scale.x / 2;
+    const halfDepth = obj.scale.z / 2;
+    return {
+      corners: CORNERS.map(corner => ({
+        corner,
+        point: localToPlan(obj, { x: corner.x * halfWidth, z: corner.z * halfDepth })
+      })),
+      // Beyond the edge facing local -Z, which is up the canvas unrotated
+      rotate: localToPlan(obj, { x: 0, z: -halfDepth - ROTATE_HANDLE_OFFSET_PX / (zoom * PIXELS_PER_METER) }),
+      top: localToPlan(obj, { x: 0, z: -halfDepth })
+    };
+  };
+
+  const drawHandles = (ctx: CanvasRenderingContext2D, obj: ModelingObject) => {
+    const scale = PIXELS_PER_METER;
+    const size = HANDLE_SIZE_PX / zoom;
+    const { corners, rotate, top } = handlePoints(obj);
+
+    ctx.save();
+    ctx.strokeStyle = '#10b981';
+    ctx.fillStyle = '#ffffff';
+    ctx.lineWidth = 1.5 / zoom;
+    ctx.beginPath();
+    ctx.moveTo(top.x * scale, top.z * scale);
+    ctx.lineTo(rotate.x * scale, rotate.z * scale);
+    ctx.stroke();
+
+    ctx.beginPath();
+    ctx.arc(rotate.x * scale, rotate.z * scale, size / 2 + 1 / zoom, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.stroke();
+
+    corners.forEach(({ point }) => {
+      ctx.fillRect(point.x * scale - size / 2, point.z * scale - size / 2, size, size);
+      ctx.strokeRect(point.x * scale - size / 2, point.z * scale - size / 2, size, size);
+    });
+    ctx.restore();
+  };
+
+  // The box being dragged out to select, in world space
+  const drawSelectionBox = (ctx: CanvasRenderingContext2D, box: BoxSelect) => {
+    const scale = PIXELS_PER_METER;
+    const x = Math.min(box.start.x, box.end.x) * scale;
+    const z = Math.min(box.start.z, box.end.z) * scale;
+    const width = Math.abs(box.end.x - box.start.x) * scale;
+    const depth = Math.abs(box.end.z - box.start.z) * scale;
+
+    ctx.save();
+    ctx.fillStyle = 'rgba(16, 185, 129, 0.1)';
+    ctx.strokeStyle = '#10b981';
+    ctx.lineWidth = 1 / zoom;
+    ctx.setLineDash([4 / zoom, 4 / zoom]);
+    ctx.fillRect(x, z, width, depth);
+    ctx.strokeRect(x, z, width, depth);
+    ctx.restore();
+  };
+
+  // Lines a dragged object has lined up with, across the whole view
+  const drawSnapGuides = (ctx: CanvasRenderingContext2D, width: number, height: number) => {
+    if (snapGuides.x === undefined && snapGuides.z === undefined) return;
+
+    const scale = PIXELS_PER_METER;
+    const reach = Math.max(width, height) / zoom;
+    ctx.save();
+    ctx.strokeStyle = '#f472b6';
+    ctx.lineWidth = 1 / zoom;
+    ctx.setLineDash([4 / zoom, 4 / zoom]);
+    ctx.beginPath();
+    if (snapGuides.x !== undefined) {
+      ctx.moveTo(snapGuides.x * scale, -reach - pan.y / zoom);
+      ctx.lineTo(snapGuides.x * scale, reach - pan.y / zoom);
+    }
+    if (snapGuides.z !== undefined) {
+      ctx.moveTo(-reach - pan.x / zoom, snapGuides.z * scale);
+      ctx.lineTo(reach - pan.x / zoom, snapGuides.z * scale);
+    }
+    ctx.stroke();
+    ctx.restore();
+  };
 
   const drawGrid = (ctx: CanvasRenderingContext2D, width: number, height: number) => {
-    const gridSize = 20; // 1 meter = 20 pixels
+    const gridSize = PIXELS_PER_METER;
     
     ctx.strokeStyle = '#2a2a3e';
     ctx.lineWidth = 0.5;
@@ -80,42 +599,104 @@ export function FloorPlanView() {
     }
   };
 
-  const drawRoom = (ctx: CanvasRenderingContext2D, room: any) => {
-    const scale = 20; // 1 meter = 20 pixels
-    const width = room.dimensions.width * scale;
-    const length = room.dimensions.length * scale;
+  const drawPlanBounds = (ctx: CanvasRenderingContext2D, plan: FloorPlan) => {
+    const scale = PIXELS_PER_METER;
+    const width = plan.dimensions.width * scale;
+    const length = plan.dimensions.length * scale;
+
+    // Blueprint coordinates are centred on the origin (see buildBlueprintLayout)
+    ctx.save();
+    ctx.strokeStyle = plan.calibrated ? '#3b82f6' : '#f59e0b';
+    ctx.lineWidth = 1;
+    ctx.setLineDash([6, 4]);
+    ctx.strokeRect(-width/2, -length/2, width, length);
+    ctx.restore();
+
+    if (showMeasurements) {
+      ctx.fillStyle = plan.calibrated ? '#60a5fa' : '#fbbf24';
+      ctx.font = '10px Inter';
+      ctx.textAlign = 'left';
+      ctx.fillText(
+        `${plan.name}: ${plan.dimensions.width.toFixed(2)}m × ${plan.dimensions.length.toFixed(2)}m` +
+          (plan.calibrated ? '' : ' (scale not calibrated)'),
+        -width/2,
+        -length/2 - 6
+      );
+    }
+  };
+
+  const drawRoom = (ctx: CanvasRenderingContext2D, room: Room, isCurrent: boolean) => {
+    const scale = PIXELS_PER_METER;
+    const outline = roomOutline(room);
+    const bounds = polygonBounds(outline);
+
+    ctx.save();
+    ctx.beginPath();
+    outline.forEach((p, i) => i === 0 ? ctx.moveTo(p.x * scale, p.z * scale) : ctx.lineTo(p.x * scale, p.z * scale));
+    ctx.closePath();
     
     // Draw floor
     ctx.fillStyle = '#3a3a4e';
-    ctx.fillRect(-width/2, -length/2, width, length);
+    ctx.fill();
     
     // Draw walls outline
-    ctx.strokeStyle = '#8B7355';
+    ctx.strokeStyle = isCurrent ? '#3b82f6' : '#8B7355';
     ctx.lineWidth = 4;
-    ctx.strokeRect(-width/2, -length/2, width, length);
+    ctx.stroke();
     
     // Draw room label
-    ctx.fillStyle = '#ffffff';
+    ctx.fillStyle = isCurrent ? '#93c5fd' : '#ffffff';
     ctx.font = '12px Inter';
     ctx.textAlign = 'center';
-    ctx.fillText(room.name, 0, -length/2 - 10);
+    ctx.fillText(room.name, (bounds.minX + bounds.maxX) / 2 * scale, bounds.minZ * scale - 10);
     
     if (showMeasurements) {
-      // Draw dimensions
+      // Edge lengths, pushed outwards along each edge's normal
       ctx.fillStyle = '#60a5fa';
       ctx.font = '10px Inter';
-      ctx.fillText(`${room.dimensions.width}m`, 0, length/2 + 20);
-      
-      ctx.save();
-      ctx.translate(-width/2 - 20, 0);
-      ctx.rotate(-Math.PI/2);
-      ctx.fillText(`${room.dimensions.length}m`, 0, 0);
-      ctx.restore();
+      ctx.textBaseline = 'middle';
+      outline.forEach((p, i) => {
+        const q = outline[(i + 1) % outline.length];
+        const length = Math.hypot(q.x - p.x, q.z - p.z);
+        const nx = (q.z - p.z) / length;
+        const nz = -(q.x - p.x) / length;
+        ctx.fillText(
+          `${Number(length.toFixed(2))}m`,
+          (p.x + q.x) / 2 * scale + nx * 16,
+          (p.z + q.z) / 2 * scale + nz * 16
+        );
+      });
     }
+
+    ctx.restore();
+  };
+
+  const drawArrivingStairs = (ctx: CanvasRenderingContext2D, stairs: ModelingObject) => {
+    const scale = PIXELS_PER_METER;
+    const width = stairs.scale.x * scale;
+    const depth = stairs.scale.z * scale;
+
+    ctx.save();
+    ctx.translate(stairs.position.x * scale, stairs.position.z * scale);
+    ctx.rotate(-stairs.rotation.y);
+    ctx.strokeStyle = '#A0826D';
+    ctx.lineWidth = 1;
+    ctx.setLineDash([4, 4]);
+    ctx.strokeRect(-width/2, -depth/2, width, depth);
+    ctx.setLineDash([]);
+    ctx.fillStyle = '#A0826D';
+    ctx.font = '8px Inter';
+    ctx.textAlign = 'center';
+    ctx.fillText('Stairs down', 0, 0);
+    ctx.restore();
   };
 
   const drawObject2D = (ctx: CanvasRenderingContext2D, obj: any, isSelected: boolean) => {
-    const scale = 20; // 1 meter = 20 pixels
+    const scale = PIXELS_PER_METER;
+    // A layer colour replaces the object's own, and the fixed wall and
+    // opening colours
+    const override = objectLayer(obj, floorPlan).color;
+    const color = override || obj.color;
     const x = obj.position.x * scale;
     const z = obj.position.z * scale; // Z becomes Y in 2D
     const width = obj.scale.x * scale;
@@ -123,18 +704,34 @@ export function FloorPlanView() {
     
     ctx.save();
     ctx.translate(x, z);
+    // Yaw: a positive Y rotation turns +X towards -Z, i.e. up the canvas
+    ctx.rotate(-(obj.rotation?.y || 0));
+
+    // Wireframe objects are ghosted, with their outline drawn over
+    if (obj.wireframe) ctx.globalAlpha = 0.2;
     
     // Different shapes for different object types
     switch (obj.type) {
-      case 'wall':
-        ctx.fillStyle = isSelected ? '#f5f5f5' : '#d1d5db';
-        ctx.fillRect(-width/2, -depth/2, width, depth);
+      case 'wall': {
+        // Footprint with mitered corners and T-junction cuts; canvas Y is the
+        // wall's local Z here
+        const ends = getWallJoins(objects).get(obj.id);
+        ctx.fillStyle = override || (isSelected ? '#f5f5f5' : '#d1d5db');
+        ctx.beginPath();
+        ctx.moveTo(-width/2 - (ends?.start.neg ?? 0) * scale, -depth/2);
+        ctx.lineTo(width/2 + (ends?.end.neg ?? 0) * scale, -depth/2);
+        ctx.lineTo(width/2 + (ends?.end.pos ?? 0) * scale, depth/2);
+        ctx.lineTo(-width/2 - (ends?.start.pos ?? 0) * scale, depth/2);
+        ctx.closePath();
+        ctx.fill();
         break;
+      }
       case 'floor':
-        // Don't draw floor in 2D view - room handles this
+      case 'ceiling':
+        // Don't draw floor or ceiling in 2D view - room handles this
         break;
       case 'furniture':
-        ctx.fillStyle = isSelected ? obj.color : obj.color + 'cc';
+        ctx.fillStyle = isSelected ? color : color + 'cc';
         if (obj.subtype === 'bed') {
           ctx.fillRect(-width/2, -depth/2, width, depth);
           // Draw pillow area
@@ -149,23 +746,78 @@ export function FloorPlanView() {
           ctx.fillRect(-width/2, -depth/2, width, depth);
         }
         break;
-      case 'door':
-        ctx.strokeStyle = isSelected ? '#fbbf24' : '#f59e0b';
-        ctx.lineWidth = 3;
+      case 'stairs': {
+        // Treads across the flight with an arrow up the run (+Z)
+        const steps = stairSteps(obj.scale.y);
+        ctx.fillStyle = isSelected ? color : color + 'aa';
+        ctx.fillRect(-width/2, -depth/2, width, depth);
+        ctx.strokeStyle = '#1a1a2e';
+        ctx.lineWidth = 1;
+        for (let i = 1; i < steps; i++) {
+          const y = -depth/2 + depth * i / steps;
+          ctx.beginPath();
+          ctx.moveTo(-width/2, y);
+          ctx.lineTo(width/2, y);
+          ctx.stroke();
+        }
+        ctx.strokeStyle = '#ffffff';
         ctx.beginPath();
-        ctx.arc(0, -depth/2, width/2, 0, Math.PI);
+        ctx.moveTo(0, -depth/2 + 4);
+        ctx.lineTo(0, depth/2 - 4);
+        ctx.lineTo(-4, depth/2 - 10);
+        ctx.moveTo(0, depth/2 - 4);
+        ctx.lineTo(4, depth/2 - 10);
         ctx.stroke();
         break;
-      case 'window':
-        ctx.strokeStyle = isSelected ? '#60a5fa' : '#3b82f6';
-        ctx.lineWidth = 2;
-        ctx.strokeRect(-width/2, -depth/2, width, depth);
+      }
+      case 'door':
+      case 'window': {
+        // Openings set into a wall are drawn across the wall's full thickness
+        const host = obj.hostId ? objects.find(o => o.id === obj.hostId) : undefined;
+        const thickness = host ? host.scale.z * scale : depth;
+        if (host) {
+          ctx.fillStyle = '#3a3a4e';
+          ctx.fillRect(-width/2, -thickness/2, width, thickness);
+        }
+
+        if (obj.type === 'door') {
+          // Leaf shown open at 90° with its swing
+          ctx.strokeStyle = override || (isSelected ? '#fbbf24' : '#f59e0b');
+          ctx.lineWidth = 2;
+          ctx.beginPath();
+          ctx.moveTo(-width/2, thickness/2);
+          ctx.lineTo(-width/2, thickness/2 + width);
+          ctx.stroke();
+          ctx.lineWidth = 1;
+          ctx.beginPath();
+          ctx.arc(-width/2, thickness/2, width, 0, Math.PI/2);
+          ctx.stroke();
+        } else {
+          // Frame with the glass line down the middle
+          ctx.strokeStyle = override || (isSelected ? '#60a5fa' : '#3b82f6');
+          ctx.lineWidth = 2;
+          ctx.strokeRect(-width/2, -thickness/2, width, thickness);
+          ctx.beginPath();
+          ctx.moveTo(-width/2, 0);
+          ctx.lineTo(width/2, 0);
+          ctx.stroke();
+        }
         break;
+      }
       default:
-        ctx.fillStyle = isSelected ? obj.color : obj.color + 'aa';
+        ctx.fillStyle = isSelected ? color : color + 'aa';
         ctx.fillRect(-width/2, -depth/2, width, depth);
         break;
     }
+
+    if (obj.wireframe) {
+      ctx.globalAlpha = 1;
+      if (obj.type !== 'floor' && obj.type !== 'ceiling') {
+        ctx.strokeStyle = color;
+        ctx.lineWidth = 1;
+        ctx.strokeRect(-width/2, -depth/2, width, depth);
+      }
+    }
     
     // Draw object label
     if (isSelected || obj.name) {
@@ -175,44 +827,366 @@ export function FloorPlanView() {
       ctx.fillText(obj.name || obj.type, 0, depth/2 + 12);
     }
     
-    // Selection indicator
+    // Selection indicator, dashed when the object is locked in place
     if (isSelected) {
       ctx.strokeStyle = '#10b981';
       ctx.lineWidth = 2;
+      if (isLocked(obj, floorPlan)) ctx.setLineDash([4, 3]);
       ctx.strokeRect(-width/2 - 2, -depth/2 - 2, width + 4, depth + 4);
     }
     
     ctx.restore();
   };
 
-  const handleCanvasClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+  const eventToWorld = (e: React.MouseEvent<HTMLCanvasElement>): PlanPosition | null => {
     const canvas = canvasRef.current;
-    if (!canvas) return;
+    if (!canvas) return null;
     
     const rect = canvas.getBoundingClientRect();
     const x = e.clientX - rect.left - canvas.offsetWidth / 2 - pan.x;
     const y = e.clientY - rect.top - canvas.offsetHeight / 2 - pan.y;
     
-    const scale = 20;
-    const worldX = x / (zoom * scale);
-    const worldZ = y / (zoom * scale);
-    
-    // Find clicked object
-    let clickedObject = null;
-    for (const obj of objects) {
-      const objX = obj.position.x;
-      const objZ = obj.position.z;
-      const halfWidth = obj.scale.x / 2;
-      const halfDepth = obj.scale.z / 2;
-      
-      if (worldX >= objX - halfWidth && worldX <= objX + halfWidth &&
-          worldZ >= objZ - halfDepth && worldZ <= objZ + halfDepth) {
-        clickedObject = obj;
-        break;
+    return { x: x / (zoom * PIXELS_PER_METER), z: y / (zoom * PIXELS_PER_METER) };
+  };
+
+  // Shift disables snapping for free placement
+  const snapEvent = (e: React.MouseEvent<HTMLCanvasElement>): SnapResult | null => {
+    const point = eventToWorld(e);
+    if (!point) return null;
+    if (e.shiftKey) return { point, kind: 'none' };
+
+    return snapPoint(point, {
+      radius: SNAP_RADIUS_PX / (zoom * PIXELS_PER_METER),
+      ...pointSnapOptions(snapSettings),
+      origin: tracePoints[tracePoints.length - 1] || measureStart?.point || null,
+      walls: objects.filter(obj => obj.type === 'wall'),
+      // Dimensions also snap to the corners of furniture and openings
+      points: tool === 'measure'
+        ? objects.filter(obj => obj.type !== 'floor' && obj.type !== 'ceiling' && obj.type !== 'wall').flatMap(footprint)
+        : tracePoints.slice(0, 1)
+    });
+  };
+
+  // Topmost object under a plan point: openings before the walls they sit
+  // in, floors last so anything standing on them wins
+  const objectAt = (point: PlanPosition): ModelingObject | null => {
+    const rank = (obj: ModelingObject) => obj.type === 'floor' ? 2 : obj.hostId ? 0 : 1;
+    for (const obj of [...objects].sort((a, b) => rank(a) - rank(b))) {
+      // Ceilings cover the floor below them and are not drawn
+      if (obj.type === 'ceiling') continue;
+
+      // Point in the object's own (rotated) frame
+      const local = planToLocal(obj, point);
+      const hit = obj.outline
+        ? pointInPolygon({ x: local.x / obj.scale.x, z: local.z / obj.scale.z }, obj.outline)
+        : Math.abs(local.x) <= obj.scale.x / 2 && Math.abs(local.z) <= obj.scale.z / 2;
+
+      if (hit) return obj;
+    }
+    return null;
+  };
+
+  // Snapped points count as on a wall even on its centre line's ends
+  const measureTarget = (snap: SnapResult): ModelingObject | null => {
+    const hit = snap.wall || objectAt(snap.point);
+    return hit && hit.type !== 'floor' ? hit : null;
+  };
+
+  // Dimension the cursor would place with the next click
+  const measurePreview = (): ResolvedMeasurement | null => {
+    if (!measureStart || !cursor) return null;
+
+    if (measureMode === 'clearance') {
+      const from = objects.find(obj => obj.id === measureStart.objectId);
+      const wall = measureTarget(cursor);
+      return from && wall?.type === 'wall' ? clearance(from, wall) : null;
+    }
+
+    const start = anchorPoint(measureStart, objects);
+    const end = cursor.point;
+    return { start, end, length: Math.hypot(end.x - start.x, end.z - start.z) };
+  };
+
+  // Distance: two points, each pinned to the object under it. Clearance: an
+  // object, then the wall to measure its gap to.
+  const handleMeasureClick = (snap: SnapResult) => {
+    const target = measureTarget(snap);
+
+    if (measureMode === 'clearance') {
+      if (!measureStart) {
+        if (target && target.type !== 'wall') setMeasureStart(pinAnchor(snap.point, target));
+      } else if (target?.type === 'wall') {
+        addMeasurement('clearance', measureStart, pinAnchor(snap.point, target));
+        setMeasureStart(null);
       }
+      return;
     }
-    
-    selectObject(clickedObject ? clickedObject.id : null);
+
+    if (!measureStart) {
+      setMeasureStart(pinAnchor(snap.point, target));
+      return;
+    }
+
+    const start = anchorPoint(measureStart, objects);
+    if (Math.hypot(snap.point.x - start.x, snap.point.z - start.z) < 1e-3) return;
+    addMeasurement('distance', measureStart, pinAnchor(snap.point, target));
+    setMeasureStart(null);
+  };
+
+  const handleTraceClick = (snap: SnapResult) => {
+    const point = snap.point;
+    const last = tracePoints[tracePoints.length - 1];
+
+    if (!last) {
+      setTracePoints([point]);
+      return;
+    }
+
+    // The second click of a double-click lands on the same spot
+    if (Math.hypot(point.x - last.x, point.z - last.z) < 1e-3) return;
+
+    const first = tracePoints[0];
+    const closesLoop = tracePoints.length > 1 && Math.hypot(point.x - first.x, point.z - first.z) < 1e-3;
+
+    if (tool === 'room') {
+      if (closesLoop) {
+        finishTrace();
+      } else {
+        setTracePoints([...tracePoints, point]);
+      }
+      return;
+    }
+
+    if (tool === 'wall') {
+      createWall(last, point, { thickness: wallThickness, height: wallHeight, room: currentRoom?.id });
+      setTracePoints(closesLoop ? [] : [...tracePoints, point]);
+      return;
+    }
+
+    // Doors and windows clicked onto a wall are set into it
+    const host = snap.wall || cursor?.wall;
+    createOpening(tool === 'door' ? 'door' : 'window', last, point, {
+      thickness: host?.scale.z ?? wallThickness,
+      room: host?.room ?? currentRoom?.id,
+      hostId: host?.id
+    });
+    setTracePoints([]);
+  };
+
+  const handleCanvasClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (tool !== 'select') {
+      const snap = snapEvent(e);
+      if (!snap) return;
+      if (tool === 'measure') {
+        handleMeasureClick(snap);
+      } else {
+        handleTraceClick(snap);
+      }
+      return;
+    }
+
+    if (skipClickRef.current) {
+      skipClickRef.current = false;
+      return;
+    }
+
+    const world = eventToWorld(e);
+    if (!world) return;
+
+    // Shift-click adds the object (and its group) or takes it away
+    const clickedObject = objectAt(world);
+    selectObject(clickedObject ? clickedObject.id : null, e.shiftKey ? 'toggle' : 'replace');
+  };
+
+  // Handle of the selected object under a plan point
+  const handleAt = (point: PlanPosition): Pick<ObjectDrag, 'kind' | 'corner'> | null => {
+    if (!selectedObject || !hasHandles(selectedObject)) return null;
+
+    const reach = HANDLE_SIZE_PX / (zoom * PIXELS_PER_METER);
+    const near = (p: PlanPosition) => Math.hypot(point.x - p.x, point.z - p.z) <= reach;
+    const { corners, rotate } = handlePoints(selectedObject);
+
+    if (near(rotate)) return { kind: 'rotate' };
+    const corner = corners.find(c => near(c.point));
+    return corner ? { kind: 'resize', corner: corner.corner } : null;
+  };
+
+  // Middle button pans. With the select tool, pressing on a handle of the
+  // selected object turns or resizes it, pressing on an object grabs it (with
+  // the rest of the selection, or its group) and pressing on empty floor
+  // starts a selection box; nothing changes until the pointer moves.
+  const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (e.button === 1) {
+      e.preventDefault();
+      panRef.current = { startX: e.clientX, startY: e.clientY, pan };
+      return;
+    }
+    if (tool !== 'select' || e.button !== 0) return;
+
+    const world = eventToWorld(e);
+    if (!world) return;
+
+    const start = { startX: e.clientX, startY: e.clientY, moved: false };
+    const handle = handleAt(world);
+    if (handle && selectedObject) {
+      const { corner } = handle;
+      dragRef.current = {
+        id: selectedObject.id,
+        ...handle,
+        grab: corner
+          ? localToPlan(selectedObject, { x: -corner.x * selectedObject.scale.x / 2, z: -corner.z * selectedObject.scale.z / 2 })
+          : selectedObject.position,
+        ...start
+      };
+      skipClickRef.current = true;
+      return;
+    }
+
+    const obj = objectAt(world);
+    // Rooms are reshaped through their walls, not by dragging the floor
+    if (!obj || obj.type === 'floor') {
+      setBoxSelect({ start: world, end: world, additive: e.shiftKey });
+      return;
+    }
+    // Locked objects are only picked, and stay put when the rest of the
+    // selection is dragged
+    if (isLocked(obj, floorPlan)) return;
+
+    const ids = selectedIds.includes(obj.id) ? selectedIds : selectionUnit(obj, objects, listGroups(floorPlan));
+    dragRef.current = {
+      id: obj.id,
+      kind: 'move',
+      grab: { x: world.x - obj.position.x, z: world.z - obj.position.z },
+      ids: objects
+        .filter(o => ids.includes(o.id) && o.type !== 'floor' && o.type !== 'ceiling' && !isLocked(o, floorPlan))
+        .map(o => o.id),
+      ...start
+    };
+  };
+
+  const dragObject = (e: React.MouseEvent<HTMLCanvasElement>, drag: ObjectDrag) => {
+    if (!drag.moved) {
+      if (Math.hypot(e.clientX - drag.startX, e.clientY - drag.startY) < DRAG_THRESHOLD_PX) return;
+      // The whole drag is recorded as one undo step
+      beginTransaction(drag.kind === 'move' ? 'Move object' : drag.kind === 'rotate' ? 'Rotate object' : 'Resize object');
+      drag.moved = true;
+      skipClickRef.current = true;
+    }
+
+    const world = eventToWorld(e);
+    const obj = objects.find(o => o.id === drag.id);
+    if (!world || !obj) return;
+
+    // Shift turns and resizes freely too
+    if (drag.kind === 'rotate') {
+      const angle = Math.atan2(-(world.x - obj.position.x), -(world.z - obj.position.z));
+      updateObject(obj.id, { rotation: { ...obj.rotation, y: e.shiftKey ? angle : snapRotation(angle, snapSettings) } });
+      return;
+    }
+
+    if (drag.kind === 'resize' && drag.corner) {
+      // Size from the fixed corner to the pointer, in the object's frame
+      const fixed = drag.grab;
+      const local = planToLocal({ ...obj, position: { ...obj.position, x: fixed.x, z: fixed.z } }, world);
+      const size = (extent: number) => {
+        const free = Math.max(MIN_OBJECT_SIZE, extent);
+        return e.shiftKey || !snapSettings.grid
+          ? free
+          : Math.max(snapSettings.gridSize, Math.round(free / snapSettings.gridSize) * snapSettings.gridSize);
+      };
+      const width = size(local.x * drag.corner.x);
+      const depth = size(local.z * drag.corner.z);
+
+      const center = localToPlan(
+        { ...obj, position: { ...obj.position, x: fixed.x, z: fixed.z } },
+        { x: drag.corner.x * width / 2, z: drag.corner.z * depth / 2 }
+      );
+      updateObject(obj.id, {
+        position: { ...obj.position, x: center.x, z: center.z },
+        scale: { ...obj.scale, x: width, z: depth }
+      });
+      return;
+    }
+
+    // The grabbed object snaps; the rest of the selection keeps its place
+    // around it
+    const moving = drag.ids || [obj.id];
+    const proposed = { x: world.x - drag.grab.x, z: world.z - drag.grab.z };
+    // Shift moves freely
+    const snapped = e.shiftKey
+      ? { position: proposed, guides: {} }
+      : snapObjectPosition(obj, proposed, {
+          settings: snapSettings,
+          radius: SNAP_RADIUS_PX / (zoom * PIXELS_PER_METER),
+          ...objectSnapTargets(objects.filter(o => o.id === obj.id || !moving.includes(o.id)))
+        });
+
+    if (moving.length > 1) {
+      const offset = { x: snapped.position.x - obj.position.x, y: 0, z: snapped.position.z - obj.position.z };
+      transformObjects(moving, obj.position, { offset });
+    } else {
+      updateObject(obj.id, { position: { ...obj.position, x: snapped.position.x, z: snapped.position.z } });
+    }
+    setSnapGuides(snapped.guides);
+  };
+
+  // Objects whose centres are in the box, with the rest of their groups;
+  // floors are left out so a box over a room picks what is in it
+  const finishBoxSelect = (box: BoxSelect) => {
+    const span = Math.hypot(box.end.x - box.start.x, box.end.z - box.start.z) * zoom * PIXELS_PER_METER;
+    // A click, handled as one
+    if (span < DRAG_THRESHOLD_PX) return;
+
+    const [minX, maxX] = [Math.min(box.start.x, box.end.x), Math.max(box.start.x, box.end.x)];
+    const [minZ, maxZ] = [Math.min(box.start.z, box.end.z), Math.max(box.start.z, box.end.z)];
+    const inside = objects
+      .filter(obj => obj.type !== 'floor' && obj.type !== 'ceiling')
+      .filter(obj => obj.position.x >= minX && obj.position.x <= maxX && obj.position.z >= minZ && obj.position.z <= maxZ)
+      .map(obj => obj.id);
+
+    selectObjects(expandToGroups(inside, objects, listGroups(floorPlan)), box.additive ? 'add' : 'replace');
+    skipClickRef.current = true;
+  };
+
+  const endDrag = () => {
+    if (dragRef.current?.moved) commitTransaction();
+    if (boxSelect) finishBoxSelect(boxSelect);
+    dragRef.current = null;
+    panRef.current = null;
+    setBoxSelect(null);
+    setSnapGuides({});
+  };
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const panning = panRef.current;
+    if (panning) {
+      setPan({ x: panning.pan.x + e.clientX - panning.startX, y: panning.pan.y + e.clientY - panning.startY });
+      return;
+    }
+    if (dragRef.current) {
+      dragObject(e, dragRef.current);
+      return;
+    }
+    if (boxSelect) {
+      const world = eventToWorld(e);
+      if (world) setBoxSelect({ ...boxSelect, end: world });
+      return;
+    }
+    if (tool === 'select') return;
+    setCursor(snapEvent(e));
+  };
+
+  const handleContextMenu = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (tool === 'select') return;
+    e.preventDefault();
+    finishTrace();
+  };
+
+  const changeTool = (next: DrawingTool) => {
+    setTool(next);
+    setTracePoints([]);
+    setMeasureStart(null);
+    setCursor(null);
   };
 
   const resetView = () => {
@@ -227,11 +1201,20 @@ export function FloorPlanView() {
         ref={canvasRef}
         className="w-full h-full cursor-crosshair"
         onClick={handleCanvasClick}
+        onDoubleClick={finishTrace}
+        onMouseDown={handleMouseDown}
+        onMouseMove={handleMouseMove}
+        onMouseUp={endDrag}
+        onMouseLeave={() => {
+          endDrag();
+          setCursor(null);
+        }}
+        onContextMenu={handleContextMenu}
         style={{ width: '100%', height: '100%' }}
       />
       
       {/* 2D View Controls */}
-      <div className="absolute top-4 right-4 z-10">
+      <div className="absolute top-4 right-4 z-10 w-56 space-y-3">
         <Card className="bg-black/80 border-blue-500/30 backdrop-blur-sm">
           <div className="p-3">
             <h3 className="text-white font-semibold mb-3 text-sm">2D View Controls</h3>
@@ -240,7 +1223,7 @@ export function FloorPlanView() {
                 <Button
                   variant="outline"
                   size="sm"
-                  onClick={() => setZoom(prev => Math.min(prev * 1.2, 3))}
+                  onClick={() => setZoom(prev => Math.min(prev * 1.2, MAX_ZOOM))}
                   className="border-gray-600 text-gray-300 hover:border-blue-500"
                 >
                   <ZoomIn size={14} />
@@ -248,7 +1231,7 @@ export function FloorPlanView() {
                 <Button
                   variant="outline"
                   size="sm"
-                  onClick={() => setZoom(prev => Math.max(prev / 1.2, 0.3))}
+                  onClick={() => setZoom(prev => Math.max(prev / 1.2, MIN_ZOOM))}
                   className="border-gray-600 text-gray-300 hover:border-blue-500"
                 >
                   <ZoomOut size={14} />
@@ -278,7 +1261,8 @@ export function FloorPlanView() {
                 <Button
                   variant={showMeasurements ? 'default' : 'outline'}
                   size="sm"
-                  onClick={() => setShowMeasurements(!showMeasurements)}
+                  title="Show annotations"
+                  onClick={() => setLayer('annotations', { visible: !showMeasurements })}
                   className={showMeasurements 
                     ? 'bg-blue-600 text-white' 
                     : 'border-gray-600 text-gray-300 hover:border-blue-500'
@@ -286,7 +1270,101 @@ export function FloorPlanView() {
                 >
                   <Ruler size={14} />
                 </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  title="Print the plan (layers marked for printing)"
+                  onClick={() => setPrinting(true)}
+                  className="border-gray-600 text-gray-300 hover:border-blue-500"
+                >
+                  <Printer size={14} />
+                </Button>
               </div>
+
+              {levels.length > 1 && (
+                <label className="flex items-center justify-between gap-2 text-xs text-gray-300">
+                  Level
+                  <select
+                    value={level.id}
+                    onChange={(e) => setActiveLevel(e.target.value)}
+                    className="flex-1 rounded bg-gray-800 border border-gray-600 px-1 py-0.5 text-white"
+                  >
+                    {[...levels].reverse().map(l => (
+                      <option key={l.id} value={l.id}>{l.name}</option>
+                    ))}
+                  </select>
+                </label>
+              )}
+            </div>
+          </div>
+        </Card>
+
+        {/* Blueprint tracing */}
+        <Card className="bg-black/80 border-blue-500/30 backdrop-blur-sm">
+          <div className="p-3">
+            <h3 className="text-white font-semibold mb-3 text-sm">Trace</h3>
+            <div className="space-y-3">
+              <div className="flex flex-wrap gap-2">
+                {([
+                  ['select', MousePointer2, 'Select'],
+                  ['room', Pentagon, 'Draw room outline'],
+                  ['wall', PenLine, 'Draw walls'],
+                  ['door', DoorOpen, 'Place door'],
+                  ['window', AppWindow, 'Place window'],
+                  ['measure', DraftingCompass, 'Measure']
+                ] as const).map(([value, Icon, label]) => (
+                  <Button
+                    key={value}
+                    variant={tool === value ? 'default' : 'outline'}
+                    size="sm"
+                    title={label}
+                    onClick={() => changeTool(value)}
+                    className={tool === value
+                      ? 'bg-blue-600 text-white'
+                      : 'border-gray-600 text-gray-300 hover:border-blue-500'
+                    }
+                  >
+                    <Icon size={14} />
+                  </Button>
+                ))}
+              </div>
+
+              {tool === 'wall' && <WallSettings />}
+              {tool === 'measure' && <MeasurePanel />}
+
+              {floorPlan?.imageUrl && (
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant={showUnderlay ? 'default' : 'outline'}
+                    size="sm"
+                    title="Show blueprint"
+                    onClick={() => setLayer('underlay', { visible: !showUnderlay })}
+                    className={showUnderlay
+                      ? 'bg-blue-600 text-white'
+                      : 'border-gray-600 text-gray-300 hover:border-blue-500'
+                    }
+                  >
+                    <Image size={14} />
+                  </Button>
+                  <input
+                    type="range"
+                    min="0.1"
+                    max="1"
+                    step="0.05"
+                    value={underlayOpacity}
+                    onChange={(e) => setUnderlayOpacity(Number(e.target.value))}
+                    disabled={!showUnderlay}
+                    title="Blueprint opacity"
+                    className="flex-1 accent-blue-500"
+                  />
+                </div>
+              )}
+
+              {tool !== 'select' && (
+                <p className="text-xs text-gray-400">
+                  {TRACE_HINTS[tool]} Hold Shift to place without snapping.
+                </p>
+              )}
             </div>
           </div>
         </Card>
@@ -0,0 +1,46 @@
+import { useEffect } from "react";
+import { useThree } from "@react-three/fiber";
+import * as THREE from "three";
+import { useModeling } from "../../lib/stores/useModeling";
+
+const EPSILON = 1e-3;
+
+// Keeps useModeling.camera and the orbit camera in step: user orbiting is
+// written back to the store (so projects save the view) and a camera coming
+// from a loaded project is applied to the viewport.
+export function CameraSync() {
+  const camera = useThree(state => state.camera);
+  const controls = useThree(state => state.controls) as any;
+  const storedCamera = useModeling(state => state.camera);
+  const setCamera = useModeling(state => state.setCamera);
+
+  useEffect(() => {
+    if (!controls) return;
+
+    const { position, target } = storedCamera;
+    const differs = camera.position.distanceTo(new THREE.Vector3(position.x, position.y, position.z)) > EPSILON ||
+      controls.target.distanceTo(new THREE.Vector3(target.x, target.y, target.z)) > EPSILON;
+
+    if (differs) {
+      camera.position.set(position.x, position.y, position.z);
+      controls.target.set(target.x, target.y, target.z);
+      controls.update();
+    }
+  }, [storedCamera, camera, controls]);
+
+  useEffect(() => {
+    if (!controls) return;
+
+    const handleEnd = () => {
+      setCamera({
+        position: { x: camera.position.x, y: camera.position.y, z: camera.position.z },
+        target: { x: controls.target.x, y: controls.target.y, z: controls.target.z }
+      });
+    };
+
+    controls.addEventListener('end', handleEnd);
+    return () => controls.removeEventListener('end', handleEnd);
+  }, [camera, controls, setCamera]);
+
+  return null;
+}
@@ -0,0 +1,69 @@
+import { useMemo } from "react";
+import { Billboard, Line, Text } from "@react-three/drei";
+import { useModeling } from "../../lib/stores/useModeling";
+import { useActiveLevel } from "../../hooks/use-active-level";
+import { levelOf } from "../../lib/levels";
+import { getLayer } from "../../lib/layers";
+import { formatLength, resolveMeasurement, type ResolvedMeasurement } from "../../lib/measurements";
+
+// Height of dimension lines above their level's floor, clear of the floor slab
+export const DIMENSION_OFFSET = 0.05;
+const TICK = 0.08;
+
+// One dimension on the plan at height `y`: the line, slashed ends and a
+// label that always faces the camera
+export function DimensionLine({ dimension, y, color }: { dimension: ResolvedMeasurement; y: number; color: string }) {
+  const { start, end, length } = dimension;
+
+  const ticks = useMemo(() => {
+    if (length < 1e-6) return [];
+    const ux = (end.x - start.x) / length;
+    const uz = (end.z - start.z) / length;
+    const tx = (ux - uz) * TICK;
+    const tz = (uz + ux) * TICK;
+    return [start, end].map(p => [[p.x - tx, y, p.z - tz], [p.x + tx, y, p.z + tz]] as [number, number, number][]);
+  }, [start, end, length, y]);
+
+  return (
+    <group userData={{ exportIgnore: true }}>
+      <Line points={[[start.x, y, start.z], [end.x, y, end.z]]} color={color} lineWidth={2} />
+      {ticks.map((points, index) => (
+        <Line key={index} points={points} color={color} lineWidth={2} />
+      ))}
+      <Billboard position={[(start.x + end.x) / 2, y + 0.15, (start.z + end.z) / 2]}>
+        <Text fontSize={0.2} color={color} outlineWidth={0.02} outlineColor="#1a1a2e" anchorX="center" anchorY="middle">
+          {formatLength(length)}
+        </Text>
+      </Billboard>
+    </group>
+  );
+}
+
+// Saved dimension annotations, each on its own level; hidden with the upper
+// levels when those are, and with the annotations layer
+export function DimensionLines() {
+  const { objects, floorPlan, hideUpperLevels } = useModeling();
+  const { levels, level } = useActiveLevel();
+  const annotations = getLayer(floorPlan, 'annotations');
+
+  const dimensions = useMemo(() => (floorPlan?.measurements || [])
+    .map(m => ({ id: m.id, level: levelOf(m, levels), dimension: resolveMeasurement(m, objects) }))
+    .filter(d => !hideUpperLevels || d.level.elevation <= level.elevation),
+    [floorPlan, objects, levels, level, hideUpperLevels]
+  );
+
+  if (!annotations.visible) return null;
+
+  return (
+    <>
+      {dimensions.map(d => (
+        <DimensionLine
+          key={d.id}
+          dimension={d.dimension}
+          y={d.level.elevation + DIMENSION_OFFSET}
+          color={annotations.color || '#fbbf24'}
+        />
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,64 @@
+import { useEffect, useState } from "react";
+import * as THREE from "three";
+import { ModelingObject } from "../../types/modeling";
+import { loadTexture, materialPreset, textureRepeat } from "../../lib/materials";
+
+interface LibraryMaterialProps {
+  object: ModelingObject;
+  color: THREE.Color;
+}
+
+// The object's library material, tinted with its colour and its texture
+// tiled as the object asks
+export function LibraryMaterial({ object, color }: LibraryMaterialProps) {
+  const preset = materialPreset(object);
+  const repeat = textureRepeat(object);
+  const [map, setMap] = useState<THREE.Texture | null>(null);
+
+  useEffect(() => {
+    if (!preset.texture) {
+      setMap(null);
+      return;
+    }
+
+    let copy: THREE.Texture | null = null;
+    let cancelled = false;
+    loadTexture(preset.texture)
+      .then(base => {
+        if (cancelled) return;
+        copy = base.clone();
+        copy.repeat.set(repeat.x, repeat.y);
+        copy.needsUpdate = true;
+        setMap(copy);
+      })
+      .catch(error => console.error('Texture loading failed:', error));
+    return () => {
+      cancelled = true;
+      copy?.dispose();
+    };
+  }, [preset.texture, repeat.x, repeat.y]);
+
+  return (
+    <meshPhysicalMaterial
+      // Gaining or losing a texture needs a new shader
+      key={map ? 'textured' : 'plain'}
+      color={color}
+      map={map}
+      bumpMap={preset.bumpScale ? map : null}
+      bumpScale={preset.bumpScale || 0}
+      roughness={preset.roughness}
+      metalness={preset.metalness}
+      transmission={preset.transmission || 0}
+      ior={preset.ior || 1.5}
+      thickness={preset.thickness || 0}
+      clearcoat={preset.clearcoat || 0}
+      clearcoatRoughness={preset.clearcoatRoughness || 0}
+      sheen={preset.sheen || 0}
+      sheenColor={color}
+      envMapIntensity={preset.envMapIntensity}
+      wireframe={object.wireframe}
+      transparent={object.opacity !== undefined}
+      opacity={object.opacity || 1}
+    />
+  );
+}
@@ -0,0 +1,173 @@
+import { useEffect, useState } from "react";
+import type { Object3D } from "three";
+import type { ThreeEvent } from "@react-three/fiber";
+import { useModeling } from "../../lib/stores/useModeling";
+import { useDrawing } from "../../lib/stores/useDrawing";
+import { useActiveLevel } from "../../hooks/use-active-level";
+import { isOnLevel } from "../../lib/levels";
+import { snapPoint, pointSnapOptions, type SnapResult } from "../../lib/snapping";
+import { useSnapping } from "../../lib/stores/useSnapping";
+import { anchorPoint, clearance, footprint, pinAnchor, type ResolvedMeasurement } from "../../lib/measurements";
+import type { MeasurementAnchor, ModelingObject } from "../../types/modeling";
+import { DimensionLine, DIMENSION_OFFSET } from "./DimensionLines";
+
+// Snap radius on the ground, meters
+const SNAP_RADIUS = 0.3;
+// Pointer travel (px) above which a click is treated as an orbit drag
+const DRAG_THRESHOLD = 4;
+
+interface MeasureHit {
+  snap: SnapResult;
+  // Object the point is on, if any; floors and ceilings don't count
+  target: ModelingObject | null;
+}
+
+// Scene object a mesh belongs to, from the id on its viewer's root group
+function objectIdOf(object: Object3D | null): string | undefined {
+  for (let node = object; node; node = node.parent) {
+    if (node.userData?.objectId) return node.userData.objectId;
+  }
+  return undefined;
+}
+
+// The 2D plan's measure tool in the 3D view: click points on objects or the
+// floor of the active level to place dimension lines.
+export function MeasureTool() {
+  const { tool, setTool, measureMode } = useDrawing();
+  const { objects, addMeasurement } = useModeling();
+  const { levels, level } = useActiveLevel();
+  const snapSettings = useSnapping();
+  const [start, setStart] = useState<MeasurementAnchor | null>(null);
+  const [hover, setHover] = useState<MeasureHit | null>(null);
+
+  const active = tool === 'measure';
+
+  useEffect(() => {
+    setStart(null);
+    if (!active) setHover(null);
+  }, [active, measureMode]);
+
+  // Escape drops the first point or, with none, leaves the tool
+  useEffect(() => {
+    if (!active) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target && ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+
+      if (event.key === 'Escape') {
+        if (!start) setTool('select');
+        setStart(null);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [active, start, setTool]);
+
+  if (!active) return null;
+
+  const levelObjects = objects.filter(obj => isOnLevel(obj, level.id, levels));
+
+  // Nearest object the ray hits on the active level, else the ground
+  const hitTest = (e: ThreeEvent<MouseEvent>): MeasureHit => {
+    let target: ModelingObject | null = null;
+    let point = { x: e.point.x, z: e.point.z };
+    for (const intersection of e.intersections) {
+      const id = objectIdOf(intersection.object);
+      const obj = id ? levelObjects.find(o => o.id === id) : undefined;
+      if (obj && obj.type !== 'floor' && obj.type !== 'ceiling') {
+        target = obj;
+        point = { x: intersection.point.x, z: intersection.point.z };
+        break;
+      }
+    }
+
+    const { gridStep, angleStep } = pointSnapOptions(snapSettings);
+    const snap: SnapResult = e.shiftKey ? { point, kind: 'none' } : snapPoint(point, {
+      radius: SNAP_RADIUS,
+      // Points on an object stay where they were clicked
+      gridStep: target ? undefined : gridStep,
+      angleStep,
+      origin: start?.point || null,
+      walls: levelObjects.filter(obj => obj.type === 'wall'),
+      points: levelObjects
+        .filter(obj => obj.type !== 'floor' && obj.type !== 'ceiling' && obj.type !== 'wall')
+        .flatMap(footprint)
+    });
+    return { snap, target: snap.wall || target };
+  };
+
+  // Same rules as the 2D plan: distance pins each end to the object under
+  // it; clearance takes an object, then a wall
+  const handleClick = (e: ThreeEvent<MouseEvent>) => {
+    if (e.delta > DRAG_THRESHOLD) return;
+    e.stopPropagation();
+
+    const { snap, target } = hitTest(e);
+
+    if (measureMode === 'clearance') {
+      if (!start) {
+        if (target && target.type !== 'wall') setStart(pinAnchor(snap.point, target));
+      } else if (target?.type === 'wall') {
+        addMeasurement('clearance', start, pinAnchor(snap.point, target));
+        setStart(null);
+      }
+      return;
+    }
+
+    if (!start) {
+      setStart(pinAnchor(snap.point, target));
+      return;
+    }
+
+    const from = anchorPoint(start, objects);
+    if (Math.hypot(snap.point.x - from.x, snap.point.z - from.z) < 1e-3) return;
+    addMeasurement('distance', start, pinAnchor(snap.point, target));
+    setStart(null);
+  };
+
+  let preview: ResolvedMeasurement | null = null;
+  if (start && hover) {
+    if (measureMode === 'clearance') {
+      const from = objects.find(obj => obj.id === start.objectId);
+      if (from && hover.target?.type === 'wall') preview = clearance(from, hover.target);
+    } else {
+      const from = anchorPoint(start, objects);
+      const to = hover.snap.point;
+      preview = { start: from, end: to, length: Math.hypot(to.x - from.x, to.z - from.z) };
+    }
+  }
+
+  const cursor = hover?.snap;
+
+  return (
+    <group userData={{ exportIgnore: true }}>
+      {/* Invisible surface on the active level's floor; clicks on objects
+          pass through to it with the objects in e.intersections */}
+      <mesh
+        rotation={[-Math.PI / 2, 0, 0]}
+        position={[0, level.elevation + 0.001, 0]}
+        onPointerMove={(e) => setHover(hitTest(e))}
+        onPointerOut={() => setHover(null)}
+        onClick={handleClick}
+      >
+        <planeGeometry args={[200, 200]} />
+        <meshBasicMaterial visible={false} />
+      </mesh>
+
+      {preview && <DimensionLine dimension={preview} y={level.elevation + DIMENSION_OFFSET} color="#22d3ee" />}
+
+      {cursor && (
+        <mesh
+          position={[cursor.point.x, level.elevation + DIMENSION_OFFSET, cursor.point.z]}
+          rotation={[-Math.PI / 2, 0, 0]}
+          raycast={() => null}
+        >
+          <ringGeometry args={[0.08, 0.12, 24]} />
+          <meshBasicMaterial color={cursor.kind === 'endpoint' ? '#10b981' : cursor.kind === 'wall' ? '#22d3ee' : '#ffffff'} />
+        </mesh>
+      )}
+    </group>
+  );
+}
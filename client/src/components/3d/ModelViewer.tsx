@@ -1,8 +1,17 @@
-import { useRef, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { useFrame } from "@react-three/fiber";
 import { useGLTF, Text } from "@react-three/drei";
 import * as THREE from "three";
 import { ModelingObject } from "../../types/modeling";
+import { createOutlineGeometry, hasOutline } from "../../lib/outlineGeometry";
+import { hostedOpenings } from "../../lib/openings";
+import { createWallGeometry } from "../../lib/wallGeometry";
+import { createStairsGeometry } from "../../lib/stairsGeometry";
+import { stairSteps } from "../../lib/levels";
+import { getWallJoins, isJoined } from "../../lib/wallJoins";
+import { useModeling } from "../../lib/stores/useModeling";
+import { displayColor } from "../../lib/layers";
+import { LibraryMaterial } from "./LibraryMaterial";
 
 // Preload common models to avoid loading errors
 useGLTF.preload('/models/fallback.glb');
@@ -17,8 +26,29 @@ export function ModelViewer({ object, isSelected, onSelect }: ModelViewerProps)
   const meshRef = useRef<THREE.Mesh>(null);
   const [hovered, setHovered] = useState(false);
 
+  const objects = useModeling(state => state.objects);
+  const floorPlan = useModeling(state => state.floorPlan);
+  const openings = object.type === 'wall' ? hostedOpenings(objects, object.id) : [];
+  const openingsKey = openings.map(o => `${o.hostOffset}:${o.sillHeight}:${o.scale.x}:${o.scale.y}`).join('|');
+  // Corners and T-junctions with other walls reshape the ends
+  const ends = object.type === 'wall' ? getWallJoins(objects).get(object.id) : undefined;
+  const endsKey = ends ? [ends.start.pos, ends.start.neg, ends.end.pos, ends.end.neg].join(',') : '';
+
+  // Outlined floors/ceilings, stairs and walls with openings need built geometry
+  const customGeometry = useMemo(() => {
+    if (hasOutline(object)) return createOutlineGeometry(object.outline);
+    if (object.type === 'stairs') return createStairsGeometry(stairSteps(object.scale.y));
+    if (openings.length > 0 || isJoined(ends)) return createWallGeometry(object, openings, ends);
+    return null;
+  }, [object.type, object.outline, object.scale.x, object.scale.y, openingsKey, endsKey]);
+  useEffect(() => () => customGeometry?.dispose(), [customGeometry]);
+
   // Create geometry based on object type
   const createGeometry = () => {
+    if (customGeometry) {
+      return <primitive object={customGeometry} attach="geometry" />;
+    }
+
     switch (object.type) {
       case 'cube':
         return <boxGeometry args={[1, 1, 1]} />;
@@ -37,9 +67,9 @@ export function ModelViewer({ object, isSelected, onSelect }: ModelViewerProps)
     }
   };
 
-  // Create material with object color
+  // Library material in the object's colour, or its layer's
   const createMaterial = () => {
-    const baseColor = new THREE.Color(object.color);
+    const baseColor = new THREE.Color(displayColor(object, floorPlan));
     
     if (isSelected) {
       // Highlight selected objects
@@ -49,15 +79,7 @@ export function ModelViewer({ object, isSelected, onSelect }: ModelViewerProps)
       baseColor.multiplyScalar(1.1);
     }
 
-    return (
-      <meshStandardMaterial
-        color={baseColor}
-        roughness={0.7}
-        metalness={0.1}
-        transparent={object.opacity !== undefined}
-        opacity={object.opacity || 1}
-      />
-    );
+    return <LibraryMaterial object={object} color={baseColor} />;
   };
 
   // Handle imported models (GLTF/GLB) with robust error handling
@@ -70,6 +92,7 @@ export function ModelViewer({ object, isSelected, onSelect }: ModelViewerProps)
       position={[object.position.x, object.position.y, object.position.z]}
       rotation={[object.rotation.x, object.rotation.y, object.rotation.z]}
       scale={[object.scale.x, object.scale.y, object.scale.z]}
+      userData={{ objectId: object.id }}
       data-object-id={object.id}
     >
       <mesh
@@ -97,7 +120,7 @@ export function ModelViewer({ object, isSelected, onSelect }: ModelViewerProps)
 
       {/* Selection outline */}
       {isSelected && (
-        <mesh>
+        <mesh userData={{ exportIgnore: true }}>
           {createGeometry()}
           <meshBasicMaterial
             color="#00ff00"
@@ -111,6 +134,7 @@ export function ModelViewer({ object, isSelected, onSelect }: ModelViewerProps)
       {/* Object label */}
       {(isSelected || hovered) && (
         <Text
+          userData={{ exportIgnore: true }}
           position={[0, 1.2, 0]}
           fontSize={0.3}
           color="#ffffff"
@@ -150,6 +174,11 @@ function ImportedModel({ object, isSelected, onSelect, hovered, setHovered, mesh
         if (child.material) {
           child.material.needsUpdate = true;
         }
+        // Wireframe on copies; the originals are shared through the GLTF cache
+        if (object.wireframe && child.material) {
+          const wire = (material: THREE.Material) => Object.assign(material.clone(), { wireframe: true });
+          child.material = Array.isArray(child.material) ? child.material.map(wire) : wire(child.material);
+        }
       }
     });
 
@@ -158,6 +187,7 @@ function ImportedModel({ object, isSelected, onSelect, hovered, setHovered, mesh
         position={[object.position.x, object.position.y, object.position.z]}
         rotation={[object.rotation.x, object.rotation.y, object.rotation.z]}
         scale={[object.scale.x, object.scale.y, object.scale.z]}
+        userData={{ objectId: object.id }}
         data-object-id={object.id}
       >
         <primitive
@@ -180,7 +210,7 @@ function ImportedModel({ object, isSelected, onSelect, hovered, setHovered, mesh
         
         {/* Selection outline */}
         {isSelected && (
-          <mesh>
+          <mesh userData={{ exportIgnore: true }}>
             <boxGeometry args={[3, 3, 3]} />
             <meshBasicMaterial
               color="#00ff00"
@@ -194,6 +224,7 @@ function ImportedModel({ object, isSelected, onSelect, hovered, setHovered, mesh
         {/* Object label */}
         {(isSelected || hovered) && (
           <Text
+            userData={{ exportIgnore: true }}
             position={[0, 2.5, 0]}
             fontSize={0.3}
             color="#ffffff"
@@ -214,6 +245,7 @@ function ImportedModel({ object, isSelected, onSelect, hovered, setHovered, mesh
         position={[object.position.x, object.position.y, object.position.z]}
         rotation={[object.rotation.x, object.rotation.y, object.rotation.z]}
         scale={[object.scale.x, object.scale.y, object.scale.z]}
+        userData={{ objectId: object.id }}
         data-object-id={object.id}
       >
         <mesh
@@ -237,6 +269,7 @@ function ImportedModel({ object, isSelected, onSelect, hovered, setHovered, mesh
         </mesh>
         
         <Text
+          userData={{ exportIgnore: true }}
           position={[0, 1.5, 0]}
           fontSize={0.2}
           color="#ffffff"
@@ -1,163 +1,405 @@
-import { useRef, useState, useEffect } from "react";
-import { useFrame, useThree } from "@react-three/fiber";
+import { useEffect, useRef, useState } from "react";
+import { useFrame, useThree, type ThreeEvent } from "@react-three/fiber";
+import { Html } from "@react-three/drei";
 import * as THREE from "three";
-import { ModelingObject } from "../../types/modeling";
+import { ModelingObject, Vector3 } from "../../types/modeling";
+import { useModeling } from "../../lib/stores/useModeling";
+import { useSnapping } from "../../lib/stores/useSnapping";
+import type { GizmoMode, GizmoSpace } from "../../lib/stores/useGizmo";
+import { levelOf, listLevels, objectsOnLevel } from "../../lib/levels";
+import { objectSnapTargets, snapObjectPosition, snapRotation } from "../../lib/snapping";
+import { turnRotation } from "../../lib/groups";
+import { isLocked, visibleObjects } from "../../lib/visibility";
 
 interface ObjectManipulatorProps {
   object: ModelingObject;
-  mode: 'move' | 'rotate' | 'scale' | null;
+  mode: GizmoMode | null;
+  space?: GizmoSpace;
   onUpdate: (id: string, updates: Partial<ModelingObject>) => void;
+  // Objects moving along with this one, never snapped against
+  ignore?: string[];
 }
 
-export function ObjectManipulator({ object, mode, onUpdate }: ObjectManipulatorProps) {
+type Axis = 'x' | 'y' | 'z';
+
+// An axis arrow (or ring, for rotation), the square for the plane across an
+// axis, or the centre cube that scales uniformly
+interface Handle {
+  kind: 'axis' | 'plane' | 'uniform';
+  axis: Axis;
+}
+
+interface Drag {
+  handle: Handle;
+  pointerId: number;
+  // Surface the pointer ray is intersected with while dragging
+  plane: THREE.Plane;
+  startHit: THREE.Vector3;
+  origin: THREE.Vector3;
+  // World directions of the gizmo's axes when the drag began
+  axes: Record<Axis, THREE.Vector3>;
+  start: { position: Vector3; rotation: Vector3; scale: Vector3 };
+}
+
+const AXES: Axis[] = ['x', 'y', 'z'];
+const AXIS_COLORS: Record<Axis, string> = { x: '#ef4444', y: '#22c55e', z: '#3b82f6' };
+const ACTIVE_COLOR = '#facc15';
+// Gizmo size relative to its distance from the camera, so it keeps the same
+// size on screen
+const SCREEN_SCALE = 0.15;
+// Snap radius for wall faces and object edges, meters
+const SNAP_RADIUS = 0.3;
+const MIN_SCALE = 0.01;
+const TYPED_UNITS: Record<GizmoMode, string> = { move: ' m', rotate: '°', scale: '×' };
+
+const UNIT: Record<Axis, THREE.Vector3> = {
+  x: new THREE.Vector3(1, 0, 0),
+  y: new THREE.Vector3(0, 1, 0),
+  z: new THREE.Vector3(0, 0, 1)
+};
+
+// Rotations that turn a Y-up cylinder or cone onto each axis, and a ring
+// (lying in XY) around it
+const ALONG: Record<Axis, [number, number, number]> = { x: [0, 0, -Math.PI / 2], y: [0, 0, 0], z: [Math.PI / 2, 0, 0] };
+const AROUND: Record<Axis, [number, number, number]> = { x: [0, Math.PI / 2, 0], y: [Math.PI / 2, 0, 0], z: [0, 0, 0] };
+
+const otherAxes = (axis: Axis) => AXES.filter(a => a !== axis);
+
+const objectQuaternion = (rotation: Vector3) =>
+  new THREE.Quaternion().setFromEuler(new THREE.Euler(rotation.x, rotation.y, rotation.z));
+
+// Surface that keeps the pointer on the handle's constraint: the plane
+// through an axis that faces the camera best, the plane across an axis, or
+// the view plane
+function dragPlane(handle: Handle, mode: GizmoMode, axes: Record<Axis, THREE.Vector3>, origin: THREE.Vector3, view: THREE.Vector3) {
+  let normal: THREE.Vector3;
+  if (handle.kind === 'uniform') {
+    normal = view.clone();
+  } else if (handle.kind === 'plane' || mode === 'rotate') {
+    normal = axes[handle.axis].clone();
+  } else {
+    const axis = axes[handle.axis];
+    normal = axis.clone().cross(view).cross(axis);
+    // Looking straight down the axis: any plane through it will do
+    if (normal.lengthSq() < 1e-6) normal = axes[otherAxes(handle.axis)[0]].clone();
+  }
+  return new THREE.Plane().setFromNormalAndCoplanarPoint(normal.normalize(), origin);
+}
+
+// Typed value while dragging: "-", "1." and the like are still being typed
+const parseTyped = (typed: string) => {
+  const value = parseFloat(typed);
+  return Number.isFinite(value) ? value : null;
+};
+
+export function ObjectManipulator({ object, mode, space = 'world', onUpdate, ignore = [] }: ObjectManipulatorProps) {
   const groupRef = useRef<THREE.Group>(null);
-  const { camera, gl, raycaster } = useThree();
-  const [isDragging, setIsDragging] = useState(false);
-  const [dragStart, setDragStart] = useState<THREE.Vector3>(new THREE.Vector3());
-  const [initialValues, setInitialValues] = useState<any>(null);
+  const { camera } = useThree();
+  const controls = useThree(state => state.controls) as (THREE.EventDispatcher & { enabled: boolean }) | null;
+  const { beginTransaction, commitTransaction, cancelTransaction, floorPlan } = useModeling();
+  const dragRef = useRef<Drag | null>(null);
+  const lastRayRef = useRef<THREE.Ray | null>(null);
+  const [activeHandle, setActiveHandle] = useState<Handle | null>(null);
+  const [hovered, setHovered] = useState<string | null>(null);
+  // Numeric entry while dragging, and what the drag is doing right now
+  const [typed, setTyped] = useState('');
+  const [readout, setReadout] = useState('');
+  const typedRef = useRef('');
+
+  // Scale handles always follow the object
+  const orientation = space === 'local' || mode === 'scale'
+    ? objectQuaternion(object.rotation)
+    : new THREE.Quaternion();
+
+  const endDrag = (commit: boolean) => {
+    if (!dragRef.current) return;
+    dragRef.current = null;
+    lastRayRef.current = null;
+    if (commit) {
+      commitTransaction();
+    } else {
+      cancelTransaction();
+    }
+    if (controls) controls.enabled = true;
+    typedRef.current = '';
+    setTyped('');
+    setReadout('');
+    setActiveHandle(null);
+  };
+
+  // Close a drag that is interrupted by the manipulator unmounting
+  useEffect(() => () => {
+    if (dragRef.current) {
+      dragRef.current = null;
+      commitTransaction();
+      if (controls) controls.enabled = true;
+    }
+  }, [commitTransaction, controls]);
+
+  // Same size on screen at any distance
+  useFrame(() => {
+    if (!groupRef.current) return;
+    groupRef.current.scale.setScalar(camera.position.distanceTo(groupRef.current.position) * SCREEN_SCALE);
+  });
+
+  const apply = (drag: Drag, ray: THREE.Ray, free: boolean) => {
+    const hit = ray.intersectPlane(drag.plane, new THREE.Vector3());
+    if (!hit || !mode) return;
+
+    const settings = useSnapping.getState();
+    const value = parseTyped(typedRef.current);
+    const { handle, axes, origin, start } = drag;
+    const delta = hit.clone().sub(drag.startHit);
+
+    if (mode === 'move') {
+      const freeAxes = handle.kind === 'axis' ? [handle.axis] : otherAxes(handle.axis);
+      // Distance along each free axis; a typed value sets an axis drag exactly
+      const amounts = freeAxes.map(axis => delta.dot(axes[axis]));
+      if (value !== null && handle.kind === 'axis') amounts[0] = value;
+
+      const snapping = !free && value === null;
+      if (snapping && space === 'local' && settings.grid) {
+        amounts.forEach((amount, i) => { amounts[i] = Math.round(amount / settings.gridSize) * settings.gridSize; });
+      }
+
+      const moved = origin.clone();
+      freeAxes.forEach((axis, i) => moved.addScaledVector(axes[axis], amounts[i]));
+      const position = { x: moved.x, y: moved.y, z: moved.z };
+
+      // World axes snap the coordinates themselves: x/z against walls,
+      // furniture and the grid, y to the grid
+      if (snapping && space === 'world') {
+        const { objects, floorPlan } = useModeling.getState();
+        const levels = listLevels(floorPlan);
+        const snapped = snapObjectPosition(object, position, {
+          settings,
+          radius: SNAP_RADIUS,
+          ...objectSnapTargets(
+            visibleObjects(objectsOnLevel(objects, levelOf(object, levels).id, levels), floorPlan).filter(obj => !ignore.includes(obj.id))
+          )
+        });
+        if (freeAxes.includes('x')) position.x = snapped.position.x;
+        if (freeAxes.includes('z')) position.z = snapped.position.z;
+        if (freeAxes.includes('y') && settings.grid) position.y = Math.round(position.y / settings.gridSize) * settings.gridSize;
+      }
 
-  // Handle mouse events for manipulation
+      onUpdate(object.id, { position });
+      const offset = new THREE.Vector3(position.x, position.y, position.z).sub(origin);
+      setReadout(freeAxes.map(axis => `${axis.toUpperCase()} ${offset.dot(axes[axis]).toFixed(2)} m`).join('  '));
+    } else if (mode === 'rotate') {
+      const normal = axes[handle.axis];
+      const from = drag.startHit.clone().sub(origin);
+      const to = hit.clone().sub(origin);
+      let angle = Math.atan2(from.clone().cross(to).dot(normal), from.dot(to));
+      if (value !== null) {
+        angle = THREE.MathUtils.degToRad(value);
+      } else if (!free) {
+        angle = snapRotation(angle, settings);
+      }
+
+      // Turning about the handle's world direction works for both spaces
+      onUpdate(object.id, { rotation: turnRotation(start.rotation, new THREE.Quaternion().setFromAxisAngle(normal, angle)) });
+      setReadout(`${handle.axis.toUpperCase()} ${THREE.MathUtils.radToDeg(angle).toFixed(1)}°`);
+    } else {
+      const from = drag.startHit.clone().sub(origin);
+      const to = hit.clone().sub(origin);
+      let factor: number;
+      if (handle.kind === 'uniform') {
+        factor = from.length() > 1e-6 ? to.length() / from.length() : 1;
+      } else {
+        const along = from.dot(axes[handle.axis]);
+        factor = Math.abs(along) > 1e-6 ? to.dot(axes[handle.axis]) / along : 1;
+      }
+      if (value !== null) factor = value;
+
+      const scale = { ...start.scale };
+      (handle.kind === 'uniform' ? AXES : [handle.axis]).forEach(axis => {
+        let size = Math.max(MIN_SCALE, start.scale[axis] * factor);
+        // One axis at a time snaps its size to the grid
+        if (!free && value === null && handle.kind === 'axis' && settings.grid) {
+          size = Math.max(settings.gridSize, Math.round(size / settings.gridSize) * settings.gridSize);
+        }
+        scale[axis] = size;
+      });
+
+      onUpdate(object.id, { scale });
+      setReadout(handle.kind === 'uniform'
+        ? `×${factor.toFixed(2)}`
+        : `${handle.axis.toUpperCase()} ${scale[handle.axis].toFixed(2)} m`);
+    }
+  };
+
+  // Keys typed while dragging enter an exact value (meters, degrees or a
+  // scale factor); Enter confirms, Escape puts the object back
   useEffect(() => {
-    const handlePointerDown = (event: PointerEvent) => {
-      if (!mode || event.button !== 0) return;
-
-      const pointer = new THREE.Vector2();
-      pointer.x = (event.clientX / gl.domElement.clientWidth) * 2 - 1;
-      pointer.y = -(event.clientY / gl.domElement.clientHeight) * 2 + 1;
-
-      raycaster.setFromCamera(pointer, camera);
-      
-      // Start dragging
-      setIsDragging(true);
-      setDragStart(new THREE.Vector3(event.clientX, event.clientY, 0));
-      
-      if (mode === 'move') {
-        setInitialValues({ ...object.position });
-      } else if (mode === 'rotate') {
-        setInitialValues({ ...object.rotation });
-      } else if (mode === 'scale') {
-        setInitialValues({ ...object.scale });
+    if (!activeHandle) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const drag = dragRef.current;
+      if (!drag) return;
+      // Nothing else reacts to keys mid-drag
+      event.stopPropagation();
+      event.preventDefault();
+
+      if (event.key === 'Enter') {
+        endDrag(true);
+        return;
+      }
+      if (event.key === 'Escape') {
+        endDrag(false);
+        return;
       }
-    };
 
-    const handlePointerMove = (event: PointerEvent) => {
-      if (!isDragging || !mode || !initialValues) return;
-
-      const deltaX = (event.clientX - dragStart.x) * 0.01;
-      const deltaY = (event.clientY - dragStart.y) * 0.01;
-
-      if (mode === 'move') {
-        // Move object in world space
-        const newPosition = {
-          x: initialValues.x + deltaX,
-          y: initialValues.y - deltaY,
-          z: initialValues.z
-        };
-        onUpdate(object.id, { position: newPosition });
-      } else if (mode === 'rotate') {
-        // Rotate object
-        const newRotation = {
-          x: initialValues.x,
-          y: initialValues.y + deltaX,
-          z: initialValues.z
-        };
-        onUpdate(object.id, { rotation: newRotation });
-      } else if (mode === 'scale') {
-        // Scale object uniformly
-        const scaleFactor = 1 + deltaY;
-        const newScale = {
-          x: Math.max(0.1, initialValues.x * scaleFactor),
-          y: Math.max(0.1, initialValues.y * scaleFactor),
-          z: Math.max(0.1, initialValues.z * scaleFactor)
-        };
-        onUpdate(object.id, { scale: newScale });
+      let next = typedRef.current;
+      if (/^[0-9.]$/.test(event.key)) {
+        next += event.key;
+      } else if (event.key === '-') {
+        next = next.startsWith('-') ? next.slice(1) : `-${next}`;
+      } else if (event.key === 'Backspace') {
+        next = next.slice(0, -1);
+      } else {
+        return;
       }
-    };
 
-    const handlePointerUp = () => {
-      setIsDragging(false);
-      setInitialValues(null);
+      typedRef.current = next;
+      setTyped(next);
+      if (lastRayRef.current) apply(drag, lastRayRef.current, event.shiftKey);
     };
 
-    if (mode) {
-      gl.domElement.addEventListener('pointerdown', handlePointerDown);
-      gl.domElement.addEventListener('pointermove', handlePointerMove);
-      gl.domElement.addEventListener('pointerup', handlePointerUp);
+    // Capture phase, ahead of the gizmo and history shortcuts
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [activeHandle]);
+
+  // Locked objects can't be dragged
+  if (!mode || isLocked(object, floorPlan)) return null;
+
+  const handleProps = (handle: Handle, id: string) => ({
+    onPointerDown: (e: ThreeEvent<PointerEvent>) => {
+      if (e.button !== 0) return;
+      e.stopPropagation();
+      (e.target as Element).setPointerCapture(e.pointerId);
 
-      return () => {
-        gl.domElement.removeEventListener('pointerdown', handlePointerDown);
-        gl.domElement.removeEventListener('pointermove', handlePointerMove);
-        gl.domElement.removeEventListener('pointerup', handlePointerUp);
+      const origin = new THREE.Vector3(object.position.x, object.position.y, object.position.z);
+      const axes = {
+        x: UNIT.x.clone().applyQuaternion(orientation),
+        y: UNIT.y.clone().applyQuaternion(orientation),
+        z: UNIT.z.clone().applyQuaternion(orientation)
       };
-    }
-  }, [mode, isDragging, dragStart, initialValues, object, onUpdate, camera, gl, raycaster]);
+      const plane = dragPlane(handle, mode, axes, origin, camera.getWorldDirection(new THREE.Vector3()));
+      const startHit = e.ray.intersectPlane(plane, new THREE.Vector3());
+      if (!startHit) return;
+
+      // The whole drag is recorded as one undo step
+      beginTransaction(mode === 'move' ? 'Move object' : mode === 'rotate' ? 'Rotate object' : 'Scale object');
+      dragRef.current = {
+        handle,
+        pointerId: e.pointerId,
+        plane,
+        startHit,
+        origin,
+        axes,
+        start: { position: { ...object.position }, rotation: { ...object.rotation }, scale: { ...object.scale } }
+      };
+      lastRayRef.current = e.ray.clone();
+      if (controls) controls.enabled = false;
+      setActiveHandle(handle);
+    },
+    onPointerMove: (e: ThreeEvent<PointerEvent>) => {
+      const drag = dragRef.current;
+      if (!drag || drag.pointerId !== e.pointerId) return;
+      e.stopPropagation();
+      lastRayRef.current = e.ray.clone();
+      apply(drag, e.ray, e.shiftKey);
+    },
+    onPointerUp: (e: ThreeEvent<PointerEvent>) => {
+      if (dragRef.current?.pointerId !== e.pointerId) return;
+      e.stopPropagation();
+      (e.target as Element).releasePointerCapture(e.pointerId);
+      endDrag(true);
+    },
+    // Clicks on the gizmo never select what is behind it
+    onClick: (e: ThreeEvent<MouseEvent>) => e.stopPropagation(),
+    onPointerOver: (e: ThreeEvent<PointerEvent>) => {
+      e.stopPropagation();
+      setHovered(id);
+    },
+    onPointerOut: () => setHovered(current => current === id ? null : current)
+  });
 
-  if (!mode) return null;
+  const isActive = (handle: Handle, id: string) =>
+    hovered === id || (activeHandle?.kind === handle.kind && activeHandle.axis === handle.axis);
+  const colorOf = (handle: Handle, id: string) => isActive(handle, id) ? ACTIVE_COLOR : AXIS_COLORS[handle.axis];
+
+  // Drawn over the scene so walls never hide the handles
+  const material = (color: string, opacity = 1) => (
+    <meshBasicMaterial color={color} depthTest={false} depthWrite={false} transparent opacity={opacity} side={THREE.DoubleSide} />
+  );
 
   return (
     <group
       ref={groupRef}
       position={[object.position.x, object.position.y, object.position.z]}
+      quaternion={orientation}
+      userData={{ exportIgnore: true, gizmo: true }}
+      renderOrder={999}
     >
-      {/* Move handles */}
-      {mode === 'move' && (
-        <>
-          {/* X axis */}
-          <mesh position={[1.5, 0, 0]}>
-            <cylinderGeometry args={[0.05, 0.05, 0.3]} />
-            <meshBasicMaterial color="#ff0000" />
-          </mesh>
-          <mesh position={[1.8, 0, 0]} rotation={[0, 0, -Math.PI / 2]}>
-            <coneGeometry args={[0.1, 0.2]} />
-            <meshBasicMaterial color="#ff0000" />
-          </mesh>
-
-          {/* Y axis */}
-          <mesh position={[0, 1.5, 0]}>
-            <cylinderGeometry args={[0.05, 0.05, 0.3]} />
-            <meshBasicMaterial color="#00ff00" />
-          </mesh>
-          <mesh position={[0, 1.8, 0]}>
-            <coneGeometry args={[0.1, 0.2]} />
-            <meshBasicMaterial color="#00ff00" />
-          </mesh>
-
-          {/* Z axis */}
-          <mesh position={[0, 0, 1.5]} rotation={[Math.PI / 2, 0, 0]}>
-            <cylinderGeometry args={[0.05, 0.05, 0.3]} />
-            <meshBasicMaterial color="#0000ff" />
-          </mesh>
-          <mesh position={[0, 0, 1.8]} rotation={[Math.PI / 2, 0, 0]}>
-            <coneGeometry args={[0.1, 0.2]} />
-            <meshBasicMaterial color="#0000ff" />
-          </mesh>
-        </>
-      )}
+      {AXES.map(axis => {
+        const axisHandle: Handle = { kind: 'axis', axis };
+        const planeHandle: Handle = { kind: 'plane', axis };
+        const axisId = `axis-${axis}`;
+        const planeId = `plane-${axis}`;
+        const tip = UNIT[axis].clone().multiplyScalar(1.1).toArray() as [number, number, number];
+        const shaft = UNIT[axis].clone().multiplyScalar(0.5).toArray() as [number, number, number];
+        const [a, b] = otherAxes(axis);
+        const corner = UNIT[a].clone().add(UNIT[b]).multiplyScalar(0.3).toArray() as [number, number, number];
 
-      {/* Rotation handles */}
-      {mode === 'rotate' && (
-        <>
-          <mesh>
-            <torusGeometry args={[1.2, 0.05, 8, 32]} />
-            <meshBasicMaterial color="#ffff00" transparent opacity={0.7} />
-          </mesh>
-        </>
-      )}
+        if (mode === 'rotate') {
+          return (
+            <mesh key={axis} rotation={AROUND[axis]} renderOrder={999} {...handleProps(axisHandle, axisId)}>
+              <torusGeometry args={[1, 0.04, 8, 48]} />
+              {material(colorOf(axisHandle, axisId))}
+            </mesh>
+          );
+        }
+
+        return (
+          <group key={axis}>
+            <group {...handleProps(axisHandle, axisId)}>
+              <mesh position={shaft} rotation={ALONG[axis]} renderOrder={999}>
+                <cylinderGeometry args={[0.03, 0.03, 1, 8]} />
+                {material(colorOf(axisHandle, axisId))}
+              </mesh>
+              <mesh position={tip} rotation={ALONG[axis]} renderOrder={999}>
+                {mode === 'move' ? <coneGeometry args={[0.08, 0.2, 12]} /> : <boxGeometry args={[0.14, 0.14, 0.14]} />}
+                {material(colorOf(axisHandle, axisId))}
+              </mesh>
+            </group>
+
+            {/* Square for dragging across the plane of the other two axes */}
+            {mode === 'move' && (
+              <mesh position={corner} rotation={AROUND[axis]} renderOrder={999} {...handleProps(planeHandle, planeId)}>
+                <planeGeometry args={[0.22, 0.22]} />
+                {material(colorOf(planeHandle, planeId), 0.5)}
+              </mesh>
+            )}
+          </group>
+        );
+      })}
 
-      {/* Scale handles */}
       {mode === 'scale' && (
-        <>
-          {/* Corner cubes for uniform scaling */}
-          {[
-            [1, 1, 1], [-1, 1, 1], [1, -1, 1], [-1, -1, 1],
-            [1, 1, -1], [-1, 1, -1], [1, -1, -1], [-1, -1, -1]
-          ].map((pos, i) => (
-            <mesh key={i} position={pos as [number, number, number]}>
-              <boxGeometry args={[0.2, 0.2, 0.2]} />
-              <meshBasicMaterial color="#ffffff" />
-            </mesh>
-          ))}
-        </>
+        <mesh renderOrder={999} {...handleProps({ kind: 'uniform', axis: 'x' }, 'uniform')}>
+          <boxGeometry args={[0.18, 0.18, 0.18]} />
+          {material(hovered === 'uniform' || activeHandle?.kind === 'uniform' ? ACTIVE_COLOR : '#ffffff')}
+        </mesh>
+      )}
+
+      {activeHandle && (
+        <Html position={[0, -0.4, 0]} center style={{ pointerEvents: 'none' }}>
+          <div className="whitespace-nowrap rounded bg-black/80 px-2 py-1 text-xs text-white">
+            {typed ? `${typed}${TYPED_UNITS[mode]}` : readout}
+          </div>
+        </Html>
       )}
     </group>
   );
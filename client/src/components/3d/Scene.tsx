@@ -1,18 +1,29 @@
-import { useRef, useState, useEffect } from "react";
+import { useRef, useEffect } from "react";
 import { useFrame, useThree } from "@react-three/fiber";
 import { OrbitControls, Grid, Environment } from "@react-three/drei";
 import * as THREE from "three";
 import { ModelViewer } from "./ModelViewer";
 import { ObjectManipulator } from "./ObjectManipulator";
+import { ViewportBridge } from "./ViewportBridge";
 import { useModeling } from "../../lib/stores/useModeling";
 import { useAudio } from "../../lib/stores/useAudio";
+import { useGizmoShortcuts } from "../../hooks/use-gizmo-shortcuts";
+import { useGroupShortcuts } from "../../hooks/use-group-shortcuts";
+import { useGizmo } from "../../lib/stores/useGizmo";
+import { useShownObjects } from "../../hooks/use-active-level";
 
 export function Scene() {
-  const { objects, selectedObject, selectObject, updateObject } = useModeling();
+  const { selectedObject, selectedIds, selectObject, updateObject } = useModeling();
+  const objects = useShownObjects();
   const { playHit } = useAudio();
   const controlsRef = useRef<any>();
   const { camera, raycaster, gl } = useThree();
-  const [dragMode, setDragMode] = useState<'move' | 'rotate' | 'scale' | null>(null);
+  const { mode: dragMode, space } = useGizmo();
+
+  // G / R / S pick the gizmo, L toggles world and local axes
+  useGizmoShortcuts();
+  // Ctrl+G groups the selection, Ctrl+Shift+G ungroups it
+  useGroupShortcuts();
   
   // Handle keyboard controls for object manipulation
   useEffect(() => {
@@ -20,14 +31,7 @@ export function Scene() {
       if (!selectedObject) return;
       
       switch (event.key.toLowerCase()) {
-        case 'r':
-          setDragMode(dragMode === 'rotate' ? null : 'rotate');
-          break;
-        case 's':
-          setDragMode(dragMode === 'scale' ? null : 'scale');
-          break;
         case 'escape':
-          setDragMode(null);
           selectObject(null);
           break;
         case 'delete':
@@ -39,7 +43,7 @@ export function Scene() {
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [selectedObject, dragMode, selectObject]);
+  }, [selectedObject, selectObject]);
 
   // Handle mouse/touch interactions - simplified for better performance
   const handlePointerDown = (event: any) => {
@@ -92,16 +96,17 @@ export function Scene() {
         <ModelViewer
           key={object.id}
           object={object}
-          isSelected={selectedObject?.id === object.id}
+          isSelected={selectedIds.includes(object.id)}
           onSelect={() => selectObject(object.id)}
         />
       ))}
 
-      {/* Object Manipulation Handles */}
-      {selectedObject && (
+      {/* Object Manipulation Handles; hidden objects get none */}
+      {selectedObject && objects.includes(selectedObject) && (
         <ObjectManipulator
           object={selectedObject}
           mode={dragMode}
+          space={space}
           onUpdate={updateObject}
         />
       )}
@@ -117,6 +122,7 @@ export function Scene() {
         maxPolarAngle={Math.PI / 2}
         target={[0, 0, 0]}
       />
+      <ViewportBridge />
       
       {/* Canvas pointer events handled by individual objects */}
     </>
@@ -0,0 +1,126 @@
+import { useEffect, useRef } from "react";
+import { useThree } from "@react-three/fiber";
+import * as THREE from "three";
+import { useModeling } from "../../lib/stores/useModeling";
+import { useDrawing } from "../../lib/stores/useDrawing";
+import { useShownObjects } from "../../hooks/use-active-level";
+import { expandToGroups, listGroups } from "../../lib/groups";
+
+// Pointer travel (px) below which a Shift-press is a Shift-click
+const DRAG_THRESHOLD = 4;
+
+// Shift-drag draws a box over the 3D view; objects whose centres fall inside
+// it (with the rest of their groups) are added to the selection. Floors and
+// ceilings are left out so a box over a room picks what is in it.
+export function SelectionBox() {
+  const camera = useThree(state => state.camera);
+  const gl = useThree(state => state.gl);
+  const scene = useThree(state => state.scene);
+  const controls = useThree(state => state.controls) as (THREE.EventDispatcher & { enabled: boolean }) | null;
+  const tool = useDrawing(state => state.tool);
+  const objects = useShownObjects();
+  const objectsRef = useRef(objects);
+  objectsRef.current = objects;
+
+  useEffect(() => {
+    if (tool !== 'select') return;
+
+    const canvas = gl.domElement;
+    const box = document.createElement('div');
+    Object.assign(box.style, {
+      position: 'absolute',
+      display: 'none',
+      border: '1px dashed #10b981',
+      background: 'rgba(16, 185, 129, 0.1)',
+      pointerEvents: 'none'
+    });
+    canvas.parentElement?.appendChild(box);
+
+    let start: { x: number; y: number } | null = null;
+    const toCanvas = (event: PointerEvent) => {
+      const rect = canvas.getBoundingClientRect();
+      return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+    };
+    const bounds = (a: { x: number; y: number }, b: { x: number; y: number }) => ({
+      left: Math.min(a.x, b.x),
+      top: Math.min(a.y, b.y),
+      right: Math.max(a.x, b.x),
+      bottom: Math.max(a.y, b.y)
+    });
+
+    // Shift-dragging a gizmo handle moves without snapping instead
+    const onGizmo = (point: { x: number; y: number }) => {
+      const { width, height } = canvas.getBoundingClientRect();
+      const raycaster = new THREE.Raycaster();
+      raycaster.setFromCamera(new THREE.Vector2(point.x / width * 2 - 1, 1 - point.y / height * 2), camera);
+      return raycaster.intersectObjects(scene.children, true).some(hit => {
+        for (let node: THREE.Object3D | null = hit.object; node; node = node.parent) {
+          if (node.userData?.gizmo) return true;
+        }
+        return false;
+      });
+    };
+
+    // Capture phase, so the orbit controls are off before they see the press
+    const handlePointerDown = (event: PointerEvent) => {
+      if (!event.shiftKey || event.button !== 0) return;
+      const point = toCanvas(event);
+      if (onGizmo(point)) return;
+      start = point;
+      if (controls) controls.enabled = false;
+    };
+
+    const handlePointerMove = (event: PointerEvent) => {
+      if (!start) return;
+      const { left, top, right, bottom } = bounds(start, toCanvas(event));
+      Object.assign(box.style, {
+        display: 'block',
+        left: `${left}px`,
+        top: `${top}px`,
+        width: `${right - left}px`,
+        height: `${bottom - top}px`
+      });
+    };
+
+    const handlePointerUp = (event: PointerEvent) => {
+      if (!start) return;
+      const end = toCanvas(event);
+      const { left, top, right, bottom } = bounds(start, end);
+      const dragged = Math.hypot(end.x - start.x, end.y - start.y) >= DRAG_THRESHOLD;
+      start = null;
+      box.style.display = 'none';
+      if (controls) controls.enabled = true;
+      // A Shift-click is left to the object under the pointer
+      if (!dragged) return;
+
+      const { width, height } = canvas.getBoundingClientRect();
+      const inside = objectsRef.current
+        .filter(obj => obj.type !== 'floor' && obj.type !== 'ceiling')
+        .filter(obj => {
+          const projected = new THREE.Vector3(obj.position.x, obj.position.y, obj.position.z).project(camera);
+          // Behind the camera
+          if (projected.z > 1) return false;
+          const x = (projected.x + 1) / 2 * width;
+          const y = (1 - projected.y) / 2 * height;
+          return x >= left && x <= right && y >= top && y <= bottom;
+        })
+        .map(obj => obj.id);
+
+      const { objects: all, floorPlan, selectObjects } = useModeling.getState();
+      selectObjects(expandToGroups(inside, all, listGroups(floorPlan)), 'add');
+    };
+
+    canvas.addEventListener('pointerdown', handlePointerDown, true);
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
+    return () => {
+      canvas.removeEventListener('pointerdown', handlePointerDown, true);
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+      box.remove();
+      if (start && controls) controls.enabled = true;
+    };
+  }, [tool, camera, gl, scene, controls]);
+
+  return null;
+}
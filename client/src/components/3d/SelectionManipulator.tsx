@@ -0,0 +1,103 @@
+import { useRef } from "react";
+import * as THREE from "three";
+import { ModelingObject, Vector3 } from "../../types/modeling";
+import { useModeling } from "../../lib/stores/useModeling";
+import type { GizmoMode, GizmoSpace } from "../../lib/stores/useGizmo";
+import { selectionBounds, type GroupChange } from "../../lib/groups";
+import { ObjectManipulator } from "./ObjectManipulator";
+
+// Smallest side of the stand-in box, so flat selections still scale
+const MIN_SIZE = 0.01;
+
+// Stand-in for the selection as a whole, and the objects it was last seen with
+interface SelectionFrame {
+  members: ModelingObject[];
+  position: Vector3;
+  rotation: Vector3;
+  scale: Vector3;
+}
+
+const toQuaternion = (rotation: Vector3) =>
+  new THREE.Quaternion().setFromEuler(new THREE.Euler(rotation.x, rotation.y, rotation.z));
+
+const sameMembers = (a: ModelingObject[], b: ModelingObject[]) =>
+  a.length === b.length && a.every((obj, index) => obj === b[index]);
+
+// The transform gizmo for several objects at once. It drives a box around
+// them, and every change to the box is applied to the objects about its
+// centre, so the selection moves, turns and scales as one.
+export function SelectionManipulator({ objects, mode, space }: {
+  objects: ModelingObject[];
+  mode: GizmoMode | null;
+  space: GizmoSpace;
+}) {
+  const transformObjects = useModeling(state => state.transformObjects);
+  const frameRef = useRef<SelectionFrame | null>(null);
+
+  // The box starts square to the world again whenever the objects change
+  // other than through the gizmo
+  if (!frameRef.current || !sameMembers(frameRef.current.members, objects)) {
+    const { center, size } = selectionBounds(objects);
+    frameRef.current = {
+      members: objects,
+      position: center,
+      rotation: { x: 0, y: 0, z: 0 },
+      scale: { x: Math.max(size.x, MIN_SIZE), y: Math.max(size.y, MIN_SIZE), z: Math.max(size.z, MIN_SIZE) }
+    };
+  }
+  const frame = frameRef.current;
+
+  const handleUpdate = (_id: string, updates: Partial<ModelingObject>) => {
+    const change: GroupChange = {};
+    if (updates.position) {
+      change.offset = {
+        x: updates.position.x - frame.position.x,
+        y: updates.position.y - frame.position.y,
+        z: updates.position.z - frame.position.z
+      };
+    }
+    if (updates.rotation) {
+      change.turn = toQuaternion(updates.rotation).multiply(toQuaternion(frame.rotation).invert());
+    }
+    if (updates.scale) {
+      change.factor = {
+        x: updates.scale.x / frame.scale.x,
+        y: updates.scale.y / frame.scale.y,
+        z: updates.scale.z / frame.scale.z
+      };
+      change.frame = toQuaternion(frame.rotation);
+    }
+
+    const ids = frame.members.map(obj => obj.id);
+    transformObjects(ids, frame.position, change);
+
+    const { objects: current } = useModeling.getState();
+    frameRef.current = {
+      members: frame.members.map(member => current.find(obj => obj.id === member.id) || member),
+      position: updates.position || frame.position,
+      rotation: updates.rotation || frame.rotation,
+      scale: updates.scale || frame.scale
+    };
+  };
+
+  // A plain box, so it snaps to walls and furniture by its outline
+  const standIn: ModelingObject = {
+    id: 'selection',
+    type: 'cube',
+    color: '#ffffff',
+    level: objects[0]?.level,
+    position: frame.position,
+    rotation: frame.rotation,
+    scale: frame.scale
+  };
+
+  return (
+    <ObjectManipulator
+      object={standIn}
+      mode={mode}
+      space={space}
+      onUpdate={handleUpdate}
+      ignore={frame.members.map(obj => obj.id)}
+    />
+  );
+}
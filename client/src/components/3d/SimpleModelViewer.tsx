@@ -1,9 +1,22 @@
-import { useRef, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { Text, useGLTF } from "@react-three/drei";
+import type { ThreeEvent } from "@react-three/fiber";
 import * as THREE from "three";
 import { ModelingObject } from "../../types/modeling";
 import { useModeling } from "../../lib/stores/useModeling";
 import { useAudio } from "../../lib/stores/useAudio";
+import { useDrawing } from "../../lib/stores/useDrawing";
+import { createOutlineGeometry, hasOutline } from "../../lib/outlineGeometry";
+import { hostedOpenings } from "../../lib/openings";
+import { createWallGeometry } from "../../lib/wallGeometry";
+import { createStairsGeometry } from "../../lib/stairsGeometry";
+import { stairSteps } from "../../lib/levels";
+import { getWallJoins, isJoined } from "../../lib/wallJoins";
+import { displayColor } from "../../lib/layers";
+import { LibraryMaterial } from "./LibraryMaterial";
+
+// Pointer travel (px) up to which a press and release still count as a click
+const CLICK_TOLERANCE = 4;
 
 interface SimpleModelViewerProps {
   object: ModelingObject;
@@ -12,15 +25,38 @@ interface SimpleModelViewerProps {
 export function SimpleModelViewer({ object }: SimpleModelViewerProps) {
   const meshRef = useRef<THREE.Mesh>(null);
   const [hovered, setHovered] = useState(false);
-  const { selectedObject, selectObject } = useModeling();
+  const { selectedIds, selectObject, objects, floorPlan } = useModeling();
   const { playHit } = useAudio();
 
-  const isSelected = selectedObject?.id === object.id;
+  const isSelected = selectedIds.includes(object.id);
+
+  // Doors and windows set into this wall cut holes in it
+  const openings = object.type === "wall" ? hostedOpenings(objects, object.id) : [];
+  const openingsKey = openings.map(o => `${o.hostOffset}:${o.sillHeight}:${o.scale.x}:${o.scale.y}`).join("|");
+  // Corners and T-junctions with other walls reshape the ends
+  const ends = object.type === "wall" ? getWallJoins(objects).get(object.id) : undefined;
+  const endsKey = ends ? [ends.start.pos, ends.start.neg, ends.end.pos, ends.end.neg].join(",") : "";
+
+  // Floors and ceilings are triangulated from their outline; stairs are
+  // stepped to their rise
+  const customGeometry = useMemo(() => {
+    if (hasOutline(object)) return createOutlineGeometry(object.outline);
+    if (object.type === "stairs") return createStairsGeometry(stairSteps(object.scale.y));
+    if (openings.length > 0 || isJoined(ends)) return createWallGeometry(object, openings, ends);
+    return null;
+  }, [object.type, object.outline, object.scale.x, object.scale.y, openingsKey, endsKey]);
+  useEffect(() => () => customGeometry?.dispose(), [customGeometry]);
 
   // Unified safe click handler
-  const handleClick = (e?: React.MouseEvent) => {
+  const handleClick = (e?: ThreeEvent<MouseEvent>) => {
+    // Let clicks through to the wall and measure tools' drawing surfaces
+    const { tool } = useDrawing.getState();
+    if (tool === 'wall' || tool === 'measure') return;
     e?.stopPropagation(); // safe even if e is undefined
-    selectObject(object.id);
+    // An orbit or selection box that ends over the object doesn't pick it
+    if (e && e.delta > CLICK_TOLERANCE) return;
+    // Shift-click adds the object (and its group) or takes it away
+    selectObject(object.id, e?.shiftKey ? 'toggle' : 'replace');
     playHit();
   };
 
@@ -38,10 +74,17 @@ export function SimpleModelViewer({ object }: SimpleModelViewerProps) {
 
   // Create geometry
   const createGeometry = () => {
+    if (customGeometry) {
+      return <primitive object={customGeometry} attach="geometry" />;
+    }
+
     switch (object.type) {
       case "cube":
       case "wall":
       case "furniture":
+      // Openings are sized like walls: X along the host wall, Z through it
+      case "door":
+      case "window":
         return <boxGeometry args={[1, 1, 1]} />;
       case "sphere":
         return <sphereGeometry args={[0.5, 32, 32]} />;
@@ -52,29 +95,30 @@ export function SimpleModelViewer({ object }: SimpleModelViewerProps) {
       case "torus":
         return <torusGeometry args={[0.5, 0.2, 16, 32]} />;
       case "plane":
-      case "floor":
-      case "ceiling":
         return <planeGeometry args={[1, 1]} />;
-      case "door":
-        return <boxGeometry args={[0.1, 1, 0.8]} />;
-      case "window":
-        return <boxGeometry args={[0.1, 0.6, 0.8]} />;
       default:
         return <boxGeometry args={[1, 1, 1]} />;
     }
   };
 
-  // Create material
+  // Create material; a layer colour stands in for the object's own
   const createMaterial = () => {
-    const baseColor = new THREE.Color(object.color);
+    const baseColor = new THREE.Color(displayColor(object, floorPlan));
     if (isSelected) baseColor.multiplyScalar(1.3);
     else if (hovered) baseColor.multiplyScalar(1.1);
 
+    // Floors, walls and doors keep their flat shading until they're given a
+    // library material; ceilings and windows always do
+    if (object.material && object.type !== "ceiling" && object.type !== "window") {
+      return <LibraryMaterial object={object} color={baseColor} />;
+    }
+
     switch (object.type) {
       case "floor":
         return (
           <meshLambertMaterial
             color={baseColor}
+            wireframe={object.wireframe}
             transparent={object.opacity !== undefined}
             opacity={object.opacity || 1}
           />
@@ -83,38 +127,35 @@ export function SimpleModelViewer({ object }: SimpleModelViewerProps) {
         return (
           <meshLambertMaterial
             color={baseColor}
+            wireframe={object.wireframe}
             transparent={object.opacity !== undefined}
             opacity={object.opacity || 0.9}
           />
         );
+      // Seen from below only, so rooms stay visible from above
       case "ceiling":
         return (
           <meshBasicMaterial
             color={baseColor}
+            wireframe={object.wireframe}
             transparent={object.opacity !== undefined}
             opacity={object.opacity || 0.8}
+            side={THREE.BackSide}
           />
         );
       case "window":
-        return <meshPhongMaterial color={baseColor} transparent opacity={0.3} />;
+        return <meshPhongMaterial color={baseColor} wireframe={object.wireframe} transparent opacity={0.3} />;
       case "door":
         return (
           <meshLambertMaterial
             color={baseColor}
+            wireframe={object.wireframe}
             transparent={object.opacity !== undefined}
             opacity={object.opacity || 1}
           />
         );
       default:
-        return (
-          <meshStandardMaterial
-            color={baseColor}
-            roughness={0.7}
-            metalness={0.1}
-            transparent={object.opacity !== undefined}
-            opacity={object.opacity || 1}
-          />
-        );
+        return <LibraryMaterial object={object} color={baseColor} />;
     }
   };
 
@@ -132,15 +173,13 @@ export function SimpleModelViewer({ object }: SimpleModelViewerProps) {
   }
 
   const isFloor = object.type === "floor";
-  const floorRotation = isFloor
-    ? [-Math.PI / 2, 0, 0]
-    : [object.rotation.x, object.rotation.y, object.rotation.z];
 
   return (
     <group
       position={[object.position.x, object.position.y, object.position.z]}
-      rotation={floorRotation}
+      rotation={[object.rotation.x, object.rotation.y, object.rotation.z]}
       scale={[object.scale.x, object.scale.y, object.scale.z]}
+      userData={{ objectId: object.id }}
     >
       <mesh
         ref={meshRef}
@@ -156,7 +195,7 @@ export function SimpleModelViewer({ object }: SimpleModelViewerProps) {
 
       {/* Selection outline */}
       {isSelected && (
-        <mesh>
+        <mesh userData={{ exportIgnore: true }}>
           {createGeometry()}
           <meshBasicMaterial color="#00ff00" transparent opacity={0.2} side={THREE.BackSide} />
         </mesh>
@@ -165,6 +204,7 @@ export function SimpleModelViewer({ object }: SimpleModelViewerProps) {
       {/* Object label */}
       {(isSelected || hovered) && (
         <Text
+          userData={{ exportIgnore: true }}
           position={[0, isFloor ? 0.2 : 1.2, 0]}
           fontSize={isFloor ? 0.2 : 0.3}
           color={isFloor ? "#333333" : "#ffffff"}
@@ -188,7 +228,7 @@ function ImportedGLBModel({
 }: {
   object: ModelingObject;
   isSelected: boolean;
-  onSelect: () => void;
+  onSelect: (e?: ThreeEvent<MouseEvent>) => void;
   hovered: boolean;
   setHovered: (hovered: boolean) => void;
 }) {
@@ -202,6 +242,11 @@ function ImportedGLBModel({
         child.castShadow = true;
         child.receiveShadow = true;
         if (child.material) child.material.needsUpdate = true;
+        // Copies, so the wireframe doesn't reach other instances of the model
+        if (object.wireframe && child.material) {
+          const wire = (material: THREE.Material) => Object.assign(material.clone(), { wireframe: true });
+          child.material = Array.isArray(child.material) ? child.material.map(wire) : wire(child.material);
+        }
       }
     });
 
@@ -210,12 +255,13 @@ function ImportedGLBModel({
         position={[object.position.x, object.position.y, object.position.z]}
         rotation={[object.rotation.x, object.rotation.y, object.rotation.z]}
         scale={[object.scale.x, object.scale.y, object.scale.z]}
+        userData={{ objectId: object.id }}
       >
         <primitive
           object={clonedScene}
           onClick={(e) => {
             e.stopPropagation();
-            onSelect();
+            onSelect(e);
           }}
           onPointerOver={(e) => {
             e.stopPropagation();
@@ -230,14 +276,14 @@ function ImportedGLBModel({
         />
 
         {isSelected && (
-          <mesh>
+          <mesh userData={{ exportIgnore: true }}>
             <boxGeometry args={[3, 3, 3]} />
             <meshBasicMaterial color="#00ff00" transparent opacity={0.15} wireframe />
           </mesh>
         )}
 
         {(isSelected || hovered) && (
-          <Text position={[0, 2.5, 0]} fontSize={0.3} color="#ffffff" anchorX="center" anchorY="middle">
+          <Text userData={{ exportIgnore: true }} position={[0, 2.5, 0]} fontSize={0.3} color="#ffffff" anchorX="center" anchorY="middle">
             {object.name || `Model ${object.id.slice(-4)}`}
           </Text>
         )}
@@ -266,7 +312,7 @@ function FallbackModel({
 }: {
   object: ModelingObject;
   isSelected: boolean;
-  onSelect: () => void;
+  onSelect: (e?: ThreeEvent<MouseEvent>) => void;
   hovered: boolean;
   setHovered: (hovered: boolean) => void;
 }) {
@@ -275,13 +321,14 @@ function FallbackModel({
       position={[object.position.x, object.position.y, object.position.z]}
       rotation={[object.rotation.x, object.rotation.y, object.rotation.z]}
       scale={[object.scale.x, object.scale.y, object.scale.z]}
+      userData={{ objectId: object.id }}
     >
       <mesh
         castShadow
         receiveShadow
         onClick={(e) => {
           e.stopPropagation();
-          onSelect();
+          onSelect(e);
         }}
         onPointerOver={(e) => {
           e.stopPropagation();
@@ -298,7 +345,7 @@ function FallbackModel({
         <meshStandardMaterial color="#ff6b6b" />
       </mesh>
 
-      <Text position={[0, 1.5, 0]} fontSize={0.2} color="#ffffff" anchorX="center" anchorY="middle">
+      <Text userData={{ exportIgnore: true }} position={[0, 1.5, 0]} fontSize={0.2} color="#ffffff" anchorX="center" anchorY="middle">
         Model Load Failed
       </Text>
     </group>
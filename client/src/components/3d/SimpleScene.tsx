@@ -1,10 +1,32 @@
 import { OrbitControls, Grid, Environment } from "@react-three/drei";
-import { useModeling } from "../../lib/stores/useModeling";
 import { useAudio } from "../../lib/stores/useAudio";
 import { SimpleModelViewer } from "./SimpleModelViewer";
+import { WallDrawingTool } from "./WallDrawingTool";
+import { MeasureTool } from "./MeasureTool";
+import { DimensionLines } from "./DimensionLines";
+import { ObjectManipulator } from "./ObjectManipulator";
+import { SelectionManipulator } from "./SelectionManipulator";
+import { SelectionBox } from "./SelectionBox";
+import { CameraSync } from "./CameraSync";
+import { ViewportBridge } from "./ViewportBridge";
+import { useGizmoShortcuts } from "../../hooks/use-gizmo-shortcuts";
+import { useGroupShortcuts } from "../../hooks/use-group-shortcuts";
+import { useShownObjects } from "../../hooks/use-active-level";
+import { useModeling } from "../../lib/stores/useModeling";
+import { useGizmo } from "../../lib/stores/useGizmo";
+import { isLocked } from "../../lib/visibility";
 
 export function SimpleScene() {
-  const { objects } = useModeling();
+  const objects = useShownObjects();
+  const { selectedIds, updateObject, floorPlan } = useModeling();
+  const { mode, space } = useGizmo();
+  // Locked objects stay put while the rest of the selection moves
+  const selected = objects.filter(obj => selectedIds.includes(obj.id) && !isLocked(obj, floorPlan));
+
+  // G / R / S pick the gizmo, L toggles world and local axes
+  useGizmoShortcuts();
+  // Ctrl+G groups the selection, Ctrl+Shift+G ungroups it
+  useGroupShortcuts();
 
   return (
     <>
@@ -54,6 +76,18 @@ export function SimpleScene() {
         />
       ))}
 
+      {/* Transform gizmo on the selected objects that are shown and unlocked */}
+      {selected.length > 1 ? (
+        <SelectionManipulator objects={selected} mode={mode} space={space} />
+      ) : selected.length === 1 && (
+        <ObjectManipulator object={selected[0]} mode={mode} space={space} onUpdate={updateObject} />
+      )}
+      <SelectionBox />
+
+      <DimensionLines />
+      <WallDrawingTool />
+      <MeasureTool />
+
       {/* Camera Controls */}
       <OrbitControls
         makeDefault
@@ -64,6 +98,8 @@ export function SimpleScene() {
         maxPolarAngle={Math.PI / 2}
         target={[0, 0, 0]}
       />
+      <CameraSync />
+      <ViewportBridge />
     </>
   );
 }
\ No newline at end of file
@@ -0,0 +1,15 @@
+import { useEffect } from "react";
+import { useThree } from "@react-three/fiber";
+import { registerViewportScene } from "../../lib/viewport";
+
+// Exposes the mounted three.js scene to exporters outside the Canvas
+export function ViewportBridge() {
+  const scene = useThree(state => state.scene);
+
+  useEffect(() => {
+    registerViewportScene(scene);
+    return () => registerViewportScene(null);
+  }, [scene]);
+
+  return null;
+}
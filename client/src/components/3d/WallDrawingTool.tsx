@@ -0,0 +1,144 @@
+import { useEffect, useState } from "react";
+import { Line } from "@react-three/drei";
+import type { ThreeEvent } from "@react-three/fiber";
+import { useModeling } from "../../lib/stores/useModeling";
+import { useDrawing } from "../../lib/stores/useDrawing";
+import { useSnapping } from "../../lib/stores/useSnapping";
+import { useActiveLevel } from "../../hooks/use-active-level";
+import { isOnLevel } from "../../lib/levels";
+import { snapPoint, pointSnapOptions, type PlanPosition, type SnapResult } from "../../lib/snapping";
+
+// Snap radius on the ground, meters
+const SNAP_RADIUS = 0.3;
+// Pointer travel (px) above which a click is treated as an orbit drag
+const DRAG_THRESHOLD = 4;
+
+// Click a chain of points on the active level's floor to build walls; the
+// same tool as the 2D plan's wall tool, sharing its thickness and height.
+export function WallDrawingTool() {
+  const { tool, setTool, wallThickness, wallHeight } = useDrawing();
+  const { objects, currentRoom, createWall } = useModeling();
+  const { levels, level } = useActiveLevel();
+  const snapSettings = useSnapping();
+  const [points, setPoints] = useState<PlanPosition[]>([]);
+  const [cursor, setCursor] = useState<SnapResult | null>(null);
+
+  const active = tool === 'wall';
+
+  useEffect(() => {
+    if (!active) {
+      setPoints([]);
+      setCursor(null);
+    }
+  }, [active]);
+
+  // Enter ends the chain; Escape ends it or, with no chain, leaves the tool
+  useEffect(() => {
+    if (!active) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target && ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+
+      if (event.key === 'Enter') {
+        setPoints([]);
+      } else if (event.key === 'Escape') {
+        if (points.length === 0) setTool('select');
+        setPoints([]);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [active, points.length, setTool]);
+
+  if (!active) return null;
+
+  const snap = (e: ThreeEvent<MouseEvent>): SnapResult => {
+    const point = { x: e.point.x, z: e.point.z };
+    if (e.shiftKey) return { point, kind: 'none' };
+
+    return snapPoint(point, {
+      radius: SNAP_RADIUS,
+      ...pointSnapOptions(snapSettings),
+      origin: points[points.length - 1] || null,
+      walls: objects.filter(obj => obj.type === 'wall' && isOnLevel(obj, level.id, levels)),
+      points: points.slice(0, 1)
+    });
+  };
+
+  const handleClick = (e: ThreeEvent<MouseEvent>) => {
+    if (e.delta > DRAG_THRESHOLD) return;
+    e.stopPropagation();
+
+    const point = snap(e).point;
+    const last = points[points.length - 1];
+    if (!last) {
+      setPoints([point]);
+      return;
+    }
+
+    // The second click of a double-click lands on the same spot
+    if (Math.hypot(point.x - last.x, point.z - last.z) < 1e-3) return;
+
+    createWall(last, point, { thickness: wallThickness, height: wallHeight, room: currentRoom?.id });
+
+    const first = points[0];
+    const closesLoop = points.length > 1 && Math.hypot(point.x - first.x, point.z - first.z) < 1e-3;
+    setPoints(closesLoop ? [] : [...points, point]);
+  };
+
+  const last = points[points.length - 1];
+  const preview = cursor ? [...points, cursor.point] : points;
+
+  return (
+    <group position={[0, level.elevation, 0]} userData={{ exportIgnore: true }}>
+      {/* Invisible drawing surface on the ground */}
+      <mesh
+        rotation={[-Math.PI / 2, 0, 0]}
+        position={[0, 0.001, 0]}
+        onPointerMove={(e) => setCursor(snap(e))}
+        onPointerOut={() => setCursor(null)}
+        onClick={handleClick}
+        onDoubleClick={(e) => {
+          e.stopPropagation();
+          setPoints([]);
+        }}
+      >
+        <planeGeometry args={[200, 200]} />
+        <meshBasicMaterial visible={false} />
+      </mesh>
+
+      {preview.length > 1 && (
+        <Line
+          points={preview.map(p => [p.x, 0.02, p.z] as [number, number, number])}
+          color="#f472b6"
+          lineWidth={2}
+          dashed
+          dashSize={0.2}
+          gapSize={0.1}
+        />
+      )}
+
+      {/* Ghost of the wall being drawn */}
+      {last && cursor && Math.hypot(cursor.point.x - last.x, cursor.point.z - last.z) > 1e-3 && (
+        <mesh
+          position={[(last.x + cursor.point.x) / 2, wallHeight / 2, (last.z + cursor.point.z) / 2]}
+          rotation={[0, Math.atan2(-(cursor.point.z - last.z), cursor.point.x - last.x), 0]}
+          scale={[Math.hypot(cursor.point.x - last.x, cursor.point.z - last.z), wallHeight, wallThickness]}
+          raycast={() => null}
+        >
+          <boxGeometry args={[1, 1, 1]} />
+          <meshBasicMaterial color="#f472b6" transparent opacity={0.25} depthWrite={false} />
+        </mesh>
+      )}
+
+      {cursor && (
+        <mesh position={[cursor.point.x, 0.03, cursor.point.z]} rotation={[-Math.PI / 2, 0, 0]} raycast={() => null}>
+          <ringGeometry args={[0.08, 0.12, 24]} />
+          <meshBasicMaterial color={cursor.kind === 'endpoint' ? '#10b981' : cursor.kind === 'wall' ? '#22d3ee' : '#ffffff'} />
+        </mesh>
+      )}
+    </group>
+  );
+}
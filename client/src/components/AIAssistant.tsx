@@ -37,7 +37,9 @@ export function AIAssistant({ isOpen, onClose }: AIAssistantProps) {
     currentRoom,
     createRoom,
     addFurniture,
-    setViewMode
+    setViewMode,
+    undo,
+    redo
   } = useModeling();
   const { playSuccess } = useAudio();
 
@@ -133,6 +135,14 @@ export function AIAssistant({ isOpen, onClose }: AIAssistantProps) {
                   playSuccess();
                 }
                 break;
+
+              case 'undo':
+                undo();
+                break;
+
+              case 'redo':
+                redo();
+                break;
             }
           }
         } catch (error) {
@@ -0,0 +1,146 @@
+import { useState } from "react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Ruler } from "lucide-react";
+import {
+  pixelsPerMeterFromMeasurement,
+  LENGTH_UNITS,
+  type ImagePoint,
+  type LengthUnit
+} from "../lib/blueprintScale";
+
+interface BlueprintCalibratorProps {
+  imageUrl: string;
+  imageSize: { width: number; height: number };
+  onApply: (pixelsPerMeter: number) => void;
+  onCancel: () => void;
+}
+
+// Click both ends of something with a known length (a wall, a dimension
+// line), type the real distance and the blueprint's scale follows.
+export function BlueprintCalibrator({ imageUrl, imageSize, onApply, onCancel }: BlueprintCalibratorProps) {
+  const [points, setPoints] = useState<ImagePoint[]>([]);
+  const [distance, setDistance] = useState('');
+  const [unit, setUnit] = useState<LengthUnit>('m');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleImageClick = (e: React.MouseEvent<HTMLImageElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    // Points are kept in the image's natural pixels
+    const point = {
+      x: (e.clientX - rect.left) * imageSize.width / rect.width,
+      y: (e.clientY - rect.top) * imageSize.height / rect.height
+    };
+
+    setError(null);
+    setPoints(prev => prev.length >= 2 ? [point] : [...prev, point]);
+  };
+
+  const pixelLength = points.length === 2
+    ? Math.hypot(points[1].x - points[0].x, points[1].y - points[0].y)
+    : null;
+
+  const applyCalibration = () => {
+    if (points.length !== 2) return;
+
+    try {
+      onApply(pixelsPerMeterFromMeasurement(points[0], points[1], Number(distance), unit));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid measurement');
+    }
+  };
+
+  // Marker size relative to the image so it reads the same at any resolution
+  const marker = Math.max(imageSize.width, imageSize.height) / 150;
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-400">
+        {points.length === 0 && 'Click the first end of a known dimension.'}
+        {points.length === 1 && 'Click the second end.'}
+        {points.length === 2 && 'Enter the real distance between the two points. Click again to start over.'}
+      </p>
+
+      <div className="relative bg-gray-800 rounded-lg overflow-hidden">
+        <img
+          src={imageUrl}
+          alt="Blueprint to calibrate"
+          className="w-full h-auto cursor-crosshair select-none"
+          draggable={false}
+          onClick={handleImageClick}
+        />
+        <svg
+          viewBox={`0 0 ${imageSize.width} ${imageSize.height}`}
+          className="absolute inset-0 w-full h-full pointer-events-none"
+        >
+          {points.length === 2 && (
+            <line
+              x1={points[0].x}
+              y1={points[0].y}
+              x2={points[1].x}
+              y2={points[1].y}
+              stroke="#F59E0B"
+              strokeWidth={marker / 2}
+            />
+          )}
+          {points.map((point, index) => (
+            <circle key={index} cx={point.x} cy={point.y} r={marker} fill="#F59E0B" />
+          ))}
+        </svg>
+      </div>
+
+      <div className="flex items-end gap-2">
+        <div className="flex-1">
+          <Label className="text-white text-sm">Real distance</Label>
+          <Input
+            type="number"
+            min="0"
+            step="any"
+            value={distance}
+            onChange={(e) => setDistance(e.target.value)}
+            placeholder="e.g. 4.2"
+            disabled={points.length !== 2}
+            className="mt-1 bg-gray-800 border-gray-600 text-white placeholder-gray-400"
+          />
+        </div>
+        <Select value={unit} onValueChange={(value) => setUnit(value as LengthUnit)}>
+          <SelectTrigger className="w-20 bg-gray-800 border-gray-600 text-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-gray-800 border-gray-600">
+            {(Object.keys(LENGTH_UNITS) as LengthUnit[]).map((key) => (
+              <SelectItem key={key} value={key}>
+                {LENGTH_UNITS[key].label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {pixelLength !== null && (
+        <p className="text-xs text-gray-400">Measured line: {pixelLength.toFixed(1)} px</p>
+      )}
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      <div className="flex justify-end gap-2">
+        <Button
+          variant="outline"
+          onClick={onCancel}
+          className="border-gray-600 text-gray-300 hover:bg-gray-700"
+        >
+          Cancel
+        </Button>
+        <Button
+          onClick={applyCalibration}
+          disabled={points.length !== 2 || !distance}
+          className="bg-blue-600 hover:bg-blue-700"
+        >
+          <Ruler size={16} className="mr-1" />
+          Set Scale
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -3,9 +3,14 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "./ui/dialog";
 import { Button } from "./ui/button";
 import { Card } from "./ui/card";
 import { Progress } from "./ui/progress";
-import { Upload, X, Image, Building, Download } from "lucide-react";
+import { Alert, AlertDescription } from "./ui/alert";
+import { Upload, X, Image, Building, Download, AlertCircle, Ruler } from "lucide-react";
 import { useModeling } from "../lib/stores/useModeling";
 import { useAudio } from "../lib/stores/useAudio";
+import { buildBlueprintLayout, type BlueprintAnalysis } from "../lib/blueprintAnalysis";
+import { detectBlueprint, loadBlueprintImage } from "../lib/blueprintDetection";
+import { analysisPixelsPerMeter } from "../lib/blueprintScale";
+import { BlueprintCalibrator } from "./BlueprintCalibrator";
 
 interface BlueprintImporterProps {
   isOpen: boolean;
@@ -16,11 +21,13 @@ export function BlueprintImporter({ isOpen, onClose }: BlueprintImporterProps) {
   const [dragActive, setDragActive] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
   const [importedImage, setImportedImage] = useState<string | null>(null);
-  const [scale, setScale] = useState(1);
-  const [roomDimensions, setRoomDimensions] = useState({ width: 12, length: 12 });
+  const [calibrating, setCalibrating] = useState(false);
+  const [widthDraft, setWidthDraft] = useState<string | null>(null);
+  const [analysis, setAnalysis] = useState<BlueprintAnalysis | null>(null);
+  const [analysisError, setAnalysisError] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   
-  const { importBlueprint, createRoom, addFurniture, createObject, clearScene } = useModeling();
+  const { floorPlan, importBlueprint, calibrateBlueprint, createRoom, applyBlueprintLayout } = useModeling();
   const { playSuccess, playHit } = useAudio();
 
   const handleFileSelect = (files: FileList | null) => {
@@ -28,8 +35,11 @@ export function BlueprintImporter({ isOpen, onClose }: BlueprintImporterProps) {
     
     const file = files[0];
     
-    // Check if file is an image
+    // Only raster images can be analysed
     if (!file.type.startsWith('image/')) {
+      setAnalysisError(file.type === 'application/pdf'
+        ? 'PDF is not supported. Export the page as a JPG or PNG and import that.'
+        : 'Choose an image file (JPG or PNG).');
       playHit();
       return;
     }
@@ -38,374 +48,54 @@ export function BlueprintImporter({ isOpen, onClose }: BlueprintImporterProps) {
   };
 
   const processImage = async (file: File) => {
+    setAnalysis(null);
+    setAnalysisError(null);
+
     try {
-      // Simulate upload progress
-      for (let i = 0; i <= 100; i += 20) {
-        setUploadProgress(i);
-        await new Promise(resolve => setTimeout(resolve, 100));
-      }
+      setUploadProgress(20);
 
-      const imageUrl = URL.createObjectURL(file);
-      setImportedImage(imageUrl);
-      
       // Import the blueprint
-      await importBlueprint(file);
-      
-      playSuccess();
+      const floorPlan = await importBlueprint(file);
+      setImportedImage(floorPlan.imageUrl || null);
+      setUploadProgress(40);
+
+      const { image } = await loadBlueprintImage(floorPlan.imageUrl!);
+      setUploadProgress(60);
+
+      const result = await detectBlueprint(image);
+      setAnalysis(result);
       setUploadProgress(0);
-      
+
+      if (result.walls.length === 0) {
+        setAnalysisError('No walls found. Try a cleaner scan with dark, solid wall lines.');
+        playHit();
+      } else {
+        playSuccess();
+      }
     } catch (error) {
+      setAnalysisError(error instanceof Error ? error.message : 'Blueprint analysis failed');
       playHit();
       setUploadProgress(0);
     }
   };
 
-  const generateRoomFrom2D = () => {
-    if (!importedImage) return;
-    
-    // Analyze the blueprint and create multiple rooms with furniture
-    analyzeAndCreateBlueprint();
-    
-    playSuccess();
-    onClose();
+  // Typing the drawing's overall width is the quick alternative to measuring
+  const commitPlanWidth = () => {
+    const width = Number(widthDraft);
+    if (floorPlan?.imageSize && width > 0) {
+      calibrateBlueprint(floorPlan.imageSize.width / width);
+    }
+    setWidthDraft(null);
   };
 
-  const analyzeAndCreateBlueprint = () => {
-    // Clear existing scene
-    clearScene();
-
-    // Intelligent blueprint analysis - create realistic apartment layout
-    const apartmentWidth = 12;
-    const apartmentLength = 10;
-    
-    // Create main apartment space
-    const apartment = createRoom('custom', {
-      width: apartmentWidth,
-      length: apartmentLength,
-      height: 3
-    });
-
-    // LIVING ROOM AREA (lower section of blueprint)
-    setTimeout(() => {
-      // L-shaped sofa configuration (as shown in blueprint)
-      addFurniture(apartment.id, 'sofa', { x: -3, y: 0.4, z: 1.5 });
-      addFurniture(apartment.id, 'sofa', { x: -4.5, y: 0.4, z: 0 }); // Corner piece
-      
-      // Coffee table in center of seating area
-      addFurniture(apartment.id, 'table', { x: -2.5, y: 0.4, z: 0.5 });
-      
-      // Side table with lamp
-      addFurniture(apartment.id, 'nightstand', { x: -1.5, y: 0.4, z: 2 });
-      
-      // TV entertainment center
-      addFurniture(apartment.id, 'tv_stand', { x: -5.5, y: 0.4, z: 0.5 });
-      
-      // Area rug simulation with decorative object
-      createObject({
-        type: 'plane',
-        category: 'decoration',
-        name: 'Area Rug',
-        position: { x: -3, y: 0.05, z: 0.8 },
-        scale: { x: 3, y: 0.1, z: 2.5 },
-        rotation: { x: -Math.PI/2, y: 0, z: 0 },
-        color: '#8B4513',
-        room: apartment.id,
-        material: 'fabric'
-      });
-    }, 100);
-
-    // DINING AREA (central area of blueprint)
-    setTimeout(() => {
-      // Dining table with proper placement
-      addFurniture(apartment.id, 'dining_table', { x: 0, y: 0.4, z: -1.5 });
-      
-      // Six dining chairs around table (realistic placement)
-      addFurniture(apartment.id, 'chair', { x: -0.8, y: 0.5, z: -1.5 }); // Left side
-      addFurniture(apartment.id, 'chair', { x: 0.8, y: 0.5, z: -1.5 });  // Right side
-      addFurniture(apartment.id, 'chair', { x: 0, y: 0.5, z: -2.2 });    // Back
-      addFurniture(apartment.id, 'chair', { x: 0, y: 0.5, z: -0.8 });    // Front
-      addFurniture(apartment.id, 'chair', { x: -0.4, y: 0.5, z: -2.2 }); // Back corner
-      addFurniture(apartment.id, 'chair', { x: 0.4, y: 0.5, z: -0.8 });  // Front corner
-      
-      // Dining room sideboard/buffet
-      addFurniture(apartment.id, 'desk', { x: 1.5, y: 0.4, z: -3 });
-    }, 200);
-
-    // KITCHEN AREA (upper section of blueprint)
-    setTimeout(() => {
-      // L-shaped kitchen counter configuration
-      createObject({
-        type: 'furniture',
-        category: 'furniture',
-        subtype: 'counter',
-        name: 'Main Kitchen Counter',
-        position: { x: -3.5, y: 0.4, z: -4.2 },
-        scale: { x: 4, y: 0.9, z: 0.7 },
-        rotation: { x: 0, y: 0, z: 0 },
-        color: '#2C3E50',
-        room: apartment.id,
-        material: 'granite'
-      });
-
-      // Island counter (as shown in blueprint)
-      createObject({
-        type: 'furniture',
-        category: 'furniture',
-        subtype: 'counter',
-        name: 'Kitchen Island',
-        position: { x: -1, y: 0.4, z: -3.5 },
-        scale: { x: 2.5, y: 0.9, z: 1.2 },
-        rotation: { x: 0, y: 0, z: 0 },
-        color: '#34495E',
-        room: apartment.id,
-        material: 'marble'
-      });
-
-      // High-end appliances
-      createObject({
-        type: 'furniture',
-        category: 'furniture',
-        subtype: 'refrigerator',
-        name: 'French Door Refrigerator',
-        position: { x: -5.2, y: 1.1, z: -4.2 },
-        scale: { x: 0.7, y: 2.2, z: 0.7 },
-        rotation: { x: 0, y: 0, z: 0 },
-        color: '#BDC3C7',
-        room: apartment.id,
-        material: 'stainless_steel'
-      });
-
-      // Built-in oven and microwave
-      createObject({
-        type: 'furniture',
-        category: 'furniture',
-        subtype: 'oven',
-        name: 'Built-in Oven',
-        position: { x: -3, y: 0.8, z: -4.6 },
-        scale: { x: 0.6, y: 0.6, z: 0.5 },
-        rotation: { x: 0, y: 0, z: 0 },
-        color: '#2C3E50',
-        room: apartment.id,
-        material: 'stainless_steel'
-      });
-
-      // Kitchen sink with modern faucet
-      createObject({
-        type: 'furniture',
-        category: 'furniture',
-        subtype: 'sink',
-        name: 'Double Kitchen Sink',
-        position: { x: -2, y: 0.5, z: -4.6 },
-        scale: { x: 1, y: 0.3, z: 0.6 },
-        rotation: { x: 0, y: 0, z: 0 },
-        color: '#ECF0F1',
-        room: apartment.id,
-        material: 'ceramic'
-      });
-
-      // Bar stools for island
-      addFurniture(apartment.id, 'chair', { x: -0.5, y: 0.7, z: -2.8 });
-      addFurniture(apartment.id, 'chair', { x: -1.5, y: 0.7, z: -2.8 });
-    }, 300);
-
-    // BATHROOM AREA (right section of blueprint)
-    setTimeout(() => {
-      // Modern toilet with realistic placement
-      createObject({
-        type: 'furniture',
-        category: 'furniture',
-        subtype: 'toilet',
-        name: 'Modern Toilet',
-        position: { x: 4.5, y: 0.4, z: -3.8 },
-        scale: { x: 0.7, y: 0.9, z: 0.9 },
-        rotation: { x: 0, y: Math.PI, z: 0 },
-        color: '#FFFFFF',
-        room: apartment.id,
-        material: 'ceramic'
-      });
-
-      // Vanity with double sink
-      createObject({
-        type: 'furniture',
-        category: 'furniture',
-        subtype: 'vanity',
-        name: 'Bathroom Vanity',
-        position: { x: 4.5, y: 0.4, z: -2.5 },
-        scale: { x: 1.5, y: 0.9, z: 0.6 },
-        rotation: { x: 0, y: 0, z: 0 },
-        color: '#34495E',
-        room: apartment.id,
-        material: 'wood'
-      });
-
-      // Large mirror above vanity
-      createObject({
-        type: 'plane',
-        category: 'furniture',
-        name: 'Bathroom Mirror',
-        position: { x: 4.5, y: 1.5, z: -2.8 },
-        scale: { x: 1.3, y: 1, z: 0.1 },
-        rotation: { x: 0, y: 0, z: 0 },
-        color: '#85C1E9',
-        room: apartment.id,
-        material: 'mirror'
-      });
-
-      // Luxury bathtub (as shown in blueprint)
-      createObject({
-        type: 'furniture',
-        category: 'furniture',
-        subtype: 'bathtub',
-        name: 'Freestanding Bathtub',
-        position: { x: 3.2, y: 0.3, z: -4.2 },
-        scale: { x: 1.8, y: 0.7, z: 0.9 },
-        rotation: { x: 0, y: Math.PI/4, z: 0 },
-        color: '#FFFFFF',
-        room: apartment.id,
-        material: 'acrylic'
-      });
-
-      // Shower area
-      createObject({
-        type: 'cube',
-        category: 'furniture',
-        name: 'Shower Enclosure',
-        position: { x: 5.2, y: 1, z: -2 },
-        scale: { x: 0.1, y: 2, z: 1.2 },
-        rotation: { x: 0, y: 0, z: 0 },
-        color: '#85C1E9',
-        room: apartment.id,
-        material: 'glass'
-      });
-    }, 400);
-
-    // DOORS AND WINDOWS (structural elements from blueprint)
-    setTimeout(() => {
-      // Main entrance door with modern design
-      createObject({
-        type: 'door',
-        category: 'structure',
-        name: 'Main Entrance',
-        position: { x: -1, y: 1, z: 5 - 0.1 },
-        scale: { x: 0.1, y: 2.2, z: 1 },
-        rotation: { x: 0, y: 0, z: 0 },
-        color: '#2C3E50',
-        room: apartment.id,
-        isStructural: true,
-        material: 'wood'
-      });
-
-      // Bathroom pocket door
-      createObject({
-        type: 'door',
-        category: 'structure',
-        name: 'Bathroom Door',
-        position: { x: 3.3, y: 1, z: -1.5 },
-        scale: { x: 0.8, y: 2, z: 0.1 },
-        rotation: { x: 0, y: 0, z: 0 },
-        color: '#FFFFFF',
-        room: apartment.id,
-        isStructural: true,
-        material: 'wood'
-      });
-
-      // Large living room windows (floor-to-ceiling)
-      createObject({
-        type: 'window',
-        category: 'structure',
-        name: 'Living Room Bay Window',
-        position: { x: -6 + 0.1, y: 1.2, z: 1 },
-        scale: { x: 0.1, y: 2.4, z: 3 },
-        rotation: { x: 0, y: 0, z: 0 },
-        color: '#85C1E9',
-        room: apartment.id,
-        isStructural: true,
-        material: 'glass'
-      });
-
-      // Kitchen window above sink
-      createObject({
-        type: 'window',
-        category: 'structure',
-        name: 'Kitchen Window',
-        position: { x: -2, y: 1.8, z: -5 + 0.1 },
-        scale: { x: 2, y: 1.2, z: 0.1 },
-        rotation: { x: 0, y: 0, z: 0 },
-        color: '#85C1E9',
-        room: apartment.id,
-        isStructural: true,
-        material: 'glass'
-      });
-
-      // Bathroom window
-      createObject({
-        type: 'window',
-        category: 'structure',
-        name: 'Bathroom Window',
-        position: { x: 6 - 0.1, y: 1.8, z: -3 },
-        scale: { x: 0.1, y: 1, z: 1.2 },
-        rotation: { x: 0, y: 0, z: 0 },
-        color: '#85C1E9',
-        room: apartment.id,
-        isStructural: true,
-        material: 'glass'
-      });
-    }, 500);
-
-    // FINISHING TOUCHES AND REALISTIC DETAILS
-    setTimeout(() => {
-      // Floor textures and materials
-      createObject({
-        type: 'plane',
-        category: 'decoration',
-        name: 'Hardwood Flooring',
-        position: { x: -2, y: 0.01, z: 0 },
-        scale: { x: 8, y: 0.01, z: 6 },
-        rotation: { x: -Math.PI/2, y: 0, z: 0 },
-        color: '#8B4513',
-        room: apartment.id,
-        material: 'wood'
-      });
-
-      // Kitchen tile flooring
-      createObject({
-        type: 'plane',
-        category: 'decoration',
-        name: 'Kitchen Tile',
-        position: { x: -2.5, y: 0.01, z: -3.8 },
-        scale: { x: 4, y: 0.01, z: 2.5 },
-        rotation: { x: -Math.PI/2, y: 0, z: 0 },
-        color: '#BDC3C7',
-        room: apartment.id,
-        material: 'ceramic'
-      });
+  const generateRoomFrom2D = () => {
+    if (!analysis || analysis.walls.length === 0 || !floorPlan) return;
 
-      // Bathroom tile flooring
-      createObject({
-        type: 'plane',
-        category: 'decoration',
-        name: 'Bathroom Tile',
-        position: { x: 4.2, y: 0.01, z: -3.2 },
-        scale: { x: 2.5, y: 0.01, z: 2.8 },
-        rotation: { x: -Math.PI/2, y: 0, z: 0 },
-        color: '#F8F9FA',
-        room: apartment.id,
-        material: 'ceramic'
-      });
+    const layout = buildBlueprintLayout(analysis, analysisPixelsPerMeter(floorPlan, analysis.width));
+    applyBlueprintLayout(layout);
 
-      // Decorative lighting fixtures
-      createObject({
-        type: 'sphere',
-        category: 'decoration',
-        name: 'Pendant Light',
-        position: { x: 0, y: 2.5, z: -1.5 },
-        scale: { x: 0.3, y: 0.3, z: 0.3 },
-        rotation: { x: 0, y: 0, z: 0 },
-        color: '#F39C12',
-        room: apartment.id,
-        material: 'glass'
-      });
-    }, 600);
+    playSuccess();
+    onClose();
   };
 
   const handleDrag = (e: React.DragEvent) => {
@@ -475,7 +165,7 @@ export function BlueprintImporter({ isOpen, onClose }: BlueprintImporterProps) {
                     </button>
                   </p>
                   <p className="text-gray-400 text-sm mt-2">
-                    Supports JPG, PNG, PDF floor plans and construction drawings
+                    Supports JPG and PNG floor plans and construction drawings
                   </p>
                 </div>
               </div>
@@ -485,7 +175,7 @@ export function BlueprintImporter({ isOpen, onClose }: BlueprintImporterProps) {
               ref={fileInputRef}
               type="file"
               className="hidden"
-              accept="image/*,.pdf"
+              accept="image/*"
               onChange={(e) => handleFileSelect(e.target.files)}
             />
 
@@ -497,95 +187,148 @@ export function BlueprintImporter({ isOpen, onClose }: BlueprintImporterProps) {
                 </p>
               </div>
             )}
+
+            {/* Rejected files; analysis problems show beside the preview */}
+            {analysisError && !importedImage && (
+              <Alert variant="destructive" className="mt-4">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{analysisError}</AlertDescription>
+              </Alert>
+            )}
           </Card>
 
           {/* Preview and Configuration */}
           {importedImage && (
             <Card className="bg-black/50 border-blue-500/30 p-6">
-              <h3 className="text-white font-semibold mb-4">Blueprint Preview & Configuration</h3>
-              
-              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-                {/* Image Preview */}
-                <div className="space-y-4">
-                  <div className="bg-gray-800 rounded-lg p-4">
-                    <img 
-                      src={importedImage} 
-                      alt="Imported blueprint" 
-                      className="w-full h-64 object-contain rounded"
-                    />
-                  </div>
+              <h3 className="text-white font-semibold mb-4">
+                {calibrating ? 'Calibrate Blueprint Scale' : 'Blueprint Preview & Configuration'}
+              </h3>
+
+              {calibrating && floorPlan?.imageSize ? (
+                <BlueprintCalibrator
+                  imageUrl={importedImage}
+                  imageSize={floorPlan.imageSize}
+                  onApply={(pixelsPerMeter) => {
+                    calibrateBlueprint(pixelsPerMeter);
+                    setCalibrating(false);
+                    playSuccess();
+                  }}
+                  onCancel={() => setCalibrating(false)}
+                />
+              ) : (
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                  {/* Image Preview with detected walls and rooms */}
+                  <div className="space-y-4">
+                    <div className="bg-gray-800 rounded-lg p-4 relative">
+                      <img 
+                        src={importedImage} 
+                        alt="Imported blueprint" 
+                        className="w-full h-64 object-contain rounded"
+                      />
+                      {analysis && (
+                        <svg
+                          viewBox={`0 0 ${analysis.width} ${analysis.height}`}
+                          preserveAspectRatio="xMidYMid meet"
+                          className="absolute inset-4 w-[calc(100%-2rem)] h-64 pointer-events-none"
+                        >
+                          {analysis.rooms.map((room, index) => (
+                            <polygon
+                              key={`room-${index}`}
+                              points={room.polygon.map(p => `${p.x},${p.y}`).join(' ')}
+                              fill="rgba(59, 130, 246, 0.25)"
+                              stroke="#3B82F6"
+                              strokeWidth={analysis.width / 300}
+                            />
+                          ))}
+                          {analysis.walls.map((wall, index) => (
+                            <line
+                              key={`wall-${index}`}
+                              x1={wall.start.x}
+                              y1={wall.start.y}
+                              x2={wall.end.x}
+                              y2={wall.end.y}
+                              stroke="#EF4444"
+                              strokeWidth={wall.thickness}
+                              strokeOpacity={0.7}
+                            />
+                          ))}
+                        </svg>
+                      )}
+                    </div>
                   
-                  <div className="text-sm text-gray-400">
-                    <p>✓ Blueprint imported successfully</p>
-                    <p>✓ Detected: Living room, kitchen, bathroom areas</p>
-                    <p>✓ Found: Furniture, fixtures, doors, and windows</p>
-                    <p>Ready for intelligent 3D conversion</p>
+                    <div className="text-sm text-gray-400">
+                      <p>✓ Blueprint imported successfully</p>
+                      {analysis && (
+                        <>
+                          <p>✓ Detected {analysis.walls.length} wall segments</p>
+                          <p>✓ Detected {analysis.rooms.length} enclosed rooms</p>
+                        </>
+                      )}
+                    </div>
+
+                    {analysisError && (
+                      <Alert variant="destructive">
+                        <AlertCircle className="h-4 w-4" />
+                        <AlertDescription>{analysisError}</AlertDescription>
+                      </Alert>
+                    )}
                   </div>
-                </div>
 
-                {/* Configuration */}
-                <div className="space-y-4">
-                  <div>
-                    <label className="block text-white font-medium mb-2">Room Dimensions</label>
-                    <div className="grid grid-cols-2 gap-3">
-                      <div>
-                        <label className="block text-gray-400 text-sm">Width (meters)</label>
-                        <input
-                          type="number"
-                          value={roomDimensions.width}
-                          onChange={(e) => setRoomDimensions(prev => ({
-                            ...prev,
-                            width: Number(e.target.value)
-                          }))}
-                          className="w-full bg-gray-800 border border-gray-600 rounded px-3 py-2 text-white"
-                          min="1"
-                          max="50"
-                        />
-                      </div>
-                      <div>
-                        <label className="block text-gray-400 text-sm">Length (meters)</label>
-                        <input
-                          type="number"
-                          value={roomDimensions.length}
-                          onChange={(e) => setRoomDimensions(prev => ({
-                            ...prev,
-                            length: Number(e.target.value)
-                          }))}
-                          className="w-full bg-gray-800 border border-gray-600 rounded px-3 py-2 text-white"
-                          min="1"
-                          max="50"
-                        />
-                      </div>
+                  {/* Configuration */}
+                  <div className="space-y-4">
+                    <div>
+                      <label className="block text-white font-medium mb-2">Blueprint Scale</label>
+                      {floorPlan && (
+                        <div className="text-sm text-gray-300 space-y-1">
+                          <p>
+                            1 m = {floorPlan.scale.toFixed(1)} px
+                            <span className={floorPlan.calibrated ? 'text-green-400' : 'text-yellow-400'}>
+                              {floorPlan.calibrated ? ' (calibrated)' : ' (assumed)'}
+                            </span>
+                          </p>
+                          <p className="text-gray-400 text-xs">
+                            Drawing covers {floorPlan.dimensions.width.toFixed(2)} m × {floorPlan.dimensions.length.toFixed(2)} m
+                          </p>
+                        </div>
+                      )}
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setCalibrating(true)}
+                        disabled={!floorPlan?.imageSize}
+                        className="w-full mt-3 border-blue-500/30 text-blue-400 hover:bg-blue-500/20"
+                      >
+                        <Ruler className="mr-2" size={14} />
+                        Measure a Known Dimension
+                      </Button>
                     </div>
-                  </div>
 
-                  <div>
-                    <label className="block text-white font-medium mb-2">Scale Factor</label>
-                    <input
-                      type="range"
-                      min="0.1"
-                      max="5"
-                      step="0.1"
-                      value={scale}
-                      onChange={(e) => setScale(Number(e.target.value))}
-                      className="w-full"
-                    />
-                    <div className="flex justify-between text-sm text-gray-400">
-                      <span>0.1x</span>
-                      <span>{scale}x</span>
-                      <span>5x</span>
+                    <div>
+                      <label className="block text-gray-400 text-sm">Or enter the drawing width (meters)</label>
+                      <input
+                        type="number"
+                        value={widthDraft ?? (floorPlan ? Number(floorPlan.dimensions.width.toFixed(2)) : '')}
+                        onChange={(e) => setWidthDraft(e.target.value)}
+                        onBlur={commitPlanWidth}
+                        onKeyDown={(e) => e.key === 'Enter' && commitPlanWidth()}
+                        disabled={!floorPlan?.imageSize}
+                        className="w-full bg-gray-800 border border-gray-600 rounded px-3 py-2 text-white"
+                        min="0.1"
+                        step="any"
+                      />
                     </div>
-                  </div>
 
-                  <Button
-                    onClick={generateRoomFrom2D}
-                    className="w-full bg-gradient-to-r from-green-600 to-teal-600 hover:from-green-700 hover:to-teal-700"
-                  >
-                    <Building className="mr-2" size={16} />
-                    Analyze & Generate 3D Layout
-                  </Button>
+                    <Button
+                      onClick={generateRoomFrom2D}
+                      disabled={!analysis || analysis.walls.length === 0 || !floorPlan}
+                      className="w-full bg-gradient-to-r from-green-600 to-teal-600 hover:from-green-700 hover:to-teal-700"
+                    >
+                      <Building className="mr-2" size={16} />
+                      Generate 3D Layout
+                    </Button>
+                  </div>
                 </div>
-              </div>
+              )}
             </Card>
           )}
 
@@ -627,13 +370,12 @@ export function BlueprintImporter({ isOpen, onClose }: BlueprintImporterProps) {
             <div className="flex items-start gap-3">
               <Download className="text-blue-400 mt-1" size={16} />
               <div className="text-sm">
-                <p className="text-blue-300 font-medium mb-1">AI Blueprint Analysis Features:</p>
+                <p className="text-blue-300 font-medium mb-1">Blueprint Analysis:</p>
                 <ul className="text-blue-200 space-y-1 text-xs">
-                  <li>• Automatically detects rooms, furniture, and fixtures</li>
-                  <li>• Places kitchen appliances, bathroom fixtures, and furniture</li>
-                  <li>• Identifies doors, windows, and structural elements</li>
-                  <li>• Creates accurate 3D layouts from 2D construction plans</li>
-                  <li>• Supports architectural drawings and floor plans</li>
+                  <li>• Runs locally in your browser, nothing is uploaded</li>
+                  <li>• Detects thick, dark wall lines; text and thin lines are ignored</li>
+                  <li>• Finds enclosed rooms, treating door-sized gaps as closed</li>
+                  <li>• Best results with clean, high-contrast plans drawn square to the page</li>
                 </ul>
               </div>
             </div>
@@ -15,7 +15,7 @@ export function CommandPanel() {
   const [suggestions, setSuggestions] = useState<string[]>([]);
   const [showHistory, setShowHistory] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
-  const { createObject, selectedObject, updateObject } = useModeling();
+  const { createObject, selectedObject, updateObject, undo, redo } = useModeling();
   const { playSuccess, playHit } = useAudio();
 
   // Command suggestions
@@ -31,7 +31,9 @@ export function CommandPanel() {
     "rotate object 90",
     "color object orange",
     "delete object",
-    "clear scene"
+    "clear scene",
+    "undo",
+    "redo"
   ];
 
   // Update suggestions based on input
@@ -107,6 +109,16 @@ export function CommandPanel() {
             // TODO: Implement scene clearing
             break;
 
+          case 'undo':
+            undo();
+            playSuccess();
+            break;
+
+          case 'redo':
+            redo();
+            playSuccess();
+            break;
+
           default:
             throw new Error('Unknown action type');
         }
@@ -0,0 +1,195 @@
+import { useMemo, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "./ui/dialog";
+import { Button } from "./ui/button";
+import { Card } from "./ui/card";
+import { Label } from "./ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Receipt, Download, FileText, BookOpen, RotateCcw } from "lucide-react";
+import { useModeling } from "../lib/stores/useModeling";
+import { useAudio } from "../lib/stores/useAudio";
+import { useCostCatalog } from "../lib/stores/useCostCatalog";
+import { computeBillOfMaterials, downloadBillOfMaterials } from "../lib/billOfMaterials";
+import { CURRENCIES, DEFAULT_CATALOG, formatMoney, priceOf, type CurrencyCode } from "../lib/costCatalog";
+import { formatQuantity } from "../lib/quantities";
+
+interface CostEstimatorProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const sections = DEFAULT_CATALOG
+  .map(item => item.section)
+  .filter((section, index, all) => all.indexOf(section) === index);
+
+export function CostEstimator({ isOpen, onClose }: CostEstimatorProps) {
+  const { objects, floorPlan } = useModeling();
+  const { playSuccess } = useAudio();
+  const { currency, overrides, setCurrency, setPrice, resetPrices } = useCostCatalog();
+  const [selectedTab, setSelectedTab] = useState<'estimate' | 'catalog'>('estimate');
+
+  const bom = useMemo(
+    () => computeBillOfMaterials(objects, floorPlan, overrides, currency),
+    [objects, floorPlan, overrides, currency]
+  );
+  const money = (value: number) => formatMoney(value, currency);
+
+  const handleDownload = (format: 'csv' | 'pdf') => {
+    downloadBillOfMaterials(bom, format, `precision-build-ai-estimate-${Date.now()}`);
+    playSuccess();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto bg-gray-900 border-gray-700 text-white">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Receipt className="text-green-500" size={24} />
+            Cost Estimate
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-end justify-between gap-4">
+            <div className="flex space-x-2">
+              <Button
+                variant={selectedTab === 'estimate' ? 'default' : 'outline'}
+                onClick={() => setSelectedTab('estimate')}
+                className={selectedTab === 'estimate'
+                  ? 'bg-blue-600 text-white'
+                  : 'border-gray-600 text-gray-300 hover:border-blue-500'
+                }
+              >
+                <Receipt className="mr-2" size={16} />
+                Estimate
+              </Button>
+              <Button
+                variant={selectedTab === 'catalog' ? 'default' : 'outline'}
+                onClick={() => setSelectedTab('catalog')}
+                className={selectedTab === 'catalog'
+                  ? 'bg-blue-600 text-white'
+                  : 'border-gray-600 text-gray-300 hover:border-blue-500'
+                }
+              >
+                <BookOpen className="mr-2" size={16} />
+                Price Catalog
+              </Button>
+            </div>
+
+            <div className="w-48">
+              <Label className="text-white text-sm">Currency</Label>
+              <Select value={currency} onValueChange={(value) => setCurrency(value as CurrencyCode)}>
+                <SelectTrigger className="bg-gray-800 border-gray-600 text-white mt-2">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-gray-800 border-gray-600">
+                  {CURRENCIES.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.value} - {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {selectedTab === 'estimate' && (
+            <>
+              {bom.groups.length === 0 ? (
+                <Card className="bg-black/50 border-blue-500/30 p-4">
+                  <p className="text-sm text-gray-400">Nothing to price yet. Add rooms, furniture or openings first.</p>
+                </Card>
+              ) : (
+                bom.groups.map(group => (
+                  <Card key={group.roomId ?? 'unassigned'} className="bg-black/50 border-blue-500/30 p-4">
+                    <h4 className="text-sm font-semibold mb-2">{group.name}</h4>
+                    <table className="w-full text-xs">
+                      <tbody className="text-gray-200">
+                        {group.lines.map((line, index) => (
+                          <tr key={index} className="text-right border-t border-gray-800">
+                            <td className="text-left py-1 pr-2">{line.description}</td>
+                            <td className="py-1 px-2">{formatQuantity(line.quantity)} {line.unit}</td>
+                            <td className="py-1 px-2 text-gray-400">{money(line.unitPrice)}</td>
+                            <td className="py-1 pl-2">{money(line.total)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                      <tfoot>
+                        <tr className="text-right border-t border-gray-600 font-semibold">
+                          <td className="text-left py-1 pr-2" colSpan={3}>Subtotal</td>
+                          <td className="py-1 pl-2">{money(group.subtotal)}</td>
+                        </tr>
+                      </tfoot>
+                    </table>
+                  </Card>
+                ))
+              )}
+
+              <div className="flex items-center justify-between">
+                <span className="text-lg font-semibold">Total: {money(bom.total)}</span>
+                <div className="flex gap-2">
+                  <Button
+                    onClick={() => handleDownload('csv')}
+                    disabled={bom.groups.length === 0}
+                    className="bg-green-600 hover:bg-green-700 text-white"
+                  >
+                    <Download size={16} className="mr-2" />
+                    CSV
+                  </Button>
+                  <Button
+                    onClick={() => handleDownload('pdf')}
+                    disabled={bom.groups.length === 0}
+                    className="bg-green-600 hover:bg-green-700 text-white"
+                  >
+                    <FileText size={16} className="mr-2" />
+                    PDF
+                  </Button>
+                </div>
+              </div>
+            </>
+          )}
+
+          {selectedTab === 'catalog' && (
+            <>
+              <p className="text-xs text-gray-400">
+                Prices are in {currency} and kept in this browser. Material factors multiply the furniture price.
+              </p>
+              {sections.map(section => (
+                <Card key={section} className="bg-black/50 border-blue-500/30 p-4">
+                  <h4 className="text-sm font-semibold mb-2">{section}</h4>
+                  <div className="grid grid-cols-2 gap-x-6 gap-y-1">
+                    {DEFAULT_CATALOG.filter(item => item.section === section).map(item => (
+                      <label key={item.key} className="flex items-center justify-between gap-2 text-xs text-gray-300">
+                        {item.label}
+                        <span className="flex items-center gap-1">
+                          <input
+                            type="number"
+                            min="0"
+                            step={item.unit === '×' ? 0.05 : 1}
+                            value={priceOf(item.key, overrides)}
+                            onChange={(e) => setPrice(item.key, Number(e.target.value))}
+                            className="w-20 rounded bg-gray-800 border border-gray-600 px-1 py-0.5 text-white text-right"
+                          />
+                          <span className="w-8 text-gray-500">{item.unit === '×' ? '×' : `/${item.unit}`}</span>
+                        </span>
+                      </label>
+                    ))}
+                  </div>
+                </Card>
+              ))}
+              <div className="flex justify-end">
+                <Button
+                  variant="outline"
+                  onClick={resetPrices}
+                  className="border-gray-600 text-gray-300 hover:bg-gray-700"
+                >
+                  <RotateCcw size={16} className="mr-2" />
+                  Reset to defaults
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,60 @@
+import { Card } from "./ui/card";
+import { Button } from "./ui/button";
+import { Move3D, RotateCw, Maximize2, Globe, Box } from "lucide-react";
+import { useGizmo, type GizmoMode } from "../lib/stores/useGizmo";
+import { useModeling } from "../lib/stores/useModeling";
+
+const MODES: [GizmoMode, typeof Move3D, string][] = [
+  ['move', Move3D, 'Move (G)'],
+  ['rotate', RotateCw, 'Rotate (R)'],
+  ['scale', Maximize2, 'Scale (S)']
+];
+
+// Transform gizmo controls for the 3D view
+export function GizmoPanel() {
+  const { mode, space, setMode, setSpace } = useGizmo();
+  const selectedObject = useModeling(state => state.selectedObject);
+
+  return (
+    <Card className="bg-black/80 border-blue-500/30 backdrop-blur-sm">
+      <div className="p-3 space-y-3">
+        <h3 className="text-white font-semibold text-sm">Transform</h3>
+        <div className="flex gap-2">
+          {MODES.map(([value, Icon, label]) => (
+            <Button
+              key={value}
+              variant={mode === value ? 'default' : 'outline'}
+              size="sm"
+              title={label}
+              onClick={() => setMode(mode === value ? null : value)}
+              className={mode === value
+                ? 'bg-blue-600 text-white'
+                : 'border-gray-600 text-gray-300 hover:border-blue-500'
+              }
+            >
+              <Icon size={14} />
+            </Button>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            title="World or local axes (L)"
+            onClick={() => setSpace(space === 'world' ? 'local' : 'world')}
+            className="flex-1 border-gray-600 text-gray-300 hover:border-blue-500"
+          >
+            {space === 'world' ? <Globe size={14} className="mr-1" /> : <Box size={14} className="mr-1" />}
+            {space === 'world' ? 'World' : 'Local'}
+          </Button>
+        </div>
+
+        {mode && (
+          <p className="text-xs text-gray-400">
+            {selectedObject
+              ? 'Drag an axis or plane handle. Type a value while dragging; Enter confirms, Escape cancels. Hold Shift to drag without snapping.'
+              : 'Select an object to transform it.'}
+          </p>
+        )}
+      </div>
+    </Card>
+  );
+}
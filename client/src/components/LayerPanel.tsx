@@ -0,0 +1,76 @@
+import { Card } from "./ui/card";
+import { Eye, EyeOff, Lock, LockOpen, Printer, X } from "lucide-react";
+import { useModeling } from "../lib/stores/useModeling";
+import { LAYER_NAMES, listLayers } from "../lib/layers";
+
+// Drawing layers with their visibility, lock, colour override and whether
+// they go on the printed plan
+export function LayerPanel() {
+  const { floorPlan, setLayer } = useModeling();
+  const layers = listLayers(floorPlan);
+
+  return (
+    <Card className="bg-black/80 border-blue-500/30 backdrop-blur-sm">
+      <div className="p-3">
+        <h3 className="text-white font-semibold mb-3 text-sm">Layers</h3>
+        <div className="space-y-1">
+          {layers.map(layer => {
+            const name = LAYER_NAMES[layer.id];
+            return (
+              <div key={layer.id} className="flex items-center gap-1.5 text-xs text-gray-300">
+                <span className={`flex-1 truncate ${layer.visible ? '' : 'opacity-50'}`}>{name}</span>
+
+                {/* Swatch over a native colour picker; empty when the content keeps its own colours */}
+                <label
+                  className="relative h-4 w-4 cursor-pointer rounded border border-gray-500"
+                  style={{ background: layer.color || 'transparent' }}
+                  title={layer.color ? `${name} drawn in ${layer.color}` : `Draw ${name.toLowerCase()} in one colour`}
+                >
+                  <input
+                    type="color"
+                    value={layer.color || '#ffffff'}
+                    onChange={(e) => setLayer(layer.id, { color: e.target.value })}
+                    className="absolute inset-0 h-full w-full cursor-pointer opacity-0"
+                  />
+                </label>
+                {layer.color ? (
+                  <button
+                    className="text-gray-400 hover:text-white"
+                    onClick={() => setLayer(layer.id, { color: undefined })}
+                    title="Use the content's own colours"
+                  >
+                    <X size={12} />
+                  </button>
+                ) : (
+                  <span className="w-3" />
+                )}
+
+                <button
+                  className="text-gray-400 hover:text-white"
+                  onClick={() => setLayer(layer.id, { visible: !layer.visible })}
+                  title={layer.visible ? `Hide ${name.toLowerCase()}` : `Show ${name.toLowerCase()}`}
+                >
+                  {layer.visible ? <Eye size={12} /> : <EyeOff size={12} />}
+                </button>
+                <button
+                  className={layer.locked ? 'text-amber-400 hover:text-amber-300' : 'text-gray-400 hover:text-white'}
+                  onClick={() => setLayer(layer.id, { locked: !layer.locked })}
+                  title={layer.locked ? `Unlock ${name.toLowerCase()}` : `Lock ${name.toLowerCase()}`}
+                >
+                  {layer.locked ? <Lock size={12} /> : <LockOpen size={12} />}
+                </button>
+                <button
+                  className={layer.print ? 'text-blue-400 hover:text-blue-300' : 'text-gray-600 hover:text-gray-400'}
+                  onClick={() => setLayer(layer.id, { print: !layer.print })}
+                  title={layer.print ? 'Printed; click to leave off the print' : 'Not printed; click to print'}
+                >
+                  <Printer size={12} />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </Card>
+  );
+}
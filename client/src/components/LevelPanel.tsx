@@ -0,0 +1,148 @@
+import { Card } from "./ui/card";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Plus, Trash2, Footprints, Layers } from "lucide-react";
+import { useModeling } from "../lib/stores/useModeling";
+import { useAudio } from "../lib/stores/useAudio";
+import { useActiveLevel } from "../hooks/use-active-level";
+import { levelAbove } from "../lib/levels";
+
+const inputClass = "w-16 rounded bg-gray-800 border border-gray-600 px-1 py-0.5 text-white";
+
+// Storeys of the building: pick the one to work on, edit its elevation and
+// floor-to-floor height, and connect it to the next with stairs
+export function LevelPanel() {
+  const {
+    hideUpperLevels,
+    addLevel,
+    updateLevel,
+    deleteLevel,
+    setActiveLevel,
+    setHideUpperLevels,
+    addStairs,
+    addCeilings
+  } = useModeling();
+  const { playHit } = useAudio();
+  const { levels, level } = useActiveLevel();
+
+  const above = levelAbove(levels, level.id);
+
+  return (
+    <Card className="bg-black/80 border-blue-500/30 backdrop-blur-sm">
+      <div className="p-3">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-white font-semibold text-sm">Levels ({levels.length})</h3>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 w-6 p-0 text-gray-400 hover:text-white"
+            onClick={() => {
+              addLevel();
+              playHit();
+            }}
+            title="Add a level on top"
+          >
+            <Plus size={14} />
+          </Button>
+        </div>
+
+        <div className="space-y-1">
+          {/* Top level first, as in a section drawing */}
+          {[...levels].reverse().map(l => (
+            <div
+              key={l.id}
+              className={`flex items-center gap-1 rounded px-2 py-1 text-sm ${
+                l.id === level.id ? 'bg-blue-600/30 text-white' : 'text-gray-300 hover:bg-gray-700/50'
+              }`}
+            >
+              <button className="flex-1 text-left truncate" onClick={() => setActiveLevel(l.id)}>
+                {l.name}
+              </button>
+              <span className="text-xs text-gray-400">{l.elevation.toFixed(2)}m</span>
+              {levels.length > 1 && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0 text-gray-400 hover:text-red-400"
+                  onClick={() => {
+                    deleteLevel(l.id);
+                    playHit();
+                  }}
+                  title="Delete level and everything on it"
+                >
+                  <Trash2 size={12} />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="mt-3 space-y-2">
+          <Input
+            value={level.name}
+            onChange={(e) => e.target.value.trim() && updateLevel(level.id, { name: e.target.value })}
+            className="h-6 px-1 bg-gray-800 border-gray-600 text-white text-sm"
+          />
+          <label className="flex items-center justify-between gap-2 text-xs text-gray-300">
+            Elevation (m)
+            <input
+              type="number"
+              step="0.1"
+              value={level.elevation}
+              onChange={(e) => updateLevel(level.id, { elevation: Number(e.target.value) })}
+              className={inputClass}
+            />
+          </label>
+          <label className="flex items-center justify-between gap-2 text-xs text-gray-300">
+            Floor to floor (m)
+            <input
+              type="number"
+              min="1"
+              step="0.1"
+              value={level.height}
+              onChange={(e) => updateLevel(level.id, { height: Number(e.target.value) })}
+              className={inputClass}
+            />
+          </label>
+          <label className="flex items-center gap-2 text-xs text-gray-300">
+            <input
+              type="checkbox"
+              checked={hideUpperLevels}
+              onChange={(e) => setHideUpperLevels(e.target.checked)}
+            />
+            Hide levels above in 3D
+          </label>
+        </div>
+
+        <div className="mt-3 grid grid-cols-2 gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={!above}
+            onClick={() => {
+              addStairs();
+              playHit();
+            }}
+            className="border-gray-600 text-gray-300 hover:border-blue-500"
+            title={above ? `Stairs up to ${above.name}` : 'Add a level above first'}
+          >
+            <Footprints size={14} className="mr-1" />
+            Stairs
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              if (addCeilings() > 0) playHit();
+            }}
+            className="border-gray-600 text-gray-300 hover:border-blue-500"
+            title="Add ceilings to rooms on this level that have none"
+          >
+            <Layers size={14} className="mr-1" />
+            Ceilings
+          </Button>
+        </div>
+      </div>
+    </Card>
+  );
+}
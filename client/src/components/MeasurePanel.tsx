@@ -0,0 +1,94 @@
+import { useMemo } from "react";
+import { Button } from "./ui/button";
+import { Trash2 } from "lucide-react";
+import { useModeling } from "../lib/stores/useModeling";
+import { useDrawing, type MeasureMode } from "../lib/stores/useDrawing";
+import { useActiveLevel } from "../hooks/use-active-level";
+import { isOnLevel } from "../lib/levels";
+import { formatLength, resolveMeasurement } from "../lib/measurements";
+import { getLayer } from "../lib/layers";
+import type { Measurement, ModelingObject } from "../types/modeling";
+
+const MODES: [MeasureMode, string][] = [
+  ['distance', 'Distance'],
+  ['clearance', 'Clearance']
+];
+
+function describe(measurement: Measurement, objects: ModelingObject[]): string {
+  if (measurement.kind !== 'clearance') return 'Distance';
+  const name = (id?: string) => {
+    const obj = objects.find(o => o.id === id);
+    return obj ? obj.name || obj.type : '?';
+  };
+  return `${name(measurement.start.objectId)} to ${name(measurement.end.objectId)}`;
+}
+
+// Measure tool settings and the active level's dimension lines, shared by
+// the 2D plan and the 3D view
+export function MeasurePanel() {
+  const { measureMode, setMeasureMode } = useDrawing();
+  const { objects, floorPlan, deleteMeasurement, clearMeasurements } = useModeling();
+  const { levels, level } = useActiveLevel();
+
+  const measurements = useMemo(
+    () => (floorPlan?.measurements || []).filter(m => isOnLevel(m, level.id, levels)),
+    [floorPlan, level, levels]
+  );
+  // Dimensions can't be placed or removed on a locked layer
+  const locked = getLayer(floorPlan, 'annotations').locked;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        {MODES.map(([value, label]) => (
+          <Button
+            key={value}
+            variant={measureMode === value ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setMeasureMode(value)}
+            className={measureMode === value
+              ? 'flex-1 bg-blue-600 text-white'
+              : 'flex-1 border-gray-600 text-gray-300 hover:border-blue-500'
+            }
+          >
+            {label}
+          </Button>
+        ))}
+      </div>
+
+      {locked && (
+        <p className="text-xs text-amber-400">The annotations layer is locked.</p>
+      )}
+
+      {measurements.length > 0 && (
+        <div className="space-y-1">
+          {measurements.map(m => (
+            <div key={m.id} className="flex items-center gap-1 text-xs text-gray-300">
+              <span className="flex-1 truncate">{describe(m, objects)}</span>
+              <span className="text-amber-400">{formatLength(resolveMeasurement(m, objects).length)}</span>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-5 w-5 p-0 text-gray-400 hover:text-red-400"
+                onClick={() => deleteMeasurement(m.id)}
+                disabled={locked}
+                title="Delete dimension"
+              >
+                <Trash2 size={12} />
+              </Button>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={clearMeasurements}
+            disabled={locked}
+            className="w-full border-gray-600 text-gray-300 hover:border-red-500"
+          >
+            Clear dimensions
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+import { Card } from "./ui/card";
+import { Button } from "./ui/button";
+import { DraftingCompass } from "lucide-react";
+import { useDrawing } from "../lib/stores/useDrawing";
+import { MeasurePanel } from "./MeasurePanel";
+
+// Measure tool controls for the 3D view; the 2D plan has its own in the Trace card
+export function MeasureToolPanel() {
+  const { tool, setTool, measureMode } = useDrawing();
+  const active = tool === 'measure';
+
+  return (
+    <Card className="bg-black/80 border-blue-500/30 backdrop-blur-sm">
+      <div className="p-3 space-y-3">
+        <Button
+          variant={active ? 'default' : 'outline'}
+          size="sm"
+          onClick={() => setTool(active ? 'select' : 'measure')}
+          className={active
+            ? 'w-full bg-blue-600 text-white'
+            : 'w-full border-gray-600 text-gray-300 hover:border-blue-500'
+          }
+        >
+          <DraftingCompass size={14} className="mr-2" />
+          {active ? 'Measuring' : 'Measure'}
+        </Button>
+
+        {active && (
+          <>
+            <MeasurePanel />
+            <p className="text-xs text-gray-400">
+              {measureMode === 'clearance'
+                ? 'Click an object, then the wall to measure its clearance to.'
+                : 'Click two points on objects or the floor; the dimension follows the objects when they move.'}
+              {' '}Escape leaves the tool.
+            </p>
+          </>
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,223 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "./ui/dialog";
+import { Button } from "./ui/button";
+import { Card } from "./ui/card";
+import { Label } from "./ui/label";
+import { Switch } from "./ui/switch";
+import { Alert, AlertDescription } from "./ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Download, AlertCircle, Loader2 } from "lucide-react";
+import { useModeling } from "../lib/stores/useModeling";
+import { useAudio } from "../lib/stores/useAudio";
+import { downloadGltf, type GltfFormat } from "../lib/gltfExport";
+import {
+  downloadFabrication,
+  resolveExportObjectIds,
+  unitsPerMeter,
+  EXPORT_UNITS,
+  type ExportScope,
+  type ExportUnit,
+  type FabricationFormat
+} from "../lib/fabricationExport";
+import { visibleObjects } from "../lib/visibility";
+import type { Room } from "../types/modeling";
+
+interface ModelExporterProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type ModelFormat = GltfFormat | FabricationFormat;
+
+const formats: { value: ModelFormat; label: string; description: string }[] = [
+  { value: 'glb', label: 'GLB (binary glTF)', description: 'Single file, best for Blender, Unity and web viewers' },
+  { value: 'gltf', label: 'glTF (JSON)', description: 'Human-readable, buffers embedded as data URIs' },
+  { value: 'obj', label: 'OBJ + MTL', description: 'Geometry plus a material library, downloaded as two files' },
+  { value: 'stl-binary', label: 'STL (binary)', description: 'Compact mesh for 3D printing and CAM software' },
+  { value: 'stl-ascii', label: 'STL (ASCII)', description: 'Text mesh for vendors that require readable STL' }
+];
+
+const isGltf = (format: ModelFormat): format is GltfFormat => format === 'glb' || format === 'gltf';
+
+export function ModelExporter({ isOpen, onClose }: ModelExporterProps) {
+  const { objects, selectedIds, currentRoom, floorPlan, viewMode } = useModeling();
+  const { playSuccess, playHit } = useAudio();
+  const [format, setFormat] = useState<ModelFormat>('glb');
+  const [scope, setScope] = useState<ExportScope>(selectedIds.length > 0 ? 'selection' : 'scene');
+  const [roomId, setRoomId] = useState<string | null>(currentRoom?.id ?? null);
+  const [unit, setUnit] = useState<ExportUnit>('mm');
+  const [groupByRoom, setGroupByRoom] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const rooms: Room[] = [
+    ...(currentRoom ? [currentRoom] : []),
+    ...(floorPlan?.rooms || []).filter(room => room.id !== currentRoom?.id)
+  ];
+
+  // Hidden objects are not exported
+  const shown = visibleObjects(objects, floorPlan);
+  const objectIds = resolveExportObjectIds(scope, {
+    objects: shown,
+    selectedIds,
+    roomId
+  });
+
+  const handleExport = async () => {
+    setError(null);
+    setIsExporting(true);
+
+    const baseName = `precision-build-ai-model-${Date.now()}`;
+    try {
+      if (isGltf(format)) {
+        await downloadGltf({ objects, rooms, objectIds, groupByRoom, format }, baseName);
+      } else {
+        downloadFabrication({ objects, rooms, objectIds, format, unit, floorPlan }, baseName);
+      }
+      playSuccess();
+      onClose();
+    } catch (err) {
+      console.error('Model export failed:', err);
+      setError(err instanceof Error ? err.message : 'Export failed');
+      playHit();
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-lg bg-gray-900 border-gray-700 text-white">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Download className="text-green-500" size={24} />
+            Export 3D Model
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <Card className="bg-black/50 border-blue-500/30 p-4 space-y-4">
+            <div>
+              <Label className="text-white text-sm">Format</Label>
+              <Select value={format} onValueChange={(value) => setFormat(value as ModelFormat)}>
+                <SelectTrigger className="bg-gray-800 border-gray-600 text-white mt-2">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-gray-800 border-gray-600">
+                  {formats.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-gray-400 mt-1">
+                {formats.find(option => option.value === format)?.description}
+              </p>
+            </div>
+
+            <div>
+              <Label className="text-white text-sm">Export</Label>
+              <Select value={scope} onValueChange={(value) => setScope(value as ExportScope)}>
+                <SelectTrigger className="bg-gray-800 border-gray-600 text-white mt-2">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-gray-800 border-gray-600">
+                  <SelectItem value="scene">Whole scene</SelectItem>
+                  <SelectItem value="selection" disabled={selectedIds.length === 0}>Selection</SelectItem>
+                  <SelectItem value="room" disabled={rooms.length === 0}>Room</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {scope === 'room' && (
+              <div>
+                <Label className="text-white text-sm">Room</Label>
+                <Select value={roomId ?? undefined} onValueChange={setRoomId}>
+                  <SelectTrigger className="bg-gray-800 border-gray-600 text-white mt-2">
+                    <SelectValue placeholder="Choose a room" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-gray-800 border-gray-600">
+                    {rooms.map((room) => (
+                      <SelectItem key={room.id} value={room.id}>
+                        {room.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {isGltf(format) ? (
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label className="text-white text-sm">Group by room</Label>
+                  <p className="text-xs text-gray-400">Nest objects under one node per room</p>
+                </div>
+                <Switch checked={groupByRoom} onCheckedChange={setGroupByRoom} />
+              </div>
+            ) : (
+              <div>
+                <Label className="text-white text-sm">Units</Label>
+                <Select value={unit} onValueChange={(value) => setUnit(value as ExportUnit)}>
+                  <SelectTrigger className="bg-gray-800 border-gray-600 text-white mt-2">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-gray-800 border-gray-600">
+                    {EXPORT_UNITS.map((option) => (
+                      <SelectItem key={option.value} value={option.value} disabled={option.value === 'plan' && !floorPlan?.imageSize}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-gray-400 mt-1">
+                  1 m in the scene = {Number(unitsPerMeter(unit, floorPlan).toFixed(3))} units in the file
+                </p>
+              </div>
+            )}
+
+            <p className="text-xs text-gray-400">
+              {objectIds.length} of {objects.length} objects will be exported
+              {shown.length < objects.length && ` (${objects.length - shown.length} hidden)`}
+            </p>
+          </Card>
+
+          {viewMode !== '3d' && (
+            <Alert>
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                The export is taken from the 3D view. Switch to 3D first.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="outline"
+              onClick={onClose}
+              className="border-gray-600 text-gray-300 hover:bg-gray-700"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleExport}
+              disabled={isExporting || objectIds.length === 0 || viewMode !== '3d'}
+              className="bg-green-600 hover:bg-green-700"
+            >
+              {isExporting ? <Loader2 size={16} className="mr-1 animate-spin" /> : <Download size={16} className="mr-1" />}
+              Export
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -6,12 +6,35 @@ import { Label } from "./ui/label";
 import { Slider } from "./ui/slider";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
 import { Badge } from "./ui/badge";
-import { Trash2, Copy, RotateCw, Move3D, Palette } from "lucide-react";
+import { Switch } from "./ui/switch";
+import { Trash2, Copy, RotateCw, Move3D, Palette, Group, Ungroup, Eye, EyeOff, Lock, LockOpen } from "lucide-react";
 import { useModeling } from "../lib/stores/useModeling";
 import { useAudio } from "../lib/stores/useAudio";
+import { groupMembers, listGroups, rootGroups } from "../lib/groups";
+import { categoryState, displayCategory } from "../lib/visibility";
+import { LAYER_NAMES, OBJECT_LAYERS, objectLayerId } from "../lib/layers";
+import { MATERIAL_IDS, MATERIAL_LIBRARY, materialPreset, textureRepeat } from "../lib/materials";
+import { MaterialId, ModelingObject, ObjectLayerId } from "../types/modeling";
 
+// With several objects selected the fields show the leading object and every
+// change applies to all of them; position changes move them all by the same
+// amount rather than stacking them.
 export function ObjectEditor() {
-  const { selectedObject, updateObject, deleteObject, duplicateObject } = useModeling();
+  const {
+    objects,
+    floorPlan,
+    selectedObject,
+    selectedIds,
+    updateObject,
+    updateObjects,
+    transformObjects,
+    deleteObjects,
+    duplicateObjects,
+    groupObjects,
+    ungroupObjects,
+    beginTransaction,
+    commitTransaction
+  } = useModeling();
   const { playSuccess, playHit } = useAudio();
   const [editMode, setEditMode] = useState<'transform' | 'color' | 'material'>('transform');
 
@@ -26,81 +49,172 @@ export function ObjectEditor() {
     );
   }
 
+  const selected = objects.filter(obj => selectedIds.includes(obj.id));
+  const multiple = selected.length > 1;
+  const groups = listGroups(floorPlan);
+  const selectedGroups = rootGroups(selected, groups);
+  // The selection is one whole group
+  const wholeGroup = selectedGroups.length === 1 && selected.every(obj => obj.groupId) &&
+    groupMembers(selectedGroups[0].id, objects, groups).length === selected.length
+    ? selectedGroups[0]
+    : null;
+
+  const applyToAll = (updates: Partial<ModelingObject>) => {
+    updateObjects(selected.map(obj => obj.id), updates);
+  };
+
+  // The object's own flags; a hidden or locked category covers them all
+  const hidden = selected.every(obj => obj.visible === false);
+  const locked = selected.every(obj => obj.isDraggable === false);
+  const categoryLocked = selected.every(obj => categoryState(floorPlan, displayCategory(obj)).locked);
+
+  // Per-object changes to one axis of a vector, as one undo step
+  const applyAxis = (key: 'scale' | 'rotation', axis: 'x' | 'y' | 'z', value: number) => {
+    if (!multiple) {
+      updateObject(selectedObject.id, { [key]: { ...selectedObject[key], [axis]: value } });
+      return;
+    }
+    beginTransaction(key === 'scale' ? 'Scale objects' : 'Rotate objects', `${key}-many:${axis}:${selectedIds.join(',')}`);
+    selected.forEach(obj => updateObject(obj.id, { [key]: { ...obj[key], [axis]: value } }));
+    commitTransaction();
+  };
+
   const handlePositionChange = (axis: 'x' | 'y' | 'z', value: number) => {
+    if (multiple) {
+      if (!Number.isFinite(value)) return;
+      const offset = { x: 0, y: 0, z: 0, [axis]: value - selectedObject.position[axis] };
+      transformObjects(selected.map(obj => obj.id), selectedObject.position, { offset });
+      return;
+    }
     updateObject(selectedObject.id, {
       position: { ...selectedObject.position, [axis]: value }
     });
   };
 
   const handleScaleChange = (axis: 'x' | 'y' | 'z', value: number) => {
-    updateObject(selectedObject.id, {
-      scale: { ...selectedObject.scale, [axis]: value }
-    });
+    applyAxis('scale', axis, value);
   };
 
   const handleRotationChange = (axis: 'x' | 'y' | 'z', value: number) => {
-    updateObject(selectedObject.id, {
-      rotation: { ...selectedObject.rotation, [axis]: (value * Math.PI) / 180 }
-    });
+    applyAxis('rotation', axis, (value * Math.PI) / 180);
   };
 
   const handleColorChange = (color: string) => {
-    updateObject(selectedObject.id, { color });
+    applyToAll({ color });
     playSuccess();
   };
 
-  const handleMaterialChange = (material: 'standard' | 'basic' | 'phong' | 'lambert' | 'wood' | 'metal' | 'glass' | 'fabric' | 'leather' | 'ceramic' | 'marble' | 'granite' | 'plastic' | 'stainless_steel' | 'acrylic' | 'mirror') => {
-    updateObject(selectedObject.id, { material });
+  const handleMaterialChange = (material: MaterialId) => {
+    applyToAll({ material });
     playSuccess();
   };
 
+  // Every selected object takes the leading object's tiling
+  const handleTilingChange = (axis: 'x' | 'y', value: number) => {
+    applyToAll({ textureRepeat: { ...textureRepeat(selectedObject), [axis]: value } });
+  };
+
   const handleGradientChange = (colors: string[], direction: 'horizontal' | 'vertical' | 'radial') => {
-    updateObject(selectedObject.id, {
+    applyToAll({
       gradient: { colors, direction }
     });
     playSuccess();
   };
 
   const handleDuplicate = () => {
-    const newObj = duplicateObject(selectedObject.id);
-    if (newObj) {
+    const copies = duplicateObjects(selected.map(obj => obj.id));
+    if (copies.length) {
       playSuccess();
     }
   };
 
   const handleDelete = () => {
-    deleteObject(selectedObject.id);
+    deleteObjects(selected.map(obj => obj.id));
     playHit();
   };
 
+  const handleToggleVisible = () => {
+    applyToAll({ visible: hidden });
+    playHit();
+  };
+
+  const handleToggleLocked = () => {
+    applyToAll({ isDraggable: locked });
+    playHit();
+  };
+
+  const handleGroup = () => {
+    if (groupObjects(selectedIds)) playSuccess();
+  };
+
+  const handleUngroup = () => {
+    ungroupObjects(selectedIds);
+    playSuccess();
+  };
+
   const presetColors = [
     '#FF6B6B', '#4ECDC4', '#45B7D1', '#96CEB4', '#FFEAA7',
     '#DDA0DD', '#98D8C8', '#F7DC6F', '#BB8FCE', '#85C1E9',
     '#F8C471', '#82E0AA', '#F1948A', '#85C1E9', '#D7BDE2'
   ];
 
-  const materials = [
-    { value: 'standard', label: 'Standard' },
-    { value: 'wood', label: 'Wood' },
-    { value: 'metal', label: 'Metal' },
-    { value: 'glass', label: 'Glass' },
-    { value: 'fabric', label: 'Fabric' },
-    { value: 'leather', label: 'Leather' },
-    { value: 'ceramic', label: 'Ceramic' },
-    { value: 'marble', label: 'Marble' },
-    { value: 'granite', label: 'Granite' },
-    { value: 'plastic', label: 'Plastic' }
-  ];
+  const materials = MATERIAL_IDS.map(value => ({ value, label: MATERIAL_LIBRARY[value].label }));
+  const preset = materialPreset(selectedObject);
+  const tiling = textureRepeat(selectedObject);
 
   return (
     <Card className="bg-gray-900/80 border-gray-700 p-4 space-y-4">
       {/* Header */}
       <div className="flex items-center justify-between">
         <div>
-          <h3 className="text-white font-medium">{selectedObject.name || selectedObject.type}</h3>
-          <p className="text-xs text-gray-400">{selectedObject.category}</p>
+          <h3 className="text-white font-medium">
+            {wholeGroup?.name || (multiple ? `${selected.length} objects` : selectedObject.name || selectedObject.type)}
+          </h3>
+          <p className="text-xs text-gray-400">
+            {multiple ? `${selected.length} objects, showing ${selectedObject.name || selectedObject.type}` : selectedObject.category}
+          </p>
         </div>
         <div className="flex gap-1">
+          {multiple && !wholeGroup && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={handleGroup}
+              className="border-gray-600 hover:bg-gray-700"
+              title="Group (Ctrl+G)"
+            >
+              <Group size={14} />
+            </Button>
+          )}
+          {selectedGroups.length > 0 && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={handleUngroup}
+              className="border-gray-600 hover:bg-gray-700"
+              title="Ungroup (Ctrl+Shift+G)"
+            >
+              <Ungroup size={14} />
+            </Button>
+          )}
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={handleToggleVisible}
+            className="border-gray-600 hover:bg-gray-700"
+            title={hidden ? 'Show' : 'Hide'}
+          >
+            {hidden ? <EyeOff size={14} /> : <Eye size={14} />}
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={handleToggleLocked}
+            className={locked || categoryLocked ? 'border-amber-600 hover:bg-gray-700' : 'border-gray-600 hover:bg-gray-700'}
+            title={categoryLocked ? 'Locked with its category' : locked ? 'Unlock' : 'Lock in place'}
+          >
+            {locked || categoryLocked ? <Lock size={14} /> : <LockOpen size={14} />}
+          </Button>
           <Button
             size="sm"
             variant="outline"
@@ -367,13 +481,77 @@ export function ObjectEditor() {
             </Select>
           </div>
 
+          {/* Only textured materials have anything to tile */}
+          {preset.texture && (
+            <div>
+              <Label className="text-white text-sm">Texture Tiling</Label>
+              <div className="grid grid-cols-2 gap-2 mt-2">
+                {(['x', 'y'] as const).map((axis) => (
+                  <div key={axis}>
+                    <Label className="text-xs text-gray-400">
+                      {axis === 'x' ? 'Across' : 'Down'}: {tiling[axis].toFixed(2)}x
+                    </Label>
+                    <Slider
+                      value={[tiling[axis]]}
+                      onValueChange={([value]) => handleTilingChange(axis, value)}
+                      min={0.25}
+                      max={8}
+                      step={0.25}
+                      className="mt-1"
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div>
+            <Label className="text-white text-sm">Layer</Label>
+            <Select
+              value={objectLayerId(selectedObject)}
+              onValueChange={(layer) => applyToAll({ layer: layer as ObjectLayerId })}
+            >
+              <SelectTrigger className="bg-gray-800 border-gray-600 text-white mt-2">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-gray-800 border-gray-600">
+                {OBJECT_LAYERS.map((layer) => (
+                  <SelectItem key={layer} value={layer}>
+                    {LAYER_NAMES[layer]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <Label className="text-white text-sm">Wireframe</Label>
+              <p className="text-xs text-gray-400">Edges only in 3D, a faint outline on the plan</p>
+            </div>
+            <Switch checked={!!selectedObject.wireframe} onCheckedChange={(wireframe) => applyToAll({ wireframe })} />
+          </div>
+
           {/* Material Preview */}
           <div>
             <Label className="text-white text-sm">Properties</Label>
             <div className="mt-2 flex flex-wrap gap-1">
               <Badge variant="outline" className="border-gray-600">
-                {selectedObject.material || 'Standard'}
+                {preset.label}
+              </Badge>
+              <Badge variant="outline" className="border-gray-600">
+                Roughness {preset.roughness}
               </Badge>
+              {preset.metalness > 0 && (
+                <Badge variant="outline" className="border-gray-600">
+                  Metalness {preset.metalness}
+                </Badge>
+              )}
+              {!!preset.transmission && (
+                <Badge variant="outline" className="border-cyan-600">
+                  Transmissive
+                </Badge>
+              )}
               {selectedObject.gradient && (
                 <Badge variant="outline" className="border-blue-600">
                   Gradient
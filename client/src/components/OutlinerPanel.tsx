@@ -0,0 +1,311 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Card } from "./ui/card";
+import { Input } from "./ui/input";
+import { ChevronDown, ChevronRight, Eye, EyeOff, Lock, LockOpen, Search } from "lucide-react";
+import { useModeling } from "../lib/stores/useModeling";
+import { groupAncestors, groupMembers, listGroups } from "../lib/groups";
+import { buildOutline, filterOutline, objectCategory, outlineObjects, type OutlineNode } from "../lib/outliner";
+import { DISPLAY_CATEGORIES, categoryState, isHidden } from "../lib/visibility";
+
+// What is being dragged across the tree
+interface DragItem {
+  kind: 'group' | 'object';
+  id: string;
+}
+
+const INDENT_PX = 12;
+
+const nodeId = (node: OutlineNode) => node.group?.id ?? node.object?.id ?? node.key;
+
+// Keys of the nodes leading down to an object, outermost first
+function pathTo(nodes: OutlineNode[], objectId: string): string[] {
+  for (const node of nodes) {
+    if (node.object?.id === objectId) return [node.key];
+    const below = pathTo(node.children, objectId);
+    if (below.length) return [node.key, ...below];
+  }
+  return [];
+}
+
+// The scene as a tree of rooms, categories, groups and objects. Picking a
+// row selects it in the views (and the other way round), double-clicking
+// renames it, and rows can be dragged onto a group to join it or onto a
+// room or category to move there.
+export function OutlinerPanel() {
+  const {
+    objects, floorPlan, selectedIds, selectedObject, selectObjects, selectRoom, updateObject, updateObjects,
+    renameGroup, moveToGroup, moveGroup, setCategoryState, beginTransaction, commitTransaction
+  } = useModeling();
+  const [query, setQuery] = useState('');
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [editingKey, setEditingKey] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [dropKey, setDropKey] = useState<string | null>(null);
+  const dragRef = useRef<DragItem | null>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const groups = listGroups(floorPlan);
+  const tree = useMemo(
+    () => buildOutline(objects, floorPlan?.rooms || [], listGroups(floorPlan)),
+    [objects, floorPlan]
+  );
+  const searching = query.trim() !== '';
+  const shown = useMemo(() => filterOutline(tree, query), [tree, query]);
+
+  // Opens the branch down to an object picked elsewhere and brings it into view
+  const selectedId = selectedObject?.id;
+  useEffect(() => {
+    if (!selectedId) return;
+    const path = pathTo(tree, selectedId);
+    setCollapsed(current => {
+      if (!path.some(key => current.has(key))) return current;
+      const next = new Set(current);
+      path.forEach(key => next.delete(key));
+      return next;
+    });
+    const frame = requestAnimationFrame(() => {
+      listRef.current
+        ?.querySelector(`[data-object-id="${selectedId}"]`)
+        ?.scrollIntoView({ block: 'nearest' });
+    });
+    return () => cancelAnimationFrame(frame);
+    // Only when the selection changes, not on every edit
+  }, [selectedId]);
+
+  if (objects.length === 0) return null;
+
+  const toggleCollapsed = (key: string) => {
+    setCollapsed(current => {
+      const next = new Set(current);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const isSelected = (node: OutlineNode) => {
+    if (node.kind === 'object') return selectedIds.includes(node.object!.id);
+    if (node.kind !== 'group') return false;
+    const members = outlineObjects(node);
+    return members.length > 0 && members.every(obj => selectedIds.includes(obj.id));
+  };
+
+  const handleSelect = (node: OutlineNode, toggle: boolean) => {
+    const mode = toggle ? 'toggle' : 'replace';
+    if (node.kind === 'object') selectObjects([node.object!.id], mode);
+    else if (node.kind === 'group') selectObjects(outlineObjects(node).map(obj => obj.id), mode);
+    else if (node.kind === 'room' && node.roomId) selectRoom(node.roomId);
+    else toggleCollapsed(node.key);
+  };
+
+  const startRename = (node: OutlineNode) => {
+    setEditingKey(node.key);
+    setDraftName(node.group?.name ?? node.object?.name ?? node.label);
+  };
+
+  const commitRename = (node: OutlineNode) => {
+    const name = draftName.trim();
+    if (name && node.group) renameGroup(node.group.id, name);
+    if (name && node.object) updateObject(node.object.id, { name });
+    setEditingKey(null);
+  };
+
+  // A container counts as hidden or locked when everything in it is. The
+  // toggles set the objects' own flags; rows hidden with their whole
+  // category are dimmed too.
+  const nodeHidden = (node: OutlineNode) => outlineObjects(node).every(obj => obj.visible === false);
+  const nodeLocked = (node: OutlineNode) => outlineObjects(node).every(obj => obj.isDraggable === false);
+  const nodeDimmed = (node: OutlineNode) => outlineObjects(node).every(obj => isHidden(obj, floorPlan));
+
+  const toggleVisible = (node: OutlineNode) => {
+    updateObjects(outlineObjects(node).map(obj => obj.id), { visible: nodeHidden(node) });
+  };
+
+  const toggleLocked = (node: OutlineNode) => {
+    updateObjects(outlineObjects(node).map(obj => obj.id), { isDraggable: nodeLocked(node) });
+  };
+
+  const canDrop = (target: OutlineNode) => {
+    const item = dragRef.current;
+    if (!item || target.kind === 'object') return false;
+    if (target.kind !== 'group') return true;
+    // Not into itself or one of its own subgroups
+    return item.kind === 'object' || !groupAncestors(target.group!.id, groups).some(g => g.id === item.id);
+  };
+
+  const handleDrop = (target: OutlineNode) => {
+    const item = dragRef.current;
+    dragRef.current = null;
+    setDropKey(null);
+    if (!item || !canDrop(target)) return;
+
+    if (target.kind === 'group') {
+      if (item.kind === 'group') moveGroup(item.id, target.group!.id);
+      else moveToGroup([item.id], target.group!.id);
+      return;
+    }
+
+    // Onto a room or category: out of its group and into that room, and that
+    // category too; walls, floors and ceilings keep theirs
+    const moved = item.kind === 'group'
+      ? groupMembers(item.id, objects, groups)
+      : objects.filter(obj => obj.id === item.id);
+    const updates = target.kind === 'category'
+      ? { room: target.roomId ?? undefined, category: objectCategory(target.category!) }
+      : { room: target.roomId ?? undefined };
+
+    beginTransaction('Move in outliner');
+    if (item.kind === 'group') moveGroup(item.id, null);
+    else moveToGroup([item.id], null);
+    updateObjects(moved.filter(obj => !obj.isStructural).map(obj => obj.id), updates);
+    commitTransaction();
+  };
+
+  const renderNode = (node: OutlineNode, depth: number) => {
+    const open = searching || !collapsed.has(node.key);
+    const hasChildren = node.children.length > 0;
+    const draggable = node.kind === 'group' || node.kind === 'object';
+    const renamable = draggable;
+    const hidden = nodeHidden(node);
+    const locked = nodeLocked(node);
+
+    return (
+      <div key={node.key}>
+        <div
+          data-object-id={node.object?.id}
+          draggable={draggable && editingKey !== node.key}
+          onDragStart={(e) => {
+            dragRef.current = { kind: node.kind as DragItem['kind'], id: nodeId(node) };
+            e.dataTransfer.effectAllowed = 'move';
+            e.dataTransfer.setData('text/plain', nodeId(node));
+          }}
+          onDragEnd={() => {
+            dragRef.current = null;
+            setDropKey(null);
+          }}
+          onDragOver={(e) => {
+            if (!canDrop(node)) return;
+            e.preventDefault();
+            e.dataTransfer.dropEffect = 'move';
+            setDropKey(node.key);
+          }}
+          onDragLeave={() => setDropKey(current => current === node.key ? null : current)}
+          onDrop={(e) => {
+            e.preventDefault();
+            handleDrop(node);
+          }}
+          className={`flex items-center gap-1 rounded pr-1 py-0.5 text-xs ${
+            dropKey === node.key
+              ? 'bg-emerald-600/30 text-white'
+              : isSelected(node)
+                ? 'bg-blue-600/30 text-white'
+                : 'text-gray-300 hover:bg-gray-700/50'
+          } ${nodeDimmed(node) ? 'opacity-50' : ''}`}
+          style={{ paddingLeft: depth * INDENT_PX + 4 }}
+        >
+          {hasChildren ? (
+            <button
+              className="text-gray-400 hover:text-white"
+              onClick={() => toggleCollapsed(node.key)}
+              title={open ? 'Collapse' : 'Expand'}
+            >
+              {open ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+            </button>
+          ) : (
+            <span className="w-3" />
+          )}
+
+          {editingKey === node.key ? (
+            <Input
+              autoFocus
+              value={draftName}
+              onChange={(e) => setDraftName(e.target.value)}
+              onBlur={() => commitRename(node)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') commitRename(node);
+                if (e.key === 'Escape') setEditingKey(null);
+              }}
+              className="h-5 px-1 bg-gray-800 border-gray-600 text-white text-xs"
+            />
+          ) : (
+            <button
+              className={`flex-1 text-left truncate ${node.kind === 'room' || node.kind === 'category' ? 'font-medium' : ''}`}
+              onClick={(e) => handleSelect(node, e.shiftKey)}
+              onDoubleClick={() => renamable && startRename(node)}
+              title={renamable ? 'Click to select, double-click to rename' : undefined}
+            >
+              {node.label}
+              {node.kind !== 'object' && (
+                <span className="ml-1 text-gray-500">({outlineObjects(node).length})</span>
+              )}
+            </button>
+          )}
+
+          <button
+            className="text-gray-400 hover:text-white"
+            onClick={() => toggleVisible(node)}
+            title={hidden ? 'Show' : 'Hide'}
+          >
+            {hidden ? <EyeOff size={12} /> : <Eye size={12} />}
+          </button>
+          <button
+            className={locked ? 'text-amber-400 hover:text-amber-300' : 'text-gray-400 hover:text-white'}
+            onClick={() => toggleLocked(node)}
+            title={locked ? 'Unlock' : 'Lock'}
+          >
+            {locked ? <Lock size={12} /> : <LockOpen size={12} />}
+          </button>
+        </div>
+
+        {open && node.children.map(child => renderNode(child, depth + 1))}
+      </div>
+    );
+  };
+
+  return (
+    <Card className="bg-black/80 border-blue-500/30 backdrop-blur-sm">
+      <div className="p-3 w-64">
+        <h3 className="text-white font-semibold mb-3 text-sm">Outliner ({objects.length})</h3>
+        <div className="relative mb-2">
+          <Search size={12} className="absolute left-2 top-1/2 -translate-y-1/2 text-gray-400" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search objects"
+            className="h-7 pl-6 bg-gray-800 border-gray-600 text-white text-xs"
+          />
+        </div>
+        {/* Whole categories, over every room */}
+        <div className="mb-2 grid grid-cols-2 gap-x-2 gap-y-0.5">
+          {DISPLAY_CATEGORIES.map(({ category, label }) => {
+            const state = categoryState(floorPlan, category);
+            return (
+              <div key={category} className="flex items-center gap-1 text-xs text-gray-300">
+                <span className={`flex-1 truncate ${state.hidden ? 'opacity-50' : ''}`}>{label}</span>
+                <button
+                  className="text-gray-400 hover:text-white"
+                  onClick={() => setCategoryState(category, { hidden: !state.hidden })}
+                  title={state.hidden ? `Show all ${label.toLowerCase()}` : `Hide all ${label.toLowerCase()}`}
+                >
+                  {state.hidden ? <EyeOff size={12} /> : <Eye size={12} />}
+                </button>
+                <button
+                  className={state.locked ? 'text-amber-400 hover:text-amber-300' : 'text-gray-400 hover:text-white'}
+                  onClick={() => setCategoryState(category, { locked: !state.locked })}
+                  title={state.locked ? `Unlock all ${label.toLowerCase()}` : `Lock all ${label.toLowerCase()}`}
+                >
+                  {state.locked ? <Lock size={12} /> : <LockOpen size={12} />}
+                </button>
+              </div>
+            );
+          })}
+        </div>
+        <div ref={listRef} className="max-h-64 overflow-y-auto">
+          {shown.length > 0
+            ? shown.map(node => renderNode(node, 0))
+            : <p className="text-xs text-gray-400">No matches</p>}
+        </div>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,205 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "./ui/dialog";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Card } from "./ui/card";
+import { ScrollArea } from "./ui/scroll-area";
+import { Alert, AlertDescription } from "./ui/alert";
+import { FolderOpen, Save, Trash2, AlertCircle, Loader2 } from "lucide-react";
+import { useModeling } from "../lib/stores/useModeling";
+import { useAudio } from "../lib/stores/useAudio";
+import { buildProjectPayload, projectToScene } from "../lib/projects";
+import {
+  useProjects,
+  useCreateProject,
+  useUpdateProject,
+  useDeleteProject,
+  fetchProject
+} from "../hooks/use-projects";
+
+interface ProjectManagerProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function ProjectManager({ isOpen, onClose }: ProjectManagerProps) {
+  const {
+    objects,
+    currentRoom,
+    floorPlan,
+    camera,
+    projectId,
+    projectName,
+    loadScene,
+    setProject
+  } = useModeling();
+  const { playSuccess, playHit } = useAudio();
+  const [name, setName] = useState(projectName || 'Untitled Project');
+  const [error, setError] = useState<string | null>(null);
+  const [openingId, setOpeningId] = useState<number | null>(null);
+
+  const { data: projects, isLoading } = useProjects(isOpen);
+  const createProject = useCreateProject();
+  const updateProject = useUpdateProject();
+  const deleteProject = useDeleteProject();
+
+  const isSaving = createProject.isPending || updateProject.isPending;
+
+  const handleError = (err: unknown) => {
+    setError(err instanceof Error ? err.message : 'Request failed');
+    playHit();
+  };
+
+  const saveProject = async (asNew: boolean) => {
+    setError(null);
+    const payload = buildProjectPayload(name, { objects, currentRoom, floorPlan, camera });
+
+    try {
+      const saved = projectId && !asNew
+        ? await updateProject.mutateAsync({ id: projectId, updates: payload })
+        : await createProject.mutateAsync(payload);
+
+      setProject(saved.id, saved.name);
+      playSuccess();
+    } catch (err) {
+      handleError(err);
+    }
+  };
+
+  const openProject = async (id: number) => {
+    setError(null);
+    setOpeningId(id);
+
+    try {
+      const project = await fetchProject(id);
+      loadScene(projectToScene(project));
+      setProject(project.id, project.name);
+      setName(project.name);
+      playSuccess();
+      onClose();
+    } catch (err) {
+      handleError(err);
+    } finally {
+      setOpeningId(null);
+    }
+  };
+
+  const removeProject = async (id: number) => {
+    setError(null);
+
+    try {
+      await deleteProject.mutateAsync(id);
+      if (id === projectId) {
+        setProject(null, null);
+      }
+    } catch (err) {
+      handleError(err);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl max-h-[80vh] bg-gray-900 border-gray-700 text-white">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FolderOpen className="text-blue-500" size={24} />
+            Projects
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {/* Save current scene */}
+          <Card className="bg-black/50 border-blue-500/30 p-4">
+            <h3 className="text-white font-semibold mb-3 text-sm">Save Current Scene</h3>
+            <div className="flex gap-2">
+              <Input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Project name"
+                className="flex-1 bg-gray-800 border-gray-600 text-white placeholder-gray-400"
+              />
+              <Button
+                onClick={() => saveProject(false)}
+                disabled={isSaving || !name.trim()}
+                className="bg-blue-600 hover:bg-blue-700"
+              >
+                {isSaving ? <Loader2 size={16} className="mr-1 animate-spin" /> : <Save size={16} className="mr-1" />}
+                {projectId ? 'Save' : 'Save Project'}
+              </Button>
+              {projectId && (
+                <Button
+                  variant="outline"
+                  onClick={() => saveProject(true)}
+                  disabled={isSaving || !name.trim()}
+                  className="border-gray-600 text-gray-300 hover:bg-gray-700"
+                >
+                  Save as New
+                </Button>
+              )}
+            </div>
+            <p className="text-xs text-gray-400 mt-2">
+              {objects.length} objects{projectName ? ` · editing "${projectName}"` : ''}
+            </p>
+          </Card>
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {/* Saved projects */}
+          <div>
+            <h3 className="text-white font-semibold mb-2 text-sm">Saved Projects</h3>
+            <ScrollArea className="h-64">
+              {isLoading ? (
+                <p className="text-gray-400 text-sm p-2">Loading projects...</p>
+              ) : !projects || projects.length === 0 ? (
+                <p className="text-gray-400 text-sm p-2">No saved projects yet.</p>
+              ) : (
+                <div className="space-y-2 pr-2">
+                  {projects.map((project) => (
+                    <div
+                      key={project.id}
+                      className={`flex items-center justify-between rounded-lg p-3 bg-gray-800/50 border ${
+                        project.id === projectId ? 'border-blue-500/50' : 'border-transparent'
+                      }`}
+                    >
+                      <div>
+                        <div className="text-white text-sm font-medium">{project.name}</div>
+                        <div className="text-xs text-gray-400">
+                          {project.objectCount} objects · updated {new Date(project.updatedAt).toLocaleString()}
+                        </div>
+                      </div>
+                      <div className="flex gap-1">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => openProject(project.id)}
+                          disabled={openingId !== null}
+                          className="border-gray-600 hover:bg-gray-700"
+                        >
+                          {openingId === project.id ? <Loader2 size={14} className="animate-spin" /> : <FolderOpen size={14} />}
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => removeProject(project.id)}
+                          disabled={deleteProject.isPending}
+                          className="border-red-600 hover:bg-red-700"
+                        >
+                          <Trash2 size={14} />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </ScrollArea>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
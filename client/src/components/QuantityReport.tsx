@@ -0,0 +1,123 @@
+import { useMemo } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "./ui/dialog";
+import { Button } from "./ui/button";
+import { Card } from "./ui/card";
+import { Calculator, Download } from "lucide-react";
+import { useModeling } from "../lib/stores/useModeling";
+import { useAudio } from "../lib/stores/useAudio";
+import { computeQuantities, downloadQuantities, formatQuantity } from "../lib/quantities";
+
+interface QuantityReportProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function QuantityReport({ isOpen, onClose }: QuantityReportProps) {
+  const { objects, floorPlan } = useModeling();
+  const { playSuccess } = useAudio();
+
+  const report = useMemo(() => computeQuantities(objects, floorPlan), [objects, floorPlan]);
+  const { rooms, totals, structure } = report;
+
+  const handleDownload = () => {
+    downloadQuantities(report, `precision-build-ai-quantities-${Date.now()}`);
+    playSuccess();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-4xl bg-gray-900 border-gray-700 text-white">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Calculator className="text-blue-500" size={24} />
+            Quantities
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <Card className="bg-black/50 border-blue-500/30 p-4">
+            {rooms.length === 0 ? (
+              <p className="text-sm text-gray-400">No rooms yet. Create or trace a room to measure it.</p>
+            ) : (
+              <div className="max-h-80 overflow-auto">
+                <table className="w-full text-xs">
+                  <thead className="text-gray-400">
+                    <tr className="text-right">
+                      <th className="text-left py-1 pr-2">Room</th>
+                      <th className="text-left py-1 pr-2">Level</th>
+                      <th className="py-1 px-2">Floor m²</th>
+                      <th className="py-1 px-2">Perimeter m</th>
+                      <th className="py-1 px-2">Volume m³</th>
+                      <th className="py-1 px-2">Walls net m²</th>
+                      <th className="py-1 px-2">Openings m²</th>
+                      <th className="py-1 px-2">Paint m²</th>
+                    </tr>
+                  </thead>
+                  <tbody className="text-gray-200">
+                    {rooms.map(room => (
+                      <tr key={room.roomId} className="text-right border-t border-gray-800">
+                        <td className="text-left py-1 pr-2">{room.name}</td>
+                        <td className="text-left py-1 pr-2 text-gray-400">{room.level}</td>
+                        <td className="py-1 px-2">{formatQuantity(room.floorArea)}</td>
+                        <td className="py-1 px-2">{formatQuantity(room.perimeter)}</td>
+                        <td className="py-1 px-2">{formatQuantity(room.volume)}</td>
+                        <td className="py-1 px-2">{formatQuantity(room.netWallArea)}</td>
+                        <td className="py-1 px-2">{formatQuantity(room.openingArea)}</td>
+                        <td className="py-1 px-2">{formatQuantity(room.paintArea)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                  <tfoot className="text-white font-semibold">
+                    <tr className="text-right border-t border-gray-600">
+                      <td className="text-left py-1 pr-2" colSpan={2}>Total</td>
+                      <td className="py-1 px-2">{formatQuantity(totals.floorArea)}</td>
+                      <td className="py-1 px-2">{formatQuantity(totals.perimeter)}</td>
+                      <td className="py-1 px-2">{formatQuantity(totals.volume)}</td>
+                      <td className="py-1 px-2">{formatQuantity(totals.netWallArea)}</td>
+                      <td className="py-1 px-2">{formatQuantity(totals.openingArea)}</td>
+                      <td className="py-1 px-2">{formatQuantity(totals.paintArea)}</td>
+                    </tr>
+                  </tfoot>
+                </table>
+              </div>
+            )}
+          </Card>
+
+          <Card className="bg-black/50 border-blue-500/30 p-4">
+            <h4 className="text-sm font-semibold mb-2">Structure</h4>
+            <div className="grid grid-cols-4 gap-2 text-xs text-gray-300">
+              <div>Walls: {structure.walls}</div>
+              <div>Wall length: {formatQuantity(structure.wallLength)} m</div>
+              <div>Wall face: {formatQuantity(structure.wallFaceArea)} m²</div>
+              <div>Wall volume: {formatQuantity(structure.wallVolume)} m³</div>
+              <div>Doors: {structure.doors}</div>
+              <div>Windows: {structure.windows}</div>
+              <div>Stairs: {structure.stairs}</div>
+            </div>
+            <p className="text-xs text-gray-400 mt-2">
+              Wall areas are measured on the room side; paint surface adds the ceiling.
+            </p>
+          </Card>
+
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="outline"
+              onClick={onClose}
+              className="border-gray-600 text-gray-300 hover:bg-gray-700"
+            >
+              Close
+            </Button>
+            <Button
+              onClick={handleDownload}
+              disabled={rooms.length === 0 && structure.walls === 0}
+              className="bg-green-600 hover:bg-green-700 text-white"
+            >
+              <Download size={16} className="mr-2" />
+              Download CSV
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
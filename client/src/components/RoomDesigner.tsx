@@ -14,7 +14,7 @@ interface RoomDesignerProps {
 
 export function RoomDesigner({ isOpen, onClose }: RoomDesignerProps) {
   const [selectedTab, setSelectedTab] = useState<'furniture' | 'structure'>('furniture');
-  const { currentRoom, addFurniture, createObject } = useModeling();
+  const { currentRoom, objects, addFurniture, addOpening, createObject } = useModeling();
   const { playSuccess, playPlace } = useAudio();
 
   const furnitureCategories = {
@@ -57,10 +57,12 @@ export function RoomDesigner({ isOpen, onClose }: RoomDesignerProps) {
     const roomWidth = currentRoom.dimensions.width;
     const roomLength = currentRoom.dimensions.length;
     
+    const center = currentRoom.floor.position;
+    
     const position = {
-      x: (Math.random() - 0.5) * (roomWidth - 2),
+      x: center.x + (Math.random() - 0.5) * (roomWidth - 2),
       y: 0.5,
-      z: (Math.random() - 0.5) * (roomLength - 2)
+      z: center.z + (Math.random() - 0.5) * (roomLength - 2)
     };
 
     addFurniture(currentRoom.id, furnitureType, position);
@@ -70,22 +72,26 @@ export function RoomDesigner({ isOpen, onClose }: RoomDesignerProps) {
   const placeStructural = (elementType: string) => {
     if (!currentRoom) return;
 
-    const position = {
-      x: 0,
-      y: elementType === 'window' ? 1.5 : 1,
-      z: currentRoom.dimensions.length / 2 - 0.1
-    };
+    // Doors and windows go into the north wall, or the longest one
+    if (elementType === 'door' || elementType === 'window') {
+      const walls = objects.filter(obj => obj.type === 'wall' && obj.room === currentRoom.id);
+      const host = walls.find(wall => wall.name === 'North Wall') ||
+        [...walls].sort((a, b) => b.scale.x - a.scale.x)[0];
+      if (!host) return;
+
+      addOpening(host.id, elementType);
+      playPlace();
+      return;
+    }
+
+    const center = currentRoom.floor.position;
 
-    const structuralObject = createObject({
-      type: elementType as any,
+    createObject({
+      type: 'wall',
       category: 'structure',
-      name: elementType.charAt(0).toUpperCase() + elementType.slice(1),
-      position,
-      scale: elementType === 'door' 
-        ? { x: 0.1, y: 2, z: 1 }
-        : elementType === 'window'
-        ? { x: 0.1, y: 1, z: 1.5 }
-        : { x: 0.2, y: 3, z: 1 },
+      name: 'Wall',
+      position: { x: center.x, y: 1.5, z: center.z },
+      scale: { x: 1, y: 3, z: 0.2 },
       rotation: { x: 0, y: 0, z: 0 },
       color: structuralElements.find(e => e.type === elementType)?.color || '#666666',
       room: currentRoom.id,
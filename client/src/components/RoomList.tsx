@@ -0,0 +1,101 @@
+import { useState } from "react";
+import { Card } from "./ui/card";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Pencil, Trash2 } from "lucide-react";
+import { useModeling } from "../lib/stores/useModeling";
+import { useAudio } from "../lib/stores/useAudio";
+
+export function RoomList() {
+  const { floorPlan, currentRoom, selectRoom, renameRoom, deleteRoom, getAdjacentRooms } = useModeling();
+  const { playHit } = useAudio();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const rooms = floorPlan?.rooms || [];
+  if (rooms.length === 0) return null;
+
+  const startRename = (roomId: string, name: string) => {
+    setEditingId(roomId);
+    setDraftName(name);
+  };
+
+  const commitRename = () => {
+    if (editingId) renameRoom(editingId, draftName);
+    setEditingId(null);
+  };
+
+  const handleDelete = (roomId: string) => {
+    deleteRoom(roomId);
+    playHit();
+  };
+
+  const neighbours = currentRoom ? getAdjacentRooms(currentRoom.id) : [];
+
+  return (
+    <Card className="bg-black/80 border-blue-500/30 backdrop-blur-sm">
+      <div className="p-3">
+        <h3 className="text-white font-semibold mb-3 text-sm">Rooms ({rooms.length})</h3>
+        <div className="space-y-1 max-h-48 overflow-y-auto">
+          {rooms.map(room => (
+            <div
+              key={room.id}
+              className={`flex items-center gap-1 rounded px-2 py-1 text-sm ${
+                room.id === currentRoom?.id ? 'bg-blue-600/30 text-white' : 'text-gray-300 hover:bg-gray-700/50'
+              }`}
+            >
+              {editingId === room.id ? (
+                <Input
+                  autoFocus
+                  value={draftName}
+                  onChange={(e) => setDraftName(e.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  className="h-6 px-1 bg-gray-800 border-gray-600 text-white text-sm"
+                />
+              ) : (
+                <button
+                  className="flex-1 text-left truncate"
+                  onClick={() => selectRoom(room.id)}
+                  onDoubleClick={() => startRename(room.id, room.name)}
+                  title={`${room.dimensions.width.toFixed(1)}m × ${room.dimensions.length.toFixed(1)}m`}
+                >
+                  {room.name}
+                </button>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0 text-gray-400 hover:text-white"
+                onClick={() => startRename(room.id, room.name)}
+                title="Rename room"
+              >
+                <Pencil size={12} />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0 text-gray-400 hover:text-red-400"
+                onClick={() => handleDelete(room.id)}
+                title="Delete room and its contents"
+              >
+                <Trash2 size={12} />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        {currentRoom && (
+          <p className="mt-2 text-xs text-gray-400">
+            {neighbours.length > 0
+              ? `Next to: ${neighbours.map(n => n.room.name).join(', ')}`
+              : 'No adjacent rooms'}
+          </p>
+        )}
+      </div>
+    </Card>
+  );
+}
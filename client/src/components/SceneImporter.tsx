@@ -0,0 +1,213 @@
+import { useState, useRef, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "./ui/dialog";
+import { Button } from "./ui/button";
+import { Card } from "./ui/card";
+import { ScrollArea } from "./ui/scroll-area";
+import { Alert, AlertDescription } from "./ui/alert";
+import { FileJson, Upload, AlertCircle, AlertTriangle, CheckCircle } from "lucide-react";
+import { useModeling } from "../lib/stores/useModeling";
+import { useAudio } from "../lib/stores/useAudio";
+import { readSceneDocument, releaseSceneAssets, SCENE_PACKAGE_EXTENSION, type SceneDocument } from "../lib/scenePackage";
+
+interface SceneImporterProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function SceneImporter({ isOpen, onClose }: SceneImporterProps) {
+  const [dragActive, setDragActive] = useState(false);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [result, setResult] = useState<SceneDocument | null>(null);
+  const [fatalError, setFatalError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { loadScene, setProject } = useModeling();
+  const { playSuccess, playHit } = useAudio();
+
+  // Packaged assets of a file that was read but not (yet) imported
+  const pendingRef = useRef<SceneDocument | null>(null);
+  const discardPending = () => {
+    if (pendingRef.current) releaseSceneAssets(pendingRef.current);
+    pendingRef.current = null;
+  };
+  useEffect(() => discardPending, []);
+
+  const handleFileSelect = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+
+    const file = files[0];
+    discardPending();
+    setFileName(file.name);
+    setResult(null);
+    setFatalError(null);
+
+    try {
+      const parsed = readSceneDocument(await file.text());
+      pendingRef.current = parsed;
+      setResult(parsed);
+      if (parsed.errors.length > 0) {
+        playHit();
+      }
+    } catch (error) {
+      setFatalError(error instanceof Error ? error.message : 'Could not read scene file');
+      playHit();
+    }
+  };
+
+  const applyImport = () => {
+    if (!result) return;
+
+    loadScene(result.scene, { undoable: true });
+    // The loaded scene uses the asset URLs now
+    pendingRef.current = null;
+    // An imported file is not the server project that may have been open
+    setProject(null, null);
+    playSuccess();
+    reset();
+    onClose();
+  };
+
+  const reset = () => {
+    setFileName(null);
+    setResult(null);
+    setFatalError(null);
+  };
+
+  const handleClose = () => {
+    discardPending();
+    reset();
+    onClose();
+  };
+
+  const handleDrag = (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.type === "dragenter" || e.type === "dragover") {
+      setDragActive(true);
+    } else if (e.type === "dragleave") {
+      setDragActive(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDragActive(false);
+
+    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
+      handleFileSelect(e.dataTransfer.files);
+    }
+  };
+
+  const importedCount = result?.scene.objects.length ?? 0;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="max-w-2xl max-h-[80vh] bg-gray-900 border-gray-700 text-white">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileJson className="text-blue-500" size={24} />
+            Import Scene
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {/* Upload Area */}
+          <div
+            className={`border-2 border-dashed rounded-lg p-8 text-center transition-colors ${
+              dragActive
+                ? 'border-blue-500 bg-blue-500/10'
+                : 'border-gray-600 hover:border-gray-500'
+            }`}
+            onDragEnter={handleDrag}
+            onDragLeave={handleDrag}
+            onDragOver={handleDrag}
+            onDrop={handleDrop}
+          >
+            <Upload className="mx-auto mb-4 text-gray-400" size={48} />
+            <h3 className="text-lg font-semibold mb-2">Drop an exported scene here</h3>
+            <p className="text-gray-400 mb-4">
+              Accepts .json scenes and {SCENE_PACKAGE_EXTENSION} packages with embedded models
+            </p>
+            <Button
+              onClick={() => fileInputRef.current?.click()}
+              variant="outline"
+              className="border-gray-600 text-gray-300 hover:bg-gray-700"
+            >
+              Browse Files
+            </Button>
+          </div>
+
+          <input
+            ref={fileInputRef}
+            type="file"
+            className="hidden"
+            accept={`.json,application/json,${SCENE_PACKAGE_EXTENSION}`}
+            onChange={(e) => handleFileSelect(e.target.files)}
+          />
+
+          {fatalError && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                {fileName}: {fatalError}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {result && (
+            <Card className="bg-black/50 border-blue-500/30 p-4 space-y-3">
+              <div className="flex items-center gap-2 text-sm">
+                <CheckCircle className="text-green-500" size={16} />
+                <span>
+                  {fileName} (v{result.version}): {importedCount} of {result.objectCount} objects readable
+                  {result.scene.currentRoom ? ', room restored' : ''}
+                  {result.scene.floorPlan ? ', floor plan restored' : ''}
+                </span>
+              </div>
+
+              {(result.errors.length > 0 || result.warnings.length > 0) && (
+                <ScrollArea className="h-40">
+                  <div className="space-y-1 pr-2 text-xs">
+                    {result.errors.map((issue, index) => (
+                      <div key={`e${index}`} className="flex gap-2 text-red-300">
+                        <AlertCircle size={14} className="flex-shrink-0 mt-0.5" />
+                        <span>
+                          <strong>{issue.path}{issue.name ? ` (${issue.name})` : ''}</strong> skipped: {issue.message}
+                        </span>
+                      </div>
+                    ))}
+                    {result.warnings.map((issue, index) => (
+                      <div key={`w${index}`} className="flex gap-2 text-yellow-300">
+                        <AlertTriangle size={14} className="flex-shrink-0 mt-0.5" />
+                        <span>
+                          <strong>{issue.path}{issue.name ? ` (${issue.name})` : ''}</strong>: {issue.message}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </ScrollArea>
+              )}
+
+              <div className="flex justify-end gap-2">
+                <Button
+                  variant="outline"
+                  onClick={handleClose}
+                  className="border-gray-600 text-gray-300 hover:bg-gray-700"
+                >
+                  Cancel
+                </Button>
+                <Button
+                  onClick={applyImport}
+                  disabled={importedCount === 0 && !result.scene.currentRoom}
+                  className="bg-blue-600 hover:bg-blue-700"
+                >
+                  Replace Scene
+                </Button>
+              </div>
+            </Card>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,63 @@
+import { Card } from "./ui/card";
+import { Magnet } from "lucide-react";
+import { useSnapping } from "../lib/stores/useSnapping";
+
+const inputClass = "w-16 rounded bg-gray-800 border border-gray-600 px-1 py-0.5 text-white disabled:opacity-50";
+
+// Snapping for moving and drawing in both views; Shift bypasses it while
+// dragging or drawing
+export function SnapPanel() {
+  const { grid, gridSize, angle, angleStep, walls, objects, setSnapSettings } = useSnapping();
+
+  return (
+    <Card className="bg-black/80 border-blue-500/30 backdrop-blur-sm">
+      <div className="p-3">
+        <h3 className="flex items-center gap-2 text-white font-semibold mb-3 text-sm">
+          <Magnet size={14} />
+          Snapping
+        </h3>
+        <div className="space-y-2">
+          <label className="flex items-center justify-between gap-2 text-xs text-gray-300">
+            <span className="flex items-center gap-2">
+              <input type="checkbox" checked={grid} onChange={(e) => setSnapSettings({ grid: e.target.checked })} />
+              Grid (m)
+            </span>
+            <input
+              type="number"
+              min="0.01"
+              step="0.05"
+              value={gridSize}
+              disabled={!grid}
+              onChange={(e) => setSnapSettings({ gridSize: Number(e.target.value) })}
+              className={inputClass}
+            />
+          </label>
+          <label className="flex items-center justify-between gap-2 text-xs text-gray-300">
+            <span className="flex items-center gap-2">
+              <input type="checkbox" checked={angle} onChange={(e) => setSnapSettings({ angle: e.target.checked })} />
+              Angle (°)
+            </span>
+            <input
+              type="number"
+              min="1"
+              max="90"
+              step="1"
+              value={angleStep}
+              disabled={!angle}
+              onChange={(e) => setSnapSettings({ angleStep: Number(e.target.value) })}
+              className={inputClass}
+            />
+          </label>
+          <label className="flex items-center gap-2 text-xs text-gray-300">
+            <input type="checkbox" checked={walls} onChange={(e) => setSnapSettings({ walls: e.target.checked })} />
+            Wall faces
+          </label>
+          <label className="flex items-center gap-2 text-xs text-gray-300">
+            <input type="checkbox" checked={objects} onChange={(e) => setSnapSettings({ objects: e.target.checked })} />
+            Object edges and centres
+          </label>
+        </div>
+      </div>
+    </Card>
+  );
+}
@@ -13,23 +13,37 @@ import {
   Move3D,
   RotateCw,
   Maximize2,
-  Download
+  Download,
+  Undo2,
+  Redo2,
+  Package
 } from "lucide-react";
 import { useModeling } from "../lib/stores/useModeling";
+import { downloadSceneFile } from "../lib/sceneFile";
+import { downloadScenePackage, SCENE_PACKAGE_EXTENSION } from "../lib/scenePackage";
 
 interface ToolbarProps {
   onShowAI: () => void;
   onShowImporter: () => void;
+  onShowSceneImporter?: () => void;
+  onShowModelExporter?: () => void;
 }
 
-export function Toolbar({ onShowAI, onShowImporter }: ToolbarProps) {
+export function Toolbar({ onShowAI, onShowImporter, onShowSceneImporter, onShowModelExporter }: ToolbarProps) {
   const { 
     createObject, 
     selectedObject, 
     objects, 
+    currentRoom,
+    floorPlan,
+    camera,
     clearScene, 
     duplicateObject,
-    deleteObject 
+    deleteObject,
+    undo,
+    redo,
+    past,
+    future
   } = useModeling();
 
   const createShape = (type: string, color: string = '#666666') => {
@@ -43,28 +57,17 @@ export function Toolbar({ onShowAI, onShowImporter }: ToolbarProps) {
   };
 
   const exportScene = () => {
-    const sceneData = {
-      objects: objects.map(obj => ({
-        ...obj,
-        // Don't export object URLs for imported models
-        modelPath: obj.type === 'imported' ? undefined : obj.modelPath
-      })),
-      timestamp: new Date().toISOString(),
-      version: '1.0'
-    };
-    
-    const blob = new Blob([JSON.stringify(sceneData, null, 2)], { 
-      type: 'application/json' 
-    });
-    
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `3d-scene-${Date.now()}.json`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    downloadSceneFile(
+      { objects, currentRoom, floorPlan, camera },
+      `3d-scene-${Date.now()}.json`
+    );
+  };
+
+  const exportPackage = () => {
+    downloadScenePackage(
+      { objects, currentRoom, floorPlan, camera },
+      `3d-scene-${Date.now()}${SCENE_PACKAGE_EXTENSION}`
+    ).catch(error => console.error('Scene packaging failed:', error));
   };
 
   return (
@@ -131,6 +134,37 @@ export function Toolbar({ onShowAI, onShowImporter }: ToolbarProps) {
         >
           <Download size={16} />
         </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={exportPackage}
+          className="text-gray-300 hover:text-white hover:bg-gray-700"
+          title="Export Package (with embedded models)"
+        >
+          <Save size={16} />
+        </Button>
+        {onShowSceneImporter && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onShowSceneImporter}
+            className="text-gray-300 hover:text-white hover:bg-gray-700"
+            title="Import Scene"
+          >
+            <FolderOpen size={16} />
+          </Button>
+        )}
+        {onShowModelExporter && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onShowModelExporter}
+            className="text-gray-300 hover:text-white hover:bg-gray-700"
+            title="Export 3D Model (GLB, glTF, OBJ, STL)"
+          >
+            <Package size={16} />
+          </Button>
+        )}
       </div>
 
       <Separator orientation="vertical" className="h-6 bg-gray-600" />
@@ -166,6 +200,26 @@ export function Toolbar({ onShowAI, onShowImporter }: ToolbarProps) {
 
       {/* Scene Tools */}
       <div className="flex items-center gap-1">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={undo}
+          className="text-gray-300 hover:text-white hover:bg-gray-700 disabled:opacity-50"
+          title="Undo (Ctrl+Z)"
+          disabled={past.length === 0}
+        >
+          <Undo2 size={16} />
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={redo}
+          className="text-gray-300 hover:text-white hover:bg-gray-700 disabled:opacity-50"
+          title="Redo (Ctrl+Shift+Z)"
+          disabled={future.length === 0}
+        >
+          <Redo2 size={16} />
+        </Button>
         <Button
           variant="ghost"
           size="sm"
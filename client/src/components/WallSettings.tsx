@@ -0,0 +1,37 @@
+import { useDrawing } from "../lib/stores/useDrawing";
+
+const inputClass = "w-16 rounded bg-gray-800 border border-gray-600 px-1 py-0.5 text-white";
+
+// Thickness and height for new walls, shared by the 2D and 3D wall tools
+export function WallSettings() {
+  const { wallThickness, wallHeight, setWallThickness, setWallHeight } = useDrawing();
+
+  return (
+    <div className="space-y-2">
+      <label className="flex items-center justify-between gap-2 text-xs text-gray-300">
+        Thickness (m)
+        <input
+          type="number"
+          min="0.05"
+          max="1"
+          step="0.05"
+          value={wallThickness}
+          onChange={(e) => setWallThickness(Number(e.target.value))}
+          className={inputClass}
+        />
+      </label>
+      <label className="flex items-center justify-between gap-2 text-xs text-gray-300">
+        Height (m)
+        <input
+          type="number"
+          min="0.5"
+          max="20"
+          step="0.1"
+          value={wallHeight}
+          onChange={(e) => setWallHeight(Number(e.target.value))}
+          className={inputClass}
+        />
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import { Card } from "./ui/card";
+import { Button } from "./ui/button";
+import { PenLine } from "lucide-react";
+import { useDrawing } from "../lib/stores/useDrawing";
+import { WallSettings } from "./WallSettings";
+
+// Wall tool controls for the 3D view; the 2D plan has its own in the Trace card
+export function WallToolPanel() {
+  const { tool, setTool } = useDrawing();
+  const active = tool === 'wall';
+
+  return (
+    <Card className="bg-black/80 border-blue-500/30 backdrop-blur-sm">
+      <div className="p-3 space-y-3">
+        <Button
+          variant={active ? 'default' : 'outline'}
+          size="sm"
+          onClick={() => setTool(active ? 'select' : 'wall')}
+          className={active
+            ? 'w-full bg-blue-600 text-white'
+            : 'w-full border-gray-600 text-gray-300 hover:border-blue-500'
+          }
+        >
+          <PenLine size={14} className="mr-2" />
+          {active ? 'Drawing Walls' : 'Draw Walls'}
+        </Button>
+
+        {active && (
+          <>
+            <WallSettings />
+            <p className="text-xs text-gray-400">
+              Click points on the ground. Double-click or Enter ends the chain, Escape leaves the tool. Hold Shift to place without snapping.
+            </p>
+          </>
+        )}
+      </div>
+    </Card>
+  );
+}
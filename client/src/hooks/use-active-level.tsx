@@ -0,0 +1,29 @@
+import * as React from "react"
+import { useModeling } from "../lib/stores/useModeling"
+import { isAboveLevel, listLevels, resolveLevel } from "../lib/levels"
+import { visibleObjects } from "../lib/visibility"
+
+// Levels bottom to top and the one being worked on
+export function useActiveLevel() {
+  const floorPlan = useModeling(state => state.floorPlan)
+  const activeLevelId = useModeling(state => state.activeLevelId)
+
+  return React.useMemo(() => {
+    const levels = listLevels(floorPlan)
+    return { levels, level: resolveLevel(levels, activeLevelId) }
+  }, [floorPlan, activeLevelId])
+}
+
+// Objects the 3D view shows: everything not hidden, or nothing above the
+// active level when upper levels are hidden
+export function useShownObjects() {
+  const objects = useModeling(state => state.objects)
+  const floorPlan = useModeling(state => state.floorPlan)
+  const hideUpperLevels = useModeling(state => state.hideUpperLevels)
+  const { levels, level } = useActiveLevel()
+
+  return React.useMemo(() => {
+    const visible = visibleObjects(objects, floorPlan)
+    return hideUpperLevels ? visible.filter(obj => !isAboveLevel(obj, level, levels)) : visible
+  }, [objects, floorPlan, hideUpperLevels, levels, level])
+}
@@ -0,0 +1,35 @@
+import * as React from "react"
+import { useGizmo, type GizmoMode } from "../lib/stores/useGizmo"
+
+const MODE_KEYS: Record<string, GizmoMode> = { g: "move", r: "rotate", s: "scale" }
+
+// G, R and S toggle the move, rotate and scale gizmos; L switches between
+// world and local axes; Escape puts the gizmo away
+export function useGizmoShortcuts() {
+  const setMode = useGizmo(state => state.setMode)
+  const setSpace = useGizmo(state => state.setSpace)
+
+  React.useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.ctrlKey || event.metaKey || event.altKey) return
+
+      const target = event.target as HTMLElement | null
+      if (target && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))) {
+        return
+      }
+
+      const key = event.key.toLowerCase()
+      const { mode, space } = useGizmo.getState()
+      if (key in MODE_KEYS) {
+        setMode(mode === MODE_KEYS[key] ? null : MODE_KEYS[key])
+      } else if (key === "l") {
+        setSpace(space === "world" ? "local" : "world")
+      } else if (key === "escape") {
+        setMode(null)
+      }
+    }
+
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [setMode, setSpace])
+}
@@ -0,0 +1,28 @@
+import * as React from "react"
+import { useModeling } from "../lib/stores/useModeling"
+
+// Ctrl/Cmd+G groups the selection; Ctrl/Cmd+Shift+G takes apart the
+// outermost groups it is in
+export function useGroupShortcuts() {
+  React.useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== "g") return
+
+      const target = event.target as HTMLElement | null
+      if (target && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))) {
+        return
+      }
+
+      event.preventDefault()
+      const { selectedIds, groupObjects, ungroupObjects } = useModeling.getState()
+      if (event.shiftKey) {
+        ungroupObjects(selectedIds)
+      } else {
+        groupObjects(selectedIds)
+      }
+    }
+
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [])
+}
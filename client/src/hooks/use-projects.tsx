@@ -0,0 +1,47 @@
+import { useMutation, useQuery } from "@tanstack/react-query"
+import type { InsertProject, Project, ProjectSummary, UpdateProject } from "@shared/schema"
+import { apiRequest, queryClient } from "../lib/queryClient"
+
+const PROJECTS_KEY = "/api/projects"
+
+export function useProjects(enabled = true) {
+  return useQuery<ProjectSummary[]>({
+    queryKey: [PROJECTS_KEY],
+    enabled,
+  })
+}
+
+export function useCreateProject() {
+  return useMutation({
+    mutationFn: async (project: InsertProject) => {
+      const res = await apiRequest("POST", PROJECTS_KEY, project)
+      return (await res.json()) as Project
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: [PROJECTS_KEY] }),
+  })
+}
+
+export function useUpdateProject() {
+  return useMutation({
+    mutationFn: async ({ id, updates }: { id: number; updates: UpdateProject }) => {
+      const res = await apiRequest("PUT", `${PROJECTS_KEY}/${id}`, updates)
+      return (await res.json()) as Project
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: [PROJECTS_KEY] }),
+  })
+}
+
+export function useDeleteProject() {
+  return useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `${PROJECTS_KEY}/${id}`)
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: [PROJECTS_KEY] }),
+  })
+}
+
+// Full projects are fetched on demand when opening, not cached in the list
+export async function fetchProject(id: number): Promise<Project> {
+  const res = await apiRequest("GET", `${PROJECTS_KEY}/${id}`)
+  return (await res.json()) as Project
+}
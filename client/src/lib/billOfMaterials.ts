@@ -0,0 +1,175 @@
+import type { FloorPlan, ModelingObject } from "../types/modeling";
+import { downloadBlob } from "./utils";
+import { computeQuantities, csvCell, formatQuantity } from "./quantities";
+import {
+  catalogItem,
+  flooringKey,
+  formatMoney,
+  furnitureKey,
+  priceOf,
+  type CatalogUnit,
+  type CurrencyCode
+} from "./costCatalog";
+import { createTextPdf } from "./pdf";
+
+export interface BomLine {
+  description: string;
+  quantity: number;
+  unit: CatalogUnit;
+  unitPrice: number;
+  total: number;
+}
+
+export interface BomGroup {
+  // null for objects not assigned to a room
+  roomId: string | null;
+  name: string;
+  lines: BomLine[];
+  subtotal: number;
+}
+
+export interface BillOfMaterials {
+  groups: BomGroup[];
+  total: number;
+  currency: CurrencyCode;
+}
+
+const line = (description: string, quantity: number, unit: CatalogUnit, unitPrice: number): BomLine =>
+  ({ description, quantity, unit, unitPrice, total: quantity * unitPrice });
+
+// Pieces of the same kind and price collapse into one line
+function countedLines(items: { description: string; unitPrice: number }[]): BomLine[] {
+  const lines = new Map<string, BomLine>();
+  items.forEach(({ description, unitPrice }) => {
+    const key = `${description}|${unitPrice}`;
+    const existing = lines.get(key);
+    lines.set(key, existing
+      ? line(description, existing.quantity + 1, 'pc', unitPrice)
+      : line(description, 1, 'pc', unitPrice));
+  });
+  return Array.from(lines.values());
+}
+
+function pieceLines(objects: ModelingObject[], overrides: Record<string, number>): BomLine[] {
+  return countedLines(objects.flatMap(obj => {
+    if (obj.type === 'furniture') {
+      const key = furnitureKey(obj.subtype);
+      // Rendering-only materials (standard, phong...) have no factor
+      const material = obj.material && catalogItem(`material:${obj.material}`);
+      const factor = material ? priceOf(material.key, overrides) : 1;
+      return [{
+        description: `${catalogItem(key)!.label}${material ? ` (${material.label.toLowerCase()})` : ''}`,
+        unitPrice: priceOf(key, overrides) * factor
+      }];
+    }
+    if (obj.type === 'door' || obj.type === 'window') {
+      const key = `opening:${obj.type}`;
+      return [{ description: catalogItem(key)!.label, unitPrice: priceOf(key, overrides) }];
+    }
+    if (obj.type === 'stairs') {
+      return [{ description: catalogItem('structure:stairs')!.label, unitPrice: priceOf('structure:stairs', overrides) }];
+    }
+    return [];
+  }));
+}
+
+const group = (roomId: string | null, name: string, lines: BomLine[]): BomGroup => ({
+  roomId,
+  name,
+  lines: lines.filter(l => l.quantity > 0),
+  subtotal: lines.reduce((sum, l) => sum + l.total, 0)
+});
+
+// Furniture, openings and stairs by the piece; flooring, wall paint and
+// ceilings by the area the quantity take-off measures
+export function computeBillOfMaterials(
+  objects: ModelingObject[],
+  floorPlan: FloorPlan | null,
+  overrides: Record<string, number>,
+  currency: CurrencyCode
+): BillOfMaterials {
+  const quantities = computeQuantities(objects, floorPlan);
+  const rooms = floorPlan?.rooms || [];
+  const roomIds = new Set(rooms.map(room => room.id));
+
+  const groups = quantities.rooms.map(room => {
+    const tagged = objects.filter(obj => obj.room === room.roomId);
+    const floor = tagged.find(obj => obj.type === 'floor');
+    const hasCeiling = tagged.some(obj => obj.type === 'ceiling');
+    const flooring = flooringKey(floor?.material);
+
+    return group(room.roomId, room.name, [
+      line(catalogItem(flooring)!.label, room.floorArea, 'm²', priceOf(flooring, overrides)),
+      line(catalogItem('finish:paint')!.label, room.netWallArea, 'm²', priceOf('finish:paint', overrides)),
+      ...(hasCeiling
+        ? [line(catalogItem('finish:ceiling')!.label, room.ceilingArea, 'm²', priceOf('finish:ceiling', overrides))]
+        : []),
+      ...pieceLines(tagged, overrides)
+    ]);
+  });
+
+  const unassigned = group(null, 'Unassigned', pieceLines(
+    objects.filter(obj => !obj.room || !roomIds.has(obj.room)),
+    overrides
+  ));
+  if (unassigned.lines.length) groups.push(unassigned);
+
+  return {
+    groups,
+    total: groups.reduce((sum, g) => sum + g.subtotal, 0),
+    currency
+  };
+}
+
+export function billOfMaterialsToCsv(bom: BillOfMaterials): string {
+  const rows: (string | number)[][] = [
+    ['Room', 'Item', 'Quantity', 'Unit', `Unit price (${bom.currency})`, `Total (${bom.currency})`]
+  ];
+  bom.groups.forEach(g => {
+    g.lines.forEach(l => rows.push([g.name, l.description, l.quantity, l.unit, l.unitPrice, l.total]));
+    rows.push([g.name, 'Subtotal', '', '', '', g.subtotal]);
+  });
+  rows.push(['', 'Total', '', '', '', bom.total]);
+
+  return rows.map(row => row.map(csvCell).join(',')).join('\n') + '\n';
+}
+
+// Fixed-width text for the PDF, which is set in a monospaced font
+const pad = (text: string, width: number, right = false) => {
+  const clipped = text.length > width ? `${text.slice(0, width - 1)}~` : text;
+  return right ? clipped.padStart(width) : clipped.padEnd(width);
+};
+
+export function billOfMaterialsToPdf(bom: BillOfMaterials, title: string): Blob {
+  // The PDF's standard font has neither ₹ nor ²
+  const money = (value: number) => formatMoney(value, bom.currency, 'code');
+  const row = (item: string, quantity: string, unit: string, price: string, total: string) =>
+    `${pad(item, 34)} ${pad(quantity, 9, true)} ${pad(unit, 3)} ${pad(price, 16, true)} ${pad(total, 18, true)}`;
+
+  const lines: { text: string; bold?: boolean }[] = [
+    { text: title, bold: true },
+    { text: `Prepared ${new Date().toLocaleDateString()} - prices in ${bom.currency}` },
+    { text: '' }
+  ];
+
+  bom.groups.forEach(g => {
+    lines.push({ text: g.name, bold: true });
+    lines.push({ text: row('Item', 'Qty', '', 'Unit price', 'Total') });
+    g.lines.forEach(l => lines.push({
+      text: row(l.description, formatQuantity(l.quantity), l.unit.replace('²', '2'), money(l.unitPrice), money(l.total))
+    }));
+    lines.push({ text: row('Subtotal', '', '', '', money(g.subtotal)), bold: true });
+    lines.push({ text: '' });
+  });
+  lines.push({ text: row('TOTAL', '', '', '', money(bom.total)), bold: true });
+
+  return createTextPdf(lines);
+}
+
+export function downloadBillOfMaterials(bom: BillOfMaterials, format: 'csv' | 'pdf', baseName: string) {
+  if (format === 'csv') {
+    downloadBlob(new Blob([billOfMaterialsToCsv(bom)], { type: 'text/csv' }), `${baseName}.csv`);
+  } else {
+    downloadBlob(billOfMaterialsToPdf(bom, 'Cost Estimate'), `${baseName}.pdf`);
+  }
+}
@@ -0,0 +1,518 @@
+// Wall and room detection for scanned or exported floor plans. Everything in
+// here is plain array math on RGBA pixels so it can run inside a worker.
+//
+// Pipeline: grayscale -> Otsu threshold -> morphological opening (drops text,
+// dimension lines and door arcs thinner than a wall) -> horizontal/vertical
+// run merging into wall segments -> flood fill of the free space with door
+// gaps temporarily closed -> traced, simplified room outlines.
+//
+// Only axis-aligned walls are extracted as segments; rooms bounded by angled
+// walls are still found, since room detection works on the pixel mask.
+
+export interface BlueprintImage {
+  width: number;
+  height: number;
+  // RGBA, same layout as ImageData.data
+  data: Uint8ClampedArray;
+}
+
+export interface PlanPoint {
+  x: number;
+  y: number;
+}
+
+export interface DetectedWall {
+  start: PlanPoint;
+  end: PlanPoint;
+  thickness: number;
+}
+
+export interface DetectedRoom {
+  polygon: PlanPoint[];
+  area: number;
+  centroid: PlanPoint;
+  bounds: { minX: number; minY: number; maxX: number; maxY: number };
+  // Indices into BlueprintAnalysis.walls
+  wallIndices: number[];
+}
+
+// All measurements in pixels of the analyzed image
+export interface BlueprintAnalysis {
+  width: number;
+  height: number;
+  threshold: number;
+  walls: DetectedWall[];
+  rooms: DetectedRoom[];
+}
+
+export interface BlueprintAnalysisOptions {
+  // Strokes thinner than this are not walls
+  minWallThickness?: number;
+  minWallLength?: number;
+  // Openings up to this wide (doors) are closed when separating rooms
+  maxDoorWidth?: number;
+  minRoomArea?: number;
+}
+
+// Same data converted to meters on the ground plane, image centre at origin
+export interface PlanWall {
+  start: { x: number; z: number };
+  end: { x: number; z: number };
+  thickness: number;
+}
+
+export interface PlanRoom {
+  name: string;
+  polygon: { x: number; z: number }[];
+  center: { x: number; z: number };
+  width: number;
+  length: number;
+  area: number;
+  wallIndices: number[];
+}
+
+export interface BlueprintLayout {
+  walls: PlanWall[];
+  rooms: PlanRoom[];
+}
+
+function resolveOptions(image: BlueprintImage, options: BlueprintAnalysisOptions) {
+  const size = Math.max(image.width, image.height);
+  const minWallThickness = options.minWallThickness ?? Math.max(2, Math.round(size / 300));
+  const maxDoorWidth = options.maxDoorWidth ?? Math.round(size / 12);
+
+  return {
+    minWallThickness,
+    minWallLength: options.minWallLength ?? Math.max(minWallThickness * 3, Math.round(size / 25)),
+    maxDoorWidth,
+    minRoomArea: options.minRoomArea ?? maxDoorWidth * maxDoorWidth * 2
+  };
+}
+
+function toGrayscale(image: BlueprintImage): Uint8Array {
+  const gray = new Uint8Array(image.width * image.height);
+  for (let i = 0, p = 0; i < gray.length; i++, p += 4) {
+    // Transparent pixels count as paper
+    gray[i] = image.data[p + 3] < 128
+      ? 255
+      : Math.round(0.299 * image.data[p] + 0.587 * image.data[p + 1] + 0.114 * image.data[p + 2]);
+  }
+  return gray;
+}
+
+export function otsuThreshold(gray: Uint8Array): number {
+  const histogram = new Array<number>(256).fill(0);
+  gray.forEach(value => histogram[value]++);
+
+  let total = 0;
+  for (let i = 0; i < 256; i++) total += i * histogram[i];
+
+  let background = 0;
+  let backgroundSum = 0;
+  let bestVariance = -1;
+  let best = 127;
+
+  for (let t = 0; t < 256; t++) {
+    background += histogram[t];
+    if (background === 0) continue;
+    const foreground = gray.length - background;
+    if (foreground === 0) break;
+
+    backgroundSum += t * histogram[t];
+    const meanBackground = backgroundSum / background;
+    const meanForeground = (total - backgroundSum) / foreground;
+    const variance = background * foreground * (meanBackground - meanForeground) ** 2;
+
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      best = t;
+    }
+  }
+
+  return best;
+}
+
+// Separable square erosion/dilation on a 0/1 mask using sliding window counts
+function morph(mask: Uint8Array, width: number, height: number, radius: number, erode: boolean): Uint8Array {
+  if (radius <= 0) return mask.slice();
+
+  const pass = (src: Uint8Array, horizontal: boolean) => {
+    const out = new Uint8Array(src.length);
+    const lines = horizontal ? height : width;
+    const length = horizontal ? width : height;
+    const index = (line: number, i: number) => horizontal ? line * width + i : i * width + line;
+
+    for (let line = 0; line < lines; line++) {
+      let count = 0;
+      // Window [i - radius, i + radius]; out-of-bounds counts as background
+      for (let i = 0; i < Math.min(radius, length); i++) count += src[index(line, i)];
+
+      for (let i = 0; i < length; i++) {
+        const enter = i + radius;
+        const leave = i - radius - 1;
+        if (enter < length) count += src[index(line, enter)];
+        if (leave >= 0) count -= src[index(line, leave)];
+
+        out[index(line, i)] = erode
+          ? (count === radius * 2 + 1 ? 1 : 0)
+          : (count > 0 ? 1 : 0);
+      }
+    }
+    return out;
+  };
+
+  return pass(pass(mask, true), false);
+}
+
+// Runs of ink along rows (or columns) that line up closely enough are merged
+// into one thick stroke; strokes much longer than thick become walls.
+function extractSegments(
+  mask: Uint8Array,
+  width: number,
+  height: number,
+  horizontal: boolean,
+  minLength: number,
+  minThickness: number
+): DetectedWall[] {
+  const lines = horizontal ? height : width;
+  const length = horizontal ? width : height;
+  const at = (line: number, i: number) => mask[horizontal ? line * width + i : i * width + line];
+  const tolerance = minThickness;
+
+  interface Stroke { from: number; to: number; first: number; last: number }
+  let active: Stroke[] = [];
+  const finished: Stroke[] = [];
+
+  for (let line = 0; line < lines; line++) {
+    const runs: [number, number][] = [];
+    let runStart = -1;
+    for (let i = 0; i <= length; i++) {
+      const ink = i < length && at(line, i) === 1;
+      if (ink && runStart < 0) runStart = i;
+      if (!ink && runStart >= 0) {
+        if (i - runStart >= minLength) runs.push([runStart, i - 1]);
+        runStart = -1;
+      }
+    }
+
+    const next: Stroke[] = [];
+    runs.forEach(([from, to]) => {
+      const index = active.findIndex(stroke =>
+        Math.abs(stroke.from - from) <= tolerance && Math.abs(stroke.to - to) <= tolerance
+      );
+      if (index >= 0) {
+        const stroke = active.splice(index, 1)[0];
+        next.push({ from: Math.min(stroke.from, from), to: Math.max(stroke.to, to), first: stroke.first, last: line });
+      } else {
+        next.push({ from, to, first: line, last: line });
+      }
+    });
+
+    finished.push(...active);
+    active = next;
+  }
+  finished.push(...active);
+
+  return finished
+    .filter(stroke => {
+      const thickness = stroke.last - stroke.first + 1;
+      return thickness >= minThickness && stroke.to - stroke.from + 1 >= thickness * 2;
+    })
+    .map(stroke => {
+      const thickness = stroke.last - stroke.first + 1;
+      const center = (stroke.first + stroke.last + 1) / 2;
+      return horizontal
+        ? { start: { x: stroke.from, y: center }, end: { x: stroke.to + 1, y: center }, thickness }
+        : { start: { x: center, y: stroke.from }, end: { x: center, y: stroke.to + 1 }, thickness };
+    });
+}
+
+// Labels the free space into regions. Door gaps are closed by dilating the
+// walls first; regions are then grown back to the real wall faces.
+function labelRegions(walls: Uint8Array, width: number, height: number, gapRadius: number) {
+  const closed = morph(walls, width, height, gapRadius, false);
+  const labels = new Int32Array(width * height);
+  const sizes: number[] = [0];
+  const touchesBorder: boolean[] = [false];
+  const queue = new Int32Array(width * height);
+
+  for (let seed = 0; seed < labels.length; seed++) {
+    if (closed[seed] || labels[seed]) continue;
+
+    const label = sizes.length;
+    let head = 0;
+    let tail = 0;
+    let size = 0;
+    let border = false;
+    queue[tail++] = seed;
+    labels[seed] = label;
+
+    while (head < tail) {
+      const p = queue[head++];
+      size++;
+      const x = p % width;
+      const y = (p - x) / width;
+      if (x === 0 || y === 0 || x === width - 1 || y === height - 1) border = true;
+
+      const neighbors = [x > 0 ? p - 1 : -1, x < width - 1 ? p + 1 : -1, y > 0 ? p - width : -1, y < height - 1 ? p + width : -1];
+      for (const n of neighbors) {
+        if (n >= 0 && !closed[n] && !labels[n]) {
+          labels[n] = label;
+          queue[tail++] = n;
+        }
+      }
+    }
+
+    sizes.push(size);
+    touchesBorder.push(border);
+  }
+
+  // Multi-source BFS back into the pixels the dilation took away
+  let head = 0;
+  let tail = 0;
+  const distance = new Int32Array(width * height);
+  for (let p = 0; p < labels.length; p++) {
+    if (labels[p]) queue[tail++] = p;
+  }
+  while (head < tail) {
+    const p = queue[head++];
+    if (distance[p] > gapRadius) continue;
+    const x = p % width;
+    // 8-connected so the grown regions keep square corners, like the kernel
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        if ((dx === 0 && dy === 0) || x + dx < 0 || x + dx >= width) continue;
+        const n = p + dy * width + dx;
+        if (n < 0 || n >= labels.length || walls[n] || labels[n]) continue;
+
+        labels[n] = labels[p];
+        distance[n] = distance[p] + 1;
+        sizes[labels[p]]++;
+        queue[tail++] = n;
+      }
+    }
+  }
+
+  return { labels, sizes, touchesBorder };
+}
+
+// Moore-neighbour contour tracing of the outer boundary of one label
+const MOORE: [number, number][] = [[-1, 0], [-1, -1], [0, -1], [1, -1], [1, 0], [1, 1], [0, 1], [-1, 1]];
+
+function traceContour(labels: Int32Array, width: number, height: number, label: number, start: number): PlanPoint[] {
+  const inside = (x: number, y: number) =>
+    x >= 0 && y >= 0 && x < width && y < height && labels[y * width + x] === label;
+
+  const startX = start % width;
+  const startY = (start - startX) / width;
+  const contour: PlanPoint[] = [{ x: startX, y: startY }];
+
+  // Raster scan found the start, so its west neighbour is outside
+  let cx = startX;
+  let cy = startY;
+  let bx = startX - 1;
+  let by = startY;
+  const limit = labels.length * 4;
+
+  for (let step = 0; step < limit; step++) {
+    const backDir = MOORE.findIndex(([dx, dy]) => dx === bx - cx && dy === by - cy);
+    let found = false;
+
+    for (let i = 1; i <= 8; i++) {
+      const dir = (backDir + i) % 8;
+      const nx = cx + MOORE[dir][0];
+      const ny = cy + MOORE[dir][1];
+      if (inside(nx, ny)) {
+        const prev = MOORE[(dir + 7) % 8];
+        bx = cx + prev[0];
+        by = cy + prev[1];
+        cx = nx;
+        cy = ny;
+        found = true;
+        break;
+      }
+    }
+
+    if (!found) break;
+    // Jacob's stopping criterion: back at the start, entered the same way
+    if (cx === startX && cy === startY && bx === startX - 1 && by === startY) break;
+    contour.push({ x: cx, y: cy });
+  }
+
+  return contour;
+}
+
+function distanceToSegment(p: PlanPoint, a: PlanPoint, b: PlanPoint): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+}
+
+function douglasPeucker(points: PlanPoint[], epsilon: number): PlanPoint[] {
+  if (points.length < 3) return points;
+
+  let maxDistance = 0;
+  let index = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    const d = distanceToSegment(points[i], points[0], points[points.length - 1]);
+    if (d > maxDistance) {
+      maxDistance = d;
+      index = i;
+    }
+  }
+
+  if (maxDistance <= epsilon) return [points[0], points[points.length - 1]];
+
+  const left = douglasPeucker(points.slice(0, index + 1), epsilon);
+  const right = douglasPeucker(points.slice(index), epsilon);
+  return [...left.slice(0, -1), ...right];
+}
+
+export function simplifyPolygon(contour: PlanPoint[], epsilon: number): PlanPoint[] {
+  if (contour.length < 4) return contour;
+
+  // Split the ring at the point farthest from the start so both halves are open chains
+  let far = 0;
+  let farDistance = 0;
+  contour.forEach((p, i) => {
+    const d = Math.hypot(p.x - contour[0].x, p.y - contour[0].y);
+    if (d > farDistance) {
+      farDistance = d;
+      far = i;
+    }
+  });
+
+  const first = douglasPeucker(contour.slice(0, far + 1), epsilon);
+  const second = douglasPeucker([...contour.slice(far), contour[0]], epsilon);
+  return [...first.slice(0, -1), ...second.slice(0, -1)];
+}
+
+export function polygonArea(polygon: PlanPoint[]): number {
+  let sum = 0;
+  for (let i = 0; i < polygon.length; i++) {
+    const a = polygon[i];
+    const b = polygon[(i + 1) % polygon.length];
+    sum += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(sum) / 2;
+}
+
+// A wall bounds a room when one of the outline's edges runs along the wall's
+// face: both edge ends close to the wall's line, and the two overlapping.
+function wallsAroundRoom(polygon: PlanPoint[], walls: DetectedWall[], tolerance: number): number[] {
+  return walls
+    .map((wall, index) => ({ wall, index }))
+    .filter(({ wall }) => {
+      const length = Math.hypot(wall.end.x - wall.start.x, wall.end.y - wall.start.y);
+      if (length === 0) return false;
+
+      const ux = (wall.end.x - wall.start.x) / length;
+      const uy = (wall.end.y - wall.start.y) / length;
+      const reach = wall.thickness / 2 + tolerance;
+      const along = (p: PlanPoint) => (p.x - wall.start.x) * ux + (p.y - wall.start.y) * uy;
+      const across = (p: PlanPoint) => Math.abs((p.x - wall.start.x) * uy - (p.y - wall.start.y) * ux);
+
+      return polygon.some((a, i) => {
+        const b = polygon[(i + 1) % polygon.length];
+        if (across(a) > reach || across(b) > reach) return false;
+
+        const overlap = Math.min(Math.max(along(a), along(b)), length) - Math.max(Math.min(along(a), along(b)), 0);
+        return overlap > tolerance;
+      });
+    })
+    .map(({ index }) => index);
+}
+
+export function analyzeBlueprint(image: BlueprintImage, options: BlueprintAnalysisOptions = {}): BlueprintAnalysis {
+  const { width, height } = image;
+  const settings = resolveOptions(image, options);
+
+  const gray = toGrayscale(image);
+  const threshold = otsuThreshold(gray);
+  const ink = new Uint8Array(gray.length);
+  for (let i = 0; i < gray.length; i++) ink[i] = gray[i] <= threshold ? 1 : 0;
+
+  const radius = Math.floor(settings.minWallThickness / 2);
+  const walls = morph(morph(ink, width, height, radius, true), width, height, radius, false);
+
+  const segments = [
+    ...extractSegments(walls, width, height, true, settings.minWallLength, settings.minWallThickness),
+    ...extractSegments(walls, width, height, false, settings.minWallLength, settings.minWallThickness)
+  ];
+
+  const gapRadius = Math.ceil(settings.maxDoorWidth / 2);
+  const { labels, sizes, touchesBorder } = labelRegions(walls, width, height, gapRadius);
+
+  const firstPixel = new Int32Array(sizes.length).fill(-1);
+  for (let p = 0; p < labels.length; p++) {
+    if (labels[p] && firstPixel[labels[p]] < 0) firstPixel[labels[p]] = p;
+  }
+
+  const rooms: DetectedRoom[] = [];
+  for (let label = 1; label < sizes.length; label++) {
+    // Anything connected to the image border is outside the building
+    if (touchesBorder[label] || sizes[label] < settings.minRoomArea) continue;
+
+    const contour = traceContour(labels, width, height, label, firstPixel[label]);
+    const polygon = simplifyPolygon(contour, Math.max(1.5, settings.minWallThickness / 2));
+    if (polygon.length < 3) continue;
+
+    const xs = polygon.map(p => p.x);
+    const ys = polygon.map(p => p.y);
+    let cx = 0;
+    let cy = 0;
+    let signedArea = 0;
+    polygon.forEach((a, i) => {
+      const b = polygon[(i + 1) % polygon.length];
+      const cross = a.x * b.y - b.x * a.y;
+      signedArea += cross;
+      cx += (a.x + b.x) * cross;
+      cy += (a.y + b.y) * cross;
+    });
+    signedArea /= 2;
+
+    rooms.push({
+      polygon,
+      area: sizes[label],
+      centroid: signedArea !== 0
+        ? { x: cx / (6 * signedArea), y: cy / (6 * signedArea) }
+        : { x: (Math.min(...xs) + Math.max(...xs)) / 2, y: (Math.min(...ys) + Math.max(...ys)) / 2 },
+      bounds: { minX: Math.min(...xs), minY: Math.min(...ys), maxX: Math.max(...xs) + 1, maxY: Math.max(...ys) + 1 },
+      wallIndices: wallsAroundRoom(polygon, segments, settings.minWallThickness * 2)
+    });
+  }
+
+  // Largest first, so the main space becomes the current room
+  rooms.sort((a, b) => b.area - a.area);
+
+  return { width, height, threshold, walls: segments, rooms };
+}
+
+export function buildBlueprintLayout(analysis: BlueprintAnalysis, pixelsPerMeter: number): BlueprintLayout {
+  const toPlan = (p: PlanPoint) => ({
+    x: (p.x - analysis.width / 2) / pixelsPerMeter,
+    z: (p.y - analysis.height / 2) / pixelsPerMeter
+  });
+
+  return {
+    walls: analysis.walls.map(wall => ({
+      start: toPlan(wall.start),
+      end: toPlan(wall.end),
+      thickness: wall.thickness / pixelsPerMeter
+    })),
+    rooms: analysis.rooms.map((room, index) => ({
+      name: `Room ${index + 1}`,
+      polygon: room.polygon.map(toPlan),
+      center: toPlan({
+        x: (room.bounds.minX + room.bounds.maxX) / 2,
+        y: (room.bounds.minY + room.bounds.maxY) / 2
+      }),
+      width: (room.bounds.maxX - room.bounds.minX) / pixelsPerMeter,
+      length: (room.bounds.maxY - room.bounds.minY) / pixelsPerMeter,
+      area: room.area / (pixelsPerMeter * pixelsPerMeter),
+      wallIndices: room.wallIndices
+    }))
+  };
+}
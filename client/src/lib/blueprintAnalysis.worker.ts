@@ -0,0 +1,14 @@
+import { analyzeBlueprint, type BlueprintAnalysisOptions, type BlueprintImage } from "./blueprintAnalysis";
+
+export interface BlueprintWorkerRequest {
+  image: BlueprintImage;
+  options?: BlueprintAnalysisOptions;
+}
+
+self.onmessage = (event: MessageEvent<BlueprintWorkerRequest>) => {
+  try {
+    self.postMessage({ ok: true, analysis: analyzeBlueprint(event.data.image, event.data.options) });
+  } catch (error) {
+    self.postMessage({ ok: false, error: error instanceof Error ? error.message : 'Blueprint analysis failed' });
+  }
+};
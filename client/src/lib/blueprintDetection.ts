@@ -0,0 +1,80 @@
+import {
+  analyzeBlueprint,
+  type BlueprintAnalysis,
+  type BlueprintAnalysisOptions,
+  type BlueprintImage
+} from "./blueprintAnalysis";
+import type { BlueprintWorkerRequest } from "./blueprintAnalysis.worker";
+
+// Large scans are downsampled first; wall detection doesn't need more detail
+// and the pixel passes stay fast enough to feel interactive.
+export const MAX_ANALYSIS_SIZE = 1000;
+
+export interface LoadedBlueprint {
+  image: BlueprintImage;
+  // Size of the original file; analysis pixels * this = original pixels
+  naturalWidth: number;
+  naturalHeight: number;
+  downscale: number;
+}
+
+export async function loadBlueprintImage(url: string, maxSize = MAX_ANALYSIS_SIZE): Promise<LoadedBlueprint> {
+  const img = new Image();
+  img.src = url;
+  try {
+    await img.decode();
+  } catch {
+    throw new Error('Blueprint could not be decoded as an image');
+  }
+
+  const downscale = Math.max(1, Math.max(img.naturalWidth, img.naturalHeight) / maxSize);
+  const width = Math.round(img.naturalWidth / downscale);
+  const height = Math.round(img.naturalHeight / downscale);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas is not available');
+
+  // Paper white behind transparent PNGs
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(img, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+
+  return {
+    image: { width, height, data },
+    naturalWidth: img.naturalWidth,
+    naturalHeight: img.naturalHeight,
+    downscale
+  };
+}
+
+// Runs in a worker so the dialog stays responsive; falls back to the main
+// thread where workers are unavailable.
+export function detectBlueprint(image: BlueprintImage, options?: BlueprintAnalysisOptions): Promise<BlueprintAnalysis> {
+  if (typeof Worker === 'undefined') {
+    return Promise.resolve(analyzeBlueprint(image, options));
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./blueprintAnalysis.worker.ts', import.meta.url), { type: 'module' });
+
+    worker.onmessage = (event: MessageEvent<{ ok: boolean; analysis?: BlueprintAnalysis; error?: string }>) => {
+      worker.terminate();
+      if (event.data.ok && event.data.analysis) {
+        resolve(event.data.analysis);
+      } else {
+        reject(new Error(event.data.error || 'Blueprint analysis failed'));
+      }
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'Blueprint analysis failed'));
+    };
+
+    const request: BlueprintWorkerRequest = { image, options };
+    worker.postMessage(request);
+  });
+}
@@ -0,0 +1,53 @@
+import type { FloorPlan } from "../types/modeling";
+
+// Until the user measures something we assume the drawing is this wide
+export const DEFAULT_BLUEPRINT_WIDTH_METERS = 20;
+
+export interface ImagePoint {
+  x: number;
+  y: number;
+}
+
+export const LENGTH_UNITS = {
+  m: { label: 'm', meters: 1 },
+  cm: { label: 'cm', meters: 0.01 },
+  mm: { label: 'mm', meters: 0.001 },
+  ft: { label: 'ft', meters: 0.3048 },
+  in: { label: 'in', meters: 0.0254 }
+} as const;
+
+export type LengthUnit = keyof typeof LENGTH_UNITS;
+
+export function pixelsPerMeterFromMeasurement(a: ImagePoint, b: ImagePoint, distance: number, unit: LengthUnit = 'm'): number {
+  const meters = distance * LENGTH_UNITS[unit].meters;
+  const pixels = Math.hypot(b.x - a.x, b.y - a.y);
+  if (!(meters > 0) || pixels === 0) {
+    throw new Error('Pick two different points and enter a distance greater than zero');
+  }
+  return pixels / meters;
+}
+
+// Real-world extent of the whole blueprint image
+export function planDimensions(imageSize: { width: number; height: number }, pixelsPerMeter: number) {
+  return {
+    width: imageSize.width / pixelsPerMeter,
+    length: imageSize.height / pixelsPerMeter
+  };
+}
+
+// Analysis runs on a downsampled copy, so its pixels are larger
+export function analysisPixelsPerMeter(floorPlan: FloorPlan, analysisWidth: number): number {
+  const naturalWidth = floorPlan.imageSize?.width ?? analysisWidth;
+  return floorPlan.scale * analysisWidth / naturalWidth;
+}
+
+export async function readImageSize(file: Blob): Promise<{ width: number; height: number } | undefined> {
+  try {
+    const bitmap = await createImageBitmap(file);
+    const size = { width: bitmap.width, height: bitmap.height };
+    bitmap.close();
+    return size;
+  } catch {
+    return undefined;
+  }
+}
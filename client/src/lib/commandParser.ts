@@ -1,5 +1,5 @@
 export interface CommandAction {
-  type: 'create' | 'modify' | 'select' | 'delete' | 'clear';
+  type: 'create' | 'modify' | 'select' | 'delete' | 'clear' | 'undo' | 'redo';
   shape?: string;
   color?: string;
   position?: { x: number; y: number; z: number };
@@ -99,6 +99,18 @@ export function parseCommand(command: string): CommandResult {
           action: { type: 'clear' } 
         };
       
+      case 'undo':
+        return {
+          success: true,
+          action: { type: 'undo' }
+        };
+      
+      case 'redo':
+        return {
+          success: true,
+          action: { type: 'redo' }
+        };
+      
       default:
         // Try to infer from context
         if (tokens.includes('cube') || tokens.includes('sphere') || tokens.includes('cylinder')) {
@@ -107,7 +119,7 @@ export function parseCommand(command: string): CommandResult {
         
         return { 
           success: false, 
-          error: `Unknown command: ${verb}. Try 'create', 'move', 'rotate', 'scale', 'color', or 'delete'` 
+          error: `Unknown command: ${verb}. Try 'create', 'move', 'rotate', 'scale', 'color', 'delete' or 'undo'` 
         };
     }
   } catch (error) {
@@ -0,0 +1,102 @@
+import type { ModelingObject } from "../types/modeling";
+
+export type MaterialName = NonNullable<ModelingObject['material']>;
+
+export type CurrencyCode = 'USD' | 'EUR' | 'GBP' | 'INR';
+
+export const CURRENCIES: { value: CurrencyCode; label: string }[] = [
+  { value: 'USD', label: 'US Dollar' },
+  { value: 'EUR', label: 'Euro' },
+  { value: 'GBP', label: 'Pound Sterling' },
+  { value: 'INR', label: 'Indian Rupee' }
+];
+
+export type CatalogUnit = 'pc' | 'm²' | '×';
+
+export interface CatalogItem {
+  // e.g. "furniture:bed", "flooring:marble", "finish:paint"
+  key: string;
+  label: string;
+  unit: CatalogUnit;
+  // Price in the estimate's currency; for `×` items a factor on furniture prices
+  price: number;
+  section: 'Furniture' | 'Material factors' | 'Flooring' | 'Finishes' | 'Openings & stairs';
+}
+
+// Furniture priced per piece, by the subtypes addFurniture knows
+const FURNITURE: [string, string, number][] = [
+  ['bed', 'Bed', 600],
+  ['chair', 'Chair', 80],
+  ['table', 'Table', 250],
+  ['dining_table', 'Dining table', 500],
+  ['sofa', 'Sofa', 900],
+  ['desk', 'Desk', 300],
+  ['wardrobe', 'Wardrobe', 700],
+  ['tv_stand', 'TV stand', 200],
+  ['counter', 'Counter', 1200],
+  ['refrigerator', 'Refrigerator', 1000],
+  ['toilet', 'Toilet', 350],
+  ['sink', 'Sink', 250],
+  ['bathtub', 'Bathtub', 900],
+  ['nightstand', 'Nightstand', 120],
+  ['bookshelf', 'Bookshelf', 180],
+  ['other', 'Other furniture', 200]
+];
+
+// Furniture made of a material costs its factor times the base price
+const MATERIAL_FACTORS: [MaterialName, string, number][] = [
+  ['wood', 'Wood', 1],
+  ['metal', 'Metal', 1.2],
+  ['glass', 'Glass', 1.3],
+  ['fabric', 'Fabric', 1],
+  ['leather', 'Leather', 1.6],
+  ['ceramic', 'Ceramic', 1.1],
+  ['marble', 'Marble', 1.8],
+  ['granite', 'Granite', 1.7],
+  ['plastic', 'Plastic', 0.7],
+  ['stainless_steel', 'Stainless steel', 1.4],
+  ['acrylic', 'Acrylic', 0.9],
+  ['mirror', 'Mirror', 1.3]
+];
+
+// Floor finishes per m², by the floor's material
+const FLOORING: [string, string, number][] = [
+  ['standard', 'Standard flooring', 30],
+  ['wood', 'Hardwood flooring', 55],
+  ['ceramic', 'Ceramic tile', 40],
+  ['marble', 'Marble', 110],
+  ['granite', 'Granite', 95],
+  ['plastic', 'Vinyl', 25]
+];
+
+export const DEFAULT_CATALOG: CatalogItem[] = [
+  ...FURNITURE.map(([key, label, price]): CatalogItem =>
+    ({ key: `furniture:${key}`, label, unit: 'pc', price, section: 'Furniture' })),
+  ...MATERIAL_FACTORS.map(([key, label, price]): CatalogItem =>
+    ({ key: `material:${key}`, label, unit: '×', price, section: 'Material factors' })),
+  ...FLOORING.map(([key, label, price]): CatalogItem =>
+    ({ key: `flooring:${key}`, label, unit: 'm²', price, section: 'Flooring' })),
+  { key: 'finish:paint', label: 'Wall paint', unit: 'm²', price: 8, section: 'Finishes' },
+  { key: 'finish:ceiling', label: 'Ceiling finish', unit: 'm²', price: 12, section: 'Finishes' },
+  { key: 'opening:door', label: 'Door', unit: 'pc', price: 350, section: 'Openings & stairs' },
+  { key: 'opening:window', label: 'Window', unit: 'pc', price: 450, section: 'Openings & stairs' },
+  { key: 'structure:stairs', label: 'Staircase', unit: 'pc', price: 3000, section: 'Openings & stairs' }
+];
+
+export const catalogItem = (key: string) => DEFAULT_CATALOG.find(item => item.key === key);
+
+// Price of a catalog entry with the user's overrides applied
+export function priceOf(key: string, overrides: Record<string, number>): number {
+  return overrides[key] ?? catalogItem(key)?.price ?? 0;
+}
+
+export const furnitureKey = (subtype?: string) =>
+  subtype && catalogItem(`furniture:${subtype}`) ? `furniture:${subtype}` : 'furniture:other';
+
+export const flooringKey = (material?: MaterialName) =>
+  material && catalogItem(`flooring:${material}`) ? `flooring:${material}` : 'flooring:standard';
+
+// `code` spells the currency out ("EUR 12.00") for outputs without the symbols
+export function formatMoney(value: number, currency: CurrencyCode, display: 'symbol' | 'code' = 'symbol'): string {
+  return new Intl.NumberFormat(undefined, { style: 'currency', currency, currencyDisplay: display }).format(value);
+}
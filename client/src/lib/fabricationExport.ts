@@ -0,0 +1,147 @@
+import * as THREE from "three";
+import { OBJExporter } from "three/examples/jsm/exporters/OBJExporter.js";
+import { STLExporter } from "three/examples/jsm/exporters/STLExporter.js";
+import { buildExportHierarchy, type ExportHierarchyOptions } from "./viewport";
+import { downloadBlob } from "./utils";
+import type { FloorPlan, ModelingObject } from "../types/modeling";
+
+// Formats for CNC and 3D-print vendors. Unlike glTF (always meters) these
+// carry no unit, so geometry is scaled to whatever unit the vendor expects.
+export type FabricationFormat = 'obj' | 'stl-binary' | 'stl-ascii';
+
+export type ExportUnit = 'm' | 'cm' | 'mm' | 'in' | 'plan';
+
+export type ExportScope = 'selection' | 'room' | 'scene';
+
+export const EXPORT_UNITS: { value: ExportUnit; label: string }[] = [
+  { value: 'mm', label: 'Millimeters' },
+  { value: 'cm', label: 'Centimeters' },
+  { value: 'm', label: 'Meters' },
+  { value: 'in', label: 'Inches' },
+  { value: 'plan', label: 'Floor plan units (blueprint px)' }
+];
+
+const UNITS_PER_METER: Record<Exclude<ExportUnit, 'plan'>, number> = {
+  m: 1,
+  cm: 100,
+  mm: 1000,
+  in: 1 / 0.0254
+};
+
+export interface FabricationExportOptions extends ExportHierarchyOptions {
+  format: FabricationFormat;
+  unit: ExportUnit;
+  floorPlan: FloorPlan | null;
+}
+
+export interface ExportFile {
+  name: string;
+  blob: Blob;
+}
+
+// Scene units are meters; 'plan' follows the imported blueprint's scale
+export function unitsPerMeter(unit: ExportUnit, floorPlan: FloorPlan | null): number {
+  if (unit === 'plan') {
+    return floorPlan?.scale || 1;
+  }
+  return UNITS_PER_METER[unit];
+}
+
+export function resolveExportObjectIds(
+  scope: ExportScope,
+  source: { objects: ModelingObject[]; selectedIds: string[]; roomId?: string | null }
+): string[] {
+  switch (scope) {
+    case 'selection':
+      return source.selectedIds.filter(id => source.objects.some(obj => obj.id === id));
+    case 'room':
+      return source.objects.filter(obj => obj.room && obj.room === source.roomId).map(obj => obj.id);
+    default:
+      return source.objects.map(obj => obj.id);
+  }
+}
+
+// OBJ/MTL statements are whitespace separated
+const safeName = (name: string) => name.trim().replace(/\s+/g, '_') || 'unnamed';
+
+const formatNumber = (value: number) => Number(value.toFixed(4)).toString();
+
+function collectMaterials(root: THREE.Object3D): Map<string, THREE.Material> {
+  const materials = new Map<string, THREE.Material>();
+  root.traverse(child => {
+    const mesh = child as THREE.Mesh;
+    if (!mesh.isMesh) return;
+
+    mesh.name = safeName(mesh.name);
+    const list = Array.isArray(mesh.material) ? mesh.material : [mesh.material];
+    list.forEach(material => {
+      material.name = safeName(material.name);
+      if (!materials.has(material.name)) {
+        materials.set(material.name, material);
+      }
+    });
+  });
+  return materials;
+}
+
+function buildMtl(materials: Map<string, THREE.Material>): string {
+  const srgb = { r: 0, g: 0, b: 0 };
+  const lines = ['# Precision Build AI material library'];
+
+  materials.forEach((material, name) => {
+    const color = (material as THREE.MeshStandardMaterial).color;
+    if (color) {
+      color.getRGB(srgb, THREE.SRGBColorSpace);
+    } else {
+      srgb.r = srgb.g = srgb.b = 0.8;
+    }
+
+    const roughness = (material as THREE.MeshStandardMaterial).roughness;
+    const shininess = (material as THREE.MeshPhongMaterial).shininess
+      ?? (roughness !== undefined ? (1 - roughness) * 1000 : 10);
+
+    lines.push(
+      '',
+      `newmtl ${name}`,
+      `Ka 0 0 0`,
+      `Kd ${formatNumber(srgb.r)} ${formatNumber(srgb.g)} ${formatNumber(srgb.b)}`,
+      `Ks 0.2 0.2 0.2`,
+      `Ns ${formatNumber(shininess)}`,
+      `d ${formatNumber(material.transparent ? material.opacity : 1)}`,
+      'illum 2'
+    );
+  });
+
+  return lines.join('\n') + '\n';
+}
+
+export function exportFabrication(options: FabricationExportOptions, baseName: string): ExportFile[] {
+  const root = buildExportHierarchy(options);
+  if (root.children.length === 0) {
+    throw new Error('Nothing to export');
+  }
+
+  // Bake the unit conversion into the world matrices both exporters read
+  root.scale.setScalar(unitsPerMeter(options.unit, options.floorPlan));
+  root.updateMatrixWorld(true);
+
+  if (options.format === 'obj') {
+    const materials = collectMaterials(root);
+    const obj = `mtllib ${baseName}.mtl\n` + new OBJExporter().parse(root);
+
+    return [
+      { name: `${baseName}.obj`, blob: new Blob([obj], { type: 'model/obj' }) },
+      { name: `${baseName}.mtl`, blob: new Blob([buildMtl(materials)], { type: 'model/mtl' }) }
+    ];
+  }
+
+  const stl = options.format === 'stl-binary'
+    ? new STLExporter().parse(root, { binary: true })
+    : new STLExporter().parse(root);
+
+  return [{ name: `${baseName}.stl`, blob: new Blob([stl], { type: 'model/stl' }) }];
+}
+
+export function downloadFabrication(options: FabricationExportOptions, baseName: string) {
+  exportFabrication(options, baseName).forEach(file => downloadBlob(file.blob, file.name));
+}
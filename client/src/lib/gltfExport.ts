@@ -0,0 +1,30 @@
+import { GLTFExporter } from "three/examples/jsm/exporters/GLTFExporter.js";
+import { buildExportHierarchy, type ExportHierarchyOptions } from "./viewport";
+import { downloadBlob } from "./utils";
+
+export type GltfFormat = 'glb' | 'gltf';
+
+export interface GltfExportOptions extends ExportHierarchyOptions {
+  format: GltfFormat;
+}
+
+// Exports what the 3D view currently renders, so imported models and
+// furniture come out with their real geometry rather than placeholder boxes.
+export async function exportGltf(options: GltfExportOptions): Promise<Blob> {
+  const root = buildExportHierarchy(options);
+  const binary = options.format === 'glb';
+
+  const result = await new GLTFExporter().parseAsync(root, {
+    binary,
+    // Leave out anything the view has hidden
+    onlyVisible: true
+  });
+
+  return binary
+    ? new Blob([result as ArrayBuffer], { type: 'model/gltf-binary' })
+    : new Blob([JSON.stringify(result)], { type: 'model/gltf+json' });
+}
+
+export async function downloadGltf(options: GltfExportOptions, baseName: string) {
+  downloadBlob(await exportGltf(options), `${baseName}.${options.format}`);
+}
@@ -0,0 +1,147 @@
+import * as THREE from "three";
+import type { FloorPlan, ModelingObject, ObjectGroup, Vector3 } from "../types/modeling";
+import { footprint } from "./measurements";
+
+export type SelectionMode = 'replace' | 'add' | 'toggle';
+
+// A move, turn and/or resize of several objects about a shared pivot
+export interface GroupChange {
+  offset?: Vector3;
+  turn?: THREE.Quaternion;
+  // Scale factors along the axes of `frame` (world axes when absent)
+  factor?: Vector3;
+  frame?: THREE.Quaternion;
+}
+
+export function listGroups(floorPlan: FloorPlan | null | undefined): ObjectGroup[] {
+  return floorPlan?.groups || [];
+}
+
+// A group and the groups enclosing it, innermost first
+export function groupAncestors(groupId: string | undefined, groups: ObjectGroup[]): ObjectGroup[] {
+  const chain: ObjectGroup[] = [];
+  for (let id = groupId; id; ) {
+    const group = groups.find(g => g.id === id);
+    if (!group || chain.includes(group)) break;
+    chain.push(group);
+    id = group.parentId;
+  }
+  return chain;
+}
+
+// Outermost group an object belongs to
+export function rootGroup(obj: ModelingObject, groups: ObjectGroup[]): ObjectGroup | null {
+  const chain = groupAncestors(obj.groupId, groups);
+  return chain[chain.length - 1] || null;
+}
+
+// Outermost groups of the objects, each once
+export function rootGroups(objects: ModelingObject[], groups: ObjectGroup[]): ObjectGroup[] {
+  const roots: ObjectGroup[] = [];
+  objects.forEach(obj => {
+    const root = rootGroup(obj, groups);
+    if (root && !roots.includes(root)) roots.push(root);
+  });
+  return roots;
+}
+
+export function isInGroup(obj: ModelingObject, groupId: string, groups: ObjectGroup[]): boolean {
+  return groupAncestors(obj.groupId, groups).some(group => group.id === groupId);
+}
+
+// Objects in a group, including those in groups nested inside it
+export function groupMembers(groupId: string, objects: ModelingObject[], groups: ObjectGroup[]): ModelingObject[] {
+  return objects.filter(obj => isInGroup(obj, groupId, groups));
+}
+
+// What picking an object in a view selects: everything in its outermost
+// group, or the object alone
+export function selectionUnit(obj: ModelingObject, objects: ModelingObject[], groups: ObjectGroup[]): string[] {
+  const root = rootGroup(obj, groups);
+  return root ? groupMembers(root.id, objects, groups).map(o => o.id) : [obj.id];
+}
+
+// Ids widened to whole groups, e.g. for the objects caught by a selection box
+export function expandToGroups(ids: string[], objects: ModelingObject[], groups: ObjectGroup[]): string[] {
+  const expanded = new Set<string>();
+  ids.forEach(id => {
+    const obj = objects.find(o => o.id === id);
+    if (obj) selectionUnit(obj, objects, groups).forEach(unitId => expanded.add(unitId));
+  });
+  return Array.from(expanded);
+}
+
+// Drops groups with nothing left in them, directly or through nested groups
+export function pruneGroups(groups: ObjectGroup[], objects: ModelingObject[]): ObjectGroup[] {
+  return groups.filter(group => objects.some(obj => isInGroup(obj, group.id, groups)));
+}
+
+// Name for a new group, e.g. "Group 3"
+export function nextGroupName(groups: ObjectGroup[]): string {
+  const names = new Set(groups.map(group => group.name));
+  let index = groups.length + 1;
+  while (names.has(`Group ${index}`)) index++;
+  return `Group ${index}`;
+}
+
+// Box around the objects: footprints across, centres ± half height up. The
+// shared gizmo sits at its centre.
+export function selectionBounds(objects: ModelingObject[]): { center: Vector3; size: Vector3 } {
+  if (objects.length === 0) return { center: { x: 0, y: 0, z: 0 }, size: { x: 0, y: 0, z: 0 } };
+
+  const corners = objects.flatMap(footprint);
+  const xs = corners.map(p => p.x);
+  const zs = corners.map(p => p.z);
+  const bottoms = objects.map(obj => obj.position.y - obj.scale.y / 2);
+  const tops = objects.map(obj => obj.position.y + obj.scale.y / 2);
+  const span = (low: number, high: number) => ({ mid: (low + high) / 2, size: high - low });
+  const x = span(Math.min(...xs), Math.max(...xs));
+  const y = span(Math.min(...bottoms), Math.max(...tops));
+  const z = span(Math.min(...zs), Math.max(...zs));
+  return { center: { x: x.mid, y: y.mid, z: z.mid }, size: { x: x.size, y: y.size, z: z.size } };
+}
+
+// Rotation after turning by `turn`. Upright objects turned about the vertical
+// keep a plain yaw; Euler angles decomposed from a quaternion would flip X
+// and Z by 180° past a quarter turn, which the plan and snapping can't read.
+export function turnRotation(rotation: Vector3, turn: THREE.Quaternion): Vector3 {
+  const upright = Math.abs(rotation.x) < 1e-9 && Math.abs(rotation.z) < 1e-9;
+  if (upright && Math.abs(turn.x) < 1e-9 && Math.abs(turn.z) < 1e-9) {
+    return { ...rotation, y: rotation.y + 2 * Math.atan2(turn.y, turn.w) };
+  }
+
+  const current = new THREE.Quaternion().setFromEuler(new THREE.Euler(rotation.x, rotation.y, rotation.z));
+  const euler = new THREE.Euler().setFromQuaternion(turn.clone().multiply(current));
+  return { x: euler.x, y: euler.y, z: euler.z };
+}
+
+// Moves, turns and resizes an object as part of a group, about `pivot`. Each
+// object's own size is scaled along its matching axes, which is exact for
+// objects square to the frame.
+export function transformAbout(
+  obj: ModelingObject,
+  pivot: Vector3,
+  change: GroupChange
+): Pick<ModelingObject, 'position' | 'rotation' | 'scale'> {
+  const arm = new THREE.Vector3(obj.position.x - pivot.x, obj.position.y - pivot.y, obj.position.z - pivot.z);
+  let { rotation, scale } = obj;
+
+  if (change.factor) {
+    const frame = change.frame || new THREE.Quaternion();
+    const { x, y, z } = change.factor;
+    arm.applyQuaternion(frame.clone().invert()).multiply(new THREE.Vector3(x, y, z)).applyQuaternion(frame);
+    scale = { x: scale.x * x, y: scale.y * y, z: scale.z * z };
+  }
+
+  if (change.turn) {
+    arm.applyQuaternion(change.turn);
+    rotation = turnRotation(rotation, change.turn);
+  }
+
+  const offset = change.offset || { x: 0, y: 0, z: 0 };
+  return {
+    position: { x: pivot.x + arm.x + offset.x, y: pivot.y + arm.y + offset.y, z: pivot.z + arm.z + offset.z },
+    rotation,
+    scale
+  };
+}
@@ -0,0 +1,57 @@
+import type { FloorPlan, Layer, LayerId, ModelingObject, ObjectLayerId } from "../types/modeling";
+
+export const LAYER_NAMES: Record<LayerId, string> = {
+  walls: 'Walls',
+  electrical: 'Electrical',
+  furniture: 'Furniture',
+  annotations: 'Annotations',
+  underlay: 'Blueprint underlay'
+};
+
+// Layers objects can be put on, in the order the editor offers them
+export const OBJECT_LAYERS: ObjectLayerId[] = ['walls', 'electrical', 'furniture'];
+
+const LAYER_ORDER: LayerId[] = [...OBJECT_LAYERS, 'annotations', 'underlay'];
+
+const defaultLayer = (id: LayerId): Layer => ({ id, visible: true, locked: false, print: true });
+
+// Every layer, with the plan's settings over the defaults
+export function listLayers(floorPlan: FloorPlan | null | undefined): Layer[] {
+  return LAYER_ORDER.map(id => floorPlan?.layers?.find(layer => layer.id === id) || defaultLayer(id));
+}
+
+export function getLayer(floorPlan: FloorPlan | null | undefined, id: LayerId): Layer {
+  return floorPlan?.layers?.find(layer => layer.id === id) || defaultLayer(id);
+}
+
+// Room shells, openings and stairs sit on the walls layer and everything else
+// on furniture, unless the object was put on a layer of its own
+export function objectLayerId(obj: ModelingObject): ObjectLayerId {
+  if (obj.layer) return obj.layer;
+  if (obj.category === 'room' || obj.category === 'structure' || obj.isStructural) return 'walls';
+  switch (obj.type) {
+    case 'wall':
+    case 'floor':
+    case 'ceiling':
+    case 'door':
+    case 'window':
+    case 'stairs':
+      return 'walls';
+    default:
+      return 'furniture';
+  }
+}
+
+export function objectLayer(obj: ModelingObject, floorPlan: FloorPlan | null | undefined): Layer {
+  return getLayer(floorPlan, objectLayerId(obj));
+}
+
+// Colour an object is drawn in: its layer's override, or its own
+export function displayColor(obj: ModelingObject, floorPlan: FloorPlan | null | undefined): string {
+  return objectLayer(obj, floorPlan).color || obj.color;
+}
+
+// Whether a layer's content goes on the printed plan; hidden layers don't
+export function isPrinted(layer: Layer): boolean {
+  return layer.visible && layer.print;
+}
@@ -0,0 +1,77 @@
+import type { FloorPlan, Level, ModelingObject, Room } from "../types/modeling";
+
+export const DEFAULT_LEVEL_HEIGHT = 3;
+
+// Riser and tread of generated stairs, meters
+export const STAIR_RISER = 0.18;
+export const STAIR_TREAD = 0.28;
+
+// Scenes without levels live on an implicit ground floor with this id, so
+// objects tagged with it keep their level once real levels are added
+export const GROUND_LEVEL: Level = {
+  id: 'ground',
+  name: 'Ground Floor',
+  elevation: 0,
+  height: DEFAULT_LEVEL_HEIGHT
+};
+
+// Levels bottom to top; never empty
+export function listLevels(floorPlan: FloorPlan | null | undefined): Level[] {
+  const levels = floorPlan?.levels;
+  if (!levels?.length) return [GROUND_LEVEL];
+  return [...levels].sort((a, b) => a.elevation - b.elevation);
+}
+
+// Untagged rooms and objects (older scenes) belong to the lowest level
+export function levelOf(item: { level?: string }, levels: Level[]): Level {
+  return levels.find(level => level.id === item.level) || levels[0];
+}
+
+export function isOnLevel(item: { level?: string }, levelId: string, levels: Level[]): boolean {
+  return levelOf(item, levels).id === levelId;
+}
+
+export function resolveLevel(levels: Level[], levelId: string | null | undefined): Level {
+  return levels.find(level => level.id === levelId) || levels[0];
+}
+
+export function levelAbove(levels: Level[], levelId: string): Level | null {
+  const index = levels.findIndex(level => level.id === levelId);
+  return index >= 0 ? levels[index + 1] || null : null;
+}
+
+// Restacks every level above `fromId` on top of the one below it
+export function stackLevels(levels: Level[], fromId: string): Level[] {
+  const stacked = [...levels];
+  const start = stacked.findIndex(level => level.id === fromId);
+  for (let i = Math.max(start, 0) + 1; i < stacked.length; i++) {
+    const below = stacked[i - 1];
+    stacked[i] = { ...stacked[i], elevation: below.elevation + below.height };
+  }
+  return stacked;
+}
+
+// Name for a level added on top, e.g. "Level 2"
+export function nextLevelName(levels: Level[]): string {
+  const names = new Set(levels.map(level => level.name));
+  let index = levels.length;
+  while (names.has(`Level ${index}`)) index++;
+  return `Level ${index}`;
+}
+
+// Objects above the active level, hidden when upper levels are switched off
+export function isAboveLevel(item: { level?: string }, active: Level, levels: Level[]): boolean {
+  return levelOf(item, levels).elevation > active.elevation;
+}
+
+export function roomsOnLevel(rooms: Room[], levelId: string, levels: Level[]): Room[] {
+  return rooms.filter(room => isOnLevel(room, levelId, levels));
+}
+
+export function objectsOnLevel(objects: ModelingObject[], levelId: string, levels: Level[]): ModelingObject[] {
+  return objects.filter(obj => isOnLevel(obj, levelId, levels));
+}
+
+export function stairSteps(rise: number): number {
+  return Math.max(2, Math.ceil(rise / STAIR_RISER));
+}
@@ -0,0 +1,68 @@
+import * as THREE from "three";
+import type { MaterialId, ModelingObject } from "../types/modeling";
+
+// Physically based settings for one entry in the material library. Textures
+// are greyscale so the object's colour still tints them.
+export interface MaterialPreset {
+  label: string;
+  roughness: number;
+  metalness: number;
+  transmission?: number; // Light let through, for glass-like surfaces
+  ior?: number;
+  thickness?: number; // Depth the transmitted light refracts through
+  clearcoat?: number;
+  clearcoatRoughness?: number;
+  sheen?: number; // Soft rim for cloth
+  envMapIntensity: number; // How strongly the environment reflects
+  texture?: string;
+  bumpScale?: number; // The texture doubles as a bump map when set
+}
+
+export const MATERIAL_LIBRARY: Record<MaterialId, MaterialPreset> = {
+  standard: { label: 'Standard', roughness: 0.7, metalness: 0.1, envMapIntensity: 1 },
+  basic: { label: 'Matte', roughness: 1, metalness: 0, envMapIntensity: 0.3 },
+  lambert: { label: 'Diffuse', roughness: 0.9, metalness: 0, envMapIntensity: 0.5 },
+  phong: { label: 'Glossy', roughness: 0.3, metalness: 0, clearcoat: 0.5, envMapIntensity: 1 },
+  wood: { label: 'Wood', roughness: 0.65, metalness: 0, envMapIntensity: 0.6, texture: '/textures/wood_grain.png', bumpScale: 0.002 },
+  metal: { label: 'Metal', roughness: 0.4, metalness: 0.9, envMapIntensity: 1.2 },
+  stainless_steel: { label: 'Stainless steel', roughness: 0.3, metalness: 1, envMapIntensity: 1.3, texture: '/textures/brushed_metal.png' },
+  mirror: { label: 'Mirror', roughness: 0, metalness: 1, envMapIntensity: 1.5 },
+  glass: { label: 'Glass', roughness: 0.05, metalness: 0, transmission: 1, ior: 1.5, thickness: 0.05, envMapIntensity: 1 },
+  acrylic: { label: 'Acrylic', roughness: 0.15, metalness: 0, transmission: 0.9, ior: 1.49, thickness: 0.1, envMapIntensity: 1 },
+  plastic: { label: 'Plastic', roughness: 0.4, metalness: 0, clearcoat: 0.3, clearcoatRoughness: 0.4, envMapIntensity: 0.8 },
+  ceramic: { label: 'Ceramic', roughness: 0.15, metalness: 0, clearcoat: 1, clearcoatRoughness: 0.1, envMapIntensity: 1, texture: '/textures/ceramic.png', bumpScale: 0.001 },
+  marble: { label: 'Marble', roughness: 0.2, metalness: 0, clearcoat: 0.6, clearcoatRoughness: 0.15, envMapIntensity: 1, texture: '/textures/marble.png' },
+  granite: { label: 'Granite', roughness: 0.35, metalness: 0, clearcoat: 0.3, envMapIntensity: 0.9, texture: '/textures/granite.png', bumpScale: 0.001 },
+  fabric: { label: 'Fabric', roughness: 1, metalness: 0, sheen: 1, envMapIntensity: 0.3, texture: '/textures/fabric.png', bumpScale: 0.003 },
+  leather: { label: 'Leather', roughness: 0.6, metalness: 0, sheen: 0.3, clearcoat: 0.1, envMapIntensity: 0.6, texture: '/textures/leather.png', bumpScale: 0.002 }
+};
+
+// The order the object editor lists them in
+export const MATERIAL_IDS = Object.keys(MATERIAL_LIBRARY) as MaterialId[];
+
+export function materialPreset(obj: ModelingObject): MaterialPreset {
+  return MATERIAL_LIBRARY[obj.material || 'standard'];
+}
+
+export function textureRepeat(obj: ModelingObject): { x: number; y: number } {
+  return obj.textureRepeat || { x: 1, y: 1 };
+}
+
+// Each texture image is loaded once; objects take their own copy so they
+// can tile it differently
+const loaded = new Map<string, Promise<THREE.Texture>>();
+
+export function loadTexture(path: string): Promise<THREE.Texture> {
+  let texture = loaded.get(path);
+  if (!texture) {
+    texture = new THREE.TextureLoader().loadAsync(path).then(base => {
+      base.wrapS = base.wrapT = THREE.RepeatWrapping;
+      base.colorSpace = THREE.SRGBColorSpace;
+      return base;
+    });
+    // A failed load can be retried by the next object that asks
+    texture.catch(() => loaded.delete(path));
+    loaded.set(path, texture);
+  }
+  return texture;
+}
@@ -0,0 +1,102 @@
+import type { Measurement, MeasurementAnchor, ModelingObject } from "../types/modeling";
+import { projectOntoSegment, type PlanPosition } from "./snapping";
+import { localToPlan, planToLocal } from "./planFrame";
+
+export interface ResolvedMeasurement {
+  start: PlanPosition;
+  end: PlanPosition;
+  length: number;
+}
+
+const distance = (a: PlanPosition, b: PlanPosition) => Math.hypot(a.x - b.x, a.z - b.z);
+
+// Plan point into the object's unit frame (before scale), so a pinned point
+// follows the object when it is moved, turned or resized
+function toLocal(point: PlanPosition, obj: ModelingObject): PlanPosition {
+  const local = planToLocal(obj, point);
+  return { x: local.x / (obj.scale.x || 1), z: local.z / (obj.scale.z || 1) };
+}
+
+function toPlan(local: PlanPosition, obj: ModelingObject): PlanPosition {
+  return localToPlan(obj, { x: local.x * obj.scale.x, z: local.z * obj.scale.z });
+}
+
+export function pinAnchor(point: PlanPosition, obj?: ModelingObject | null): MeasurementAnchor {
+  return obj
+    ? { point, objectId: obj.id, local: toLocal(point, obj) }
+    : { point };
+}
+
+// Where an anchor is now; points pinned to a deleted object stay put
+export function anchorPoint(anchor: MeasurementAnchor, objects: ModelingObject[]): PlanPosition {
+  const obj = anchor.objectId ? objects.find(o => o.id === anchor.objectId) : undefined;
+  return obj && anchor.local ? toPlan(anchor.local, obj) : anchor.point;
+}
+
+// Corners of an object's footprint on the plan
+export function footprint(obj: ModelingObject): PlanPosition[] {
+  if (obj.outline) {
+    return obj.outline.map(p => toPlan({ x: p.x / (obj.scale.x || 1), z: p.z / (obj.scale.z || 1) }, obj));
+  }
+  return [
+    { x: -0.5, z: -0.5 },
+    { x: 0.5, z: -0.5 },
+    { x: 0.5, z: 0.5 },
+    { x: -0.5, z: 0.5 }
+  ].map(p => toPlan(p, obj));
+}
+
+const edges = (points: PlanPosition[]) =>
+  points.map((p, i) => [p, points[(i + 1) % points.length]] as const);
+
+// Shortest gap between an object's footprint and a wall's nearer face
+export function clearance(obj: ModelingObject, wall: ModelingObject): ResolvedMeasurement {
+  let best: ResolvedMeasurement | null = null;
+  const consider = (start: PlanPosition, end: PlanPosition) => {
+    const length = distance(start, end);
+    if (!best || length < best.length) best = { start, end, length };
+  };
+
+  const objectEdges = edges(footprint(obj));
+  edges(footprint(wall)).forEach(([a, b]) => {
+    objectEdges.forEach(([p, q]) => {
+      // Closest points of two non-crossing segments include an endpoint
+      [p, q].forEach(point => consider(point, projectOntoSegment(point, a, b).point));
+      [a, b].forEach(point => consider(projectOntoSegment(point, p, q).point, point));
+    });
+  });
+
+  return best!;
+}
+
+export function resolveMeasurement(measurement: Measurement, objects: ModelingObject[]): ResolvedMeasurement {
+  if (measurement.kind === 'clearance') {
+    const obj = objects.find(o => o.id === measurement.start.objectId);
+    const wall = objects.find(o => o.id === measurement.end.objectId);
+    if (obj && wall) return clearance(obj, wall);
+  }
+
+  const start = anchorPoint(measurement.start, objects);
+  const end = anchorPoint(measurement.end, objects);
+  return { start, end, length: distance(start, end) };
+}
+
+export const formatLength = (meters: number) => `${meters.toFixed(2)}m`;
+
+// Unpins measurements from objects about to be removed, freezing them where
+// they currently are
+export function detachMeasurements(
+  measurements: Measurement[],
+  objects: ModelingObject[],
+  removedIds: Set<string>
+): Measurement[] {
+  const pinnedToRemoved = (anchor: MeasurementAnchor) => !!anchor.objectId && removedIds.has(anchor.objectId);
+  if (!measurements.some(m => pinnedToRemoved(m.start) || pinnedToRemoved(m.end))) return measurements;
+
+  return measurements.map(m => {
+    if (!pinnedToRemoved(m.start) && !pinnedToRemoved(m.end)) return m;
+
+    const { start, end } = resolveMeasurement(m, objects);
+    return { ...m, kind: 'distance', start: { point: start }, end: { point: end } };
+  });
+}
@@ -0,0 +1,145 @@
+import type { ModelingObject, Vector3 } from "../types/modeling";
+
+// Door leaves and window panes are thin panels set in the middle of the wall
+export const OPENING_DEPTH = 0.05;
+
+// Smallest solid strip kept between an opening and the wall's edge, meters
+const MIN_EDGE = 0.05;
+
+export interface OpeningPlacement {
+  // Centre of the opening along the wall, from the wall's centre, meters
+  offset: number;
+  width: number;
+  height: number;
+  // Height of the opening's bottom edge above the wall's base
+  sill: number;
+}
+
+export const isHostedOpening = (obj: ModelingObject) =>
+  (obj.type === 'door' || obj.type === 'window') && !!obj.hostId;
+
+export function hostedOpenings(objects: ModelingObject[], wallId: string): ModelingObject[] {
+  return objects.filter(obj => obj.hostId === wallId && isHostedOpening(obj));
+}
+
+export function wallBase(wall: ModelingObject): number {
+  return wall.position.y - wall.scale.y / 2;
+}
+
+// Keeps the opening inside the wall
+export function clampPlacement(wall: ModelingObject, placement: OpeningPlacement): OpeningPlacement {
+  const length = wall.scale.x;
+  const wallHeight = wall.scale.y;
+
+  const width = Math.max(0.1, Math.min(placement.width, length - 2 * MIN_EDGE));
+  const height = Math.max(0.1, Math.min(placement.height, wallHeight - MIN_EDGE));
+  const maxOffset = length / 2 - MIN_EDGE - width / 2;
+
+  return {
+    offset: Math.max(-maxOffset, Math.min(maxOffset, placement.offset)),
+    width,
+    height,
+    sill: Math.max(0, Math.min(wallHeight - MIN_EDGE - height, placement.sill))
+  };
+}
+
+// World transform of an opening set into its wall. Walls are unit boxes
+// stretched along local X and turned about Y only.
+export function openingTransform(wall: ModelingObject, placement: OpeningPlacement): {
+  position: Vector3;
+  rotation: Vector3;
+  scale: Vector3;
+} {
+  const angle = wall.rotation.y;
+
+  return {
+    position: {
+      x: wall.position.x + Math.cos(angle) * placement.offset,
+      y: wallBase(wall) + placement.sill + placement.height / 2,
+      // A positive Y rotation turns local +X towards -Z
+      z: wall.position.z - Math.sin(angle) * placement.offset
+    },
+    rotation: { ...wall.rotation },
+    scale: { x: placement.width, y: placement.height, z: OPENING_DEPTH }
+  };
+}
+
+// Reads the placement back from an opening's world position and size, e.g.
+// after it was moved by hand
+export function placementFromObject(wall: ModelingObject, opening: ModelingObject): OpeningPlacement {
+  const angle = wall.rotation.y;
+  const dx = opening.position.x - wall.position.x;
+  const dz = opening.position.z - wall.position.z;
+
+  return clampPlacement(wall, {
+    offset: dx * Math.cos(angle) - dz * Math.sin(angle),
+    width: opening.scale.x,
+    height: opening.scale.y,
+    sill: opening.position.y - opening.scale.y / 2 - wallBase(wall)
+  });
+}
+
+export function placementOf(opening: ModelingObject): OpeningPlacement {
+  return {
+    offset: opening.hostOffset ?? 0,
+    width: opening.scale.x,
+    height: opening.scale.y,
+    sill: opening.sillHeight ?? 0
+  };
+}
+
+// Offset nearest `preferred` where an opening of `width` clears the others
+export function findFreeOffset(
+  wall: ModelingObject,
+  openings: ModelingObject[],
+  width: number,
+  preferred = 0
+): number {
+  const taken = openings.map(obj => {
+    const placement = placementOf(obj);
+    return [placement.offset - placement.width / 2, placement.offset + placement.width / 2];
+  });
+  const limit = wall.scale.x / 2 - MIN_EDGE - width / 2;
+  const fits = (offset: number) =>
+    Math.abs(offset) <= limit &&
+    taken.every(([start, end]) => offset + width / 2 + MIN_EDGE <= start || offset - width / 2 - MIN_EDGE >= end);
+
+  for (let step = 0; step <= wall.scale.x / 0.1; step++) {
+    for (const offset of [preferred + step * 0.1, preferred - step * 0.1]) {
+      if (fits(offset)) return offset;
+    }
+  }
+  return preferred;
+}
+
+// Re-seats hosted openings after edits. Openings listed in `movedIds` were
+// moved themselves and take their placement from where they now are; the
+// rest follow their host wall. Returns the input when nothing changes.
+export function syncOpenings(objects: ModelingObject[], movedIds: Set<string>): ModelingObject[] {
+  const walls = new Map(objects.filter(obj => obj.type === 'wall').map(wall => [wall.id, wall]));
+  let changed = false;
+
+  const next = objects.map(obj => {
+    if (!isHostedOpening(obj)) return obj;
+
+    const wall = walls.get(obj.hostId!);
+    if (!wall) return obj;
+
+    const placement = movedIds.has(obj.id)
+      ? placementFromObject(wall, obj)
+      : clampPlacement(wall, placementOf(obj));
+    const transform = openingTransform(wall, placement);
+
+    const same = obj.hostOffset === placement.offset &&
+      obj.sillHeight === placement.sill &&
+      (['position', 'rotation', 'scale'] as const).every(key =>
+        (['x', 'y', 'z'] as const).every(axis => Math.abs(obj[key][axis] - transform[key][axis]) < 1e-9)
+      );
+    if (same) return obj;
+
+    changed = true;
+    return { ...obj, ...transform, hostOffset: placement.offset, sillHeight: placement.sill };
+  });
+
+  return changed ? next : objects;
+}
@@ -0,0 +1,23 @@
+import * as THREE from "three";
+import type { ModelingObject } from "../types/modeling";
+
+// Floors saved before outlines existed are unit squares sized by scale.x/z
+const UNIT_SQUARE = [
+  { x: -0.5, z: -0.5 },
+  { x: 0.5, z: -0.5 },
+  { x: 0.5, z: 0.5 },
+  { x: -0.5, z: 0.5 }
+];
+
+export const hasOutline = (object: ModelingObject) =>
+  object.type === 'floor' || object.type === 'ceiling';
+
+// Flat footprint in the XZ plane facing +Y, triangulated by ShapeGeometry so
+// L-shapes and other concave rooms fill correctly
+export function createOutlineGeometry(outline: { x: number; z: number }[] = UNIT_SQUARE): THREE.BufferGeometry {
+  // Shapes are drawn in XY; the -90° turn about X sends shape Y to -Z
+  const shape = new THREE.Shape(outline.map(p => new THREE.Vector2(p.x, -p.z)));
+  const geometry = new THREE.ShapeGeometry(shape);
+  geometry.rotateX(-Math.PI / 2);
+  return geometry;
+}
@@ -0,0 +1,108 @@
+import type { DisplayCategory, ModelingObject, ObjectGroup, Room } from "../types/modeling";
+import { rootGroup } from "./groups";
+import { DISPLAY_CATEGORIES, displayCategory } from "./visibility";
+
+export interface OutlineNode {
+  // Unique across the tree, e.g. "room:<id>/category:furniture"
+  key: string;
+  kind: 'room' | 'category' | 'group' | 'object';
+  label: string;
+  // Room nodes: the room, or null for objects in none
+  roomId?: string | null;
+  category?: DisplayCategory;
+  group?: ObjectGroup;
+  object?: ModelingObject;
+  children: OutlineNode[];
+}
+
+// The category a display category stands for on an object
+export function objectCategory(category: DisplayCategory): ModelingObject['category'] {
+  return category === 'other' ? undefined : category;
+}
+
+export function objectLabel(obj: ModelingObject): string {
+  const label = obj.name || obj.subtype || obj.type;
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+// Objects a node stands for: itself, or everything below it
+export function outlineObjects(node: OutlineNode): ModelingObject[] {
+  return node.object ? [node.object] : node.children.flatMap(outlineObjects);
+}
+
+// Rooms, then categories, then the objects and groups in them. A group is
+// filed under the room and category of its first member, and lists all of
+// its members wherever they are.
+export function buildOutline(objects: ModelingObject[], rooms: Room[], groups: ObjectGroup[]): OutlineNode[] {
+  const groupNode = (group: ObjectGroup, parentKey: string): OutlineNode => {
+    const key = `${parentKey}/group:${group.id}`;
+    return {
+      key,
+      kind: 'group',
+      label: group.name,
+      group,
+      children: [
+        ...groups.filter(g => g.parentId === group.id).map(g => groupNode(g, key)),
+        ...objects.filter(obj => obj.groupId === group.id).map(obj => objectNode(obj, key))
+      ]
+    };
+  };
+  const objectNode = (obj: ModelingObject, parentKey: string): OutlineNode => ({
+    key: `${parentKey}/object:${obj.id}`,
+    kind: 'object',
+    label: objectLabel(obj),
+    object: obj,
+    children: []
+  });
+
+  // Loose objects and outermost groups, each filed once
+  const items: { obj: ModelingObject; group: ObjectGroup | null }[] = [];
+  const filed = new Set<ObjectGroup>();
+  objects.forEach(obj => {
+    const group = rootGroup(obj, groups);
+    if (group && filed.has(group)) return;
+    if (group) filed.add(group);
+    items.push({ obj, group });
+  });
+
+  const roomIds = new Set(rooms.map(room => room.id));
+  const buckets: { roomId: string | null; label: string }[] = [
+    ...rooms.map(room => ({ roomId: room.id, label: room.name })),
+    { roomId: null, label: 'No room' }
+  ];
+
+  return buckets
+    .map(({ roomId, label }) => {
+      const roomKey = `room:${roomId ?? 'none'}`;
+      const inRoom = items.filter(({ obj }) => (obj.room && roomIds.has(obj.room) ? obj.room : null) === roomId);
+      const children = DISPLAY_CATEGORIES
+        .map(({ category, label: categoryLabel }) => {
+          const key = `${roomKey}/category:${category}`;
+          return {
+            key,
+            kind: 'category' as const,
+            label: categoryLabel,
+            roomId,
+            category,
+            children: inRoom
+              .filter(({ obj }) => displayCategory(obj) === category)
+              .map(({ obj, group }) => group ? groupNode(group, key) : objectNode(obj, key))
+          };
+        })
+        .filter(node => node.children.length > 0);
+      return { key: roomKey, kind: 'room' as const, label, roomId, children };
+    })
+    .filter(node => node.children.length > 0);
+}
+
+// Branches with a match; a matching room, category or group keeps all of it
+export function filterOutline(nodes: OutlineNode[], query: string): OutlineNode[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return nodes;
+
+  return nodes.flatMap(node => {
+    if (node.label.toLowerCase().includes(needle)) return [node];
+    const children = filterOutline(node.children, needle);
+    return children.length ? [{ ...node, children }] : [];
+  });
+}
@@ -0,0 +1,23 @@
+import type { ModelingObject } from "../types/modeling";
+import type { PlanPosition } from "./snapping";
+
+// Plan point in an object's own frame: metres from its centre along its
+// turned X and Z axes, before scale
+export function planToLocal(obj: ModelingObject, point: PlanPosition): PlanPosition {
+  const angle = obj.rotation.y;
+  const dx = point.x - obj.position.x;
+  const dz = point.z - obj.position.z;
+  return {
+    x: dx * Math.cos(angle) - dz * Math.sin(angle),
+    z: dx * Math.sin(angle) + dz * Math.cos(angle)
+  };
+}
+
+export function localToPlan(obj: ModelingObject, local: PlanPosition): PlanPosition {
+  const angle = obj.rotation.y;
+  // A positive Y rotation turns local +X towards -Z
+  return {
+    x: obj.position.x + local.x * Math.cos(angle) + local.z * Math.sin(angle),
+    z: obj.position.z - local.x * Math.sin(angle) + local.z * Math.cos(angle)
+  };
+}
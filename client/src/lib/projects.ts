@@ -0,0 +1,49 @@
+import type { InsertProject, Project } from "@shared/schema";
+import type { FloorPlan, ModelingObject, Room } from "../types/modeling";
+import type { CameraState, LoadedScene } from "./stores/useModeling";
+import { attachRooms, listRooms } from "./rooms";
+
+interface ProjectSource {
+  objects: ModelingObject[];
+  currentRoom: Room | null;
+  floorPlan: FloorPlan | null;
+  camera: CameraState;
+}
+
+// Blob URLs only live as long as the browser tab, so they are never sent
+// to the server
+const isBlobUrl = (url?: string) => !!url && url.startsWith('blob:');
+
+export function buildProjectPayload(name: string, source: ProjectSource): InsertProject {
+  const objects = source.objects.map(obj => ({
+    ...obj,
+    modelPath: isBlobUrl(obj.modelPath) ? undefined : obj.modelPath,
+    isSelected: undefined
+  }));
+
+  // Rooms are stored in their own column, not repeated inside the plan
+  const floorPlan = source.floorPlan
+    ? { ...source.floorPlan, rooms: [], imageUrl: isBlobUrl(source.floorPlan.imageUrl) ? undefined : source.floorPlan.imageUrl }
+    : null;
+
+  // JSON round-trip drops the undefined fields and gives plain records
+  return JSON.parse(JSON.stringify({
+    name,
+    objects,
+    rooms: listRooms(source.currentRoom, source.floorPlan),
+    floorPlan,
+    camera: source.camera
+  }));
+}
+
+export function projectToScene(project: Project): LoadedScene {
+  const rooms = project.rooms as unknown as Room[];
+  const floorPlan = (project.floorPlan as unknown as FloorPlan | null) || null;
+
+  return {
+    objects: project.objects as unknown as ModelingObject[],
+    currentRoom: rooms[0] || null,
+    floorPlan: rooms.length ? attachRooms(floorPlan, rooms) : floorPlan,
+    camera: project.camera
+  };
+}
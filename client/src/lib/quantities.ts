@@ -0,0 +1,183 @@
+import type { FloorPlan, ModelingObject, Room } from "../types/modeling";
+import { downloadBlob } from "./utils";
+import { polygonArea, polygonPerimeter, roomOutline } from "./rooms";
+import { hostedOpenings, placementOf } from "./openings";
+import { levelOf, listLevels } from "./levels";
+
+// Take-off for one room; areas in m², lengths in m, volume in m³
+export interface RoomQuantities {
+  roomId: string;
+  name: string;
+  level: string;
+  floorArea: number;
+  perimeter: number;
+  height: number;
+  volume: number;
+  // Inside face of the walls around the room, before and after openings
+  grossWallArea: number;
+  openingArea: number;
+  netWallArea: number;
+  ceilingArea: number;
+  // Walls net of openings plus the ceiling
+  paintArea: number;
+  doors: number;
+  windows: number;
+}
+
+// Built structure, whether or not it bounds a room
+export interface StructureQuantities {
+  walls: number;
+  wallLength: number;
+  // One face of every wall, net of openings
+  wallFaceArea: number;
+  // Solid wall volume net of openings
+  wallVolume: number;
+  doors: number;
+  windows: number;
+  stairs: number;
+}
+
+export interface QuantityReport {
+  rooms: RoomQuantities[];
+  totals: Omit<RoomQuantities, 'roomId' | 'name' | 'level' | 'height'>;
+  structure: StructureQuantities;
+}
+
+const openingArea = (opening: ModelingObject, wall: ModelingObject) => {
+  const { width, height, sill } = placementOf(opening);
+  // Only the part of the opening inside the wall's height
+  return width * Math.max(0, Math.min(height, wall.scale.y - sill));
+};
+
+function roomQuantities(room: Room, objects: ModelingObject[], levelName: string): RoomQuantities {
+  const outline = roomOutline(room);
+  const floorArea = polygonArea(outline);
+  const perimeter = polygonPerimeter(outline);
+  const height = room.dimensions.height;
+
+  // Blueprint rooms list shared walls they are not tagged with
+  const listed = new Set(room.walls.map(wall => wall.id));
+  const walls = objects.filter(obj => obj.type === 'wall' && (obj.room === room.id || listed.has(obj.id)));
+  const openings = walls.flatMap(wall => hostedOpenings(objects, wall.id).map(opening => ({ opening, wall })));
+
+  const grossWallArea = perimeter * height;
+  const cut = openings.reduce((sum, { opening, wall }) => sum + openingArea(opening, wall), 0);
+  const netWallArea = Math.max(0, grossWallArea - cut);
+
+  return {
+    roomId: room.id,
+    name: room.name,
+    level: levelName,
+    floorArea,
+    perimeter,
+    height,
+    volume: floorArea * height,
+    grossWallArea,
+    openingArea: cut,
+    netWallArea,
+    ceilingArea: floorArea,
+    paintArea: netWallArea + floorArea,
+    doors: openings.filter(({ opening }) => opening.type === 'door').length,
+    windows: openings.filter(({ opening }) => opening.type === 'window').length
+  };
+}
+
+function structureQuantities(objects: ModelingObject[]): StructureQuantities {
+  const walls = objects.filter(obj => obj.type === 'wall');
+
+  let wallFaceArea = 0;
+  let wallVolume = 0;
+  walls.forEach(wall => {
+    const cut = hostedOpenings(objects, wall.id).reduce((sum, opening) => sum + openingArea(opening, wall), 0);
+    const face = Math.max(0, wall.scale.x * wall.scale.y - cut);
+    wallFaceArea += face;
+    wallVolume += face * wall.scale.z;
+  });
+
+  return {
+    walls: walls.length,
+    wallLength: walls.reduce((sum, wall) => sum + wall.scale.x, 0),
+    wallFaceArea,
+    wallVolume,
+    doors: objects.filter(obj => obj.type === 'door').length,
+    windows: objects.filter(obj => obj.type === 'window').length,
+    stairs: objects.filter(obj => obj.type === 'stairs').length
+  };
+}
+
+export function computeQuantities(objects: ModelingObject[], floorPlan: FloorPlan | null): QuantityReport {
+  const levels = listLevels(floorPlan);
+  const rooms = (floorPlan?.rooms || []).map(room =>
+    roomQuantities(room, objects, levelOf(room, levels).name)
+  );
+
+  const sum = (key: keyof QuantityReport['totals']) => rooms.reduce((total, room) => total + room[key], 0);
+
+  return {
+    rooms,
+    totals: {
+      floorArea: sum('floorArea'),
+      perimeter: sum('perimeter'),
+      volume: sum('volume'),
+      grossWallArea: sum('grossWallArea'),
+      openingArea: sum('openingArea'),
+      netWallArea: sum('netWallArea'),
+      ceilingArea: sum('ceilingArea'),
+      paintArea: sum('paintArea'),
+      doors: sum('doors'),
+      windows: sum('windows')
+    },
+    structure: structureQuantities(objects)
+  };
+}
+
+const CSV_COLUMNS: { key: keyof RoomQuantities; label: string }[] = [
+  { key: 'name', label: 'Room' },
+  { key: 'level', label: 'Level' },
+  { key: 'floorArea', label: 'Floor area (m2)' },
+  { key: 'perimeter', label: 'Perimeter (m)' },
+  { key: 'height', label: 'Height (m)' },
+  { key: 'volume', label: 'Volume (m3)' },
+  { key: 'grossWallArea', label: 'Wall area gross (m2)' },
+  { key: 'openingArea', label: 'Openings (m2)' },
+  { key: 'netWallArea', label: 'Wall area net (m2)' },
+  { key: 'ceilingArea', label: 'Ceiling area (m2)' },
+  { key: 'paintArea', label: 'Paint surface (m2)' },
+  { key: 'doors', label: 'Doors' },
+  { key: 'windows', label: 'Windows' }
+];
+
+export const formatQuantity = (value: number) => Number(value.toFixed(2)).toString();
+
+// Numbers rounded like the reports; text quoted when it holds a comma, quote or newline
+export const csvCell = (value: string | number) => {
+  const text = typeof value === 'number' ? formatQuantity(value) : value;
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function quantitiesToCsv(report: QuantityReport): string {
+  const rows: (string | number)[][] = [
+    CSV_COLUMNS.map(column => column.label),
+    ...report.rooms.map(room => CSV_COLUMNS.map(column => room[column.key])),
+    CSV_COLUMNS.map(column =>
+      column.key === 'name' ? 'Total'
+        : column.key === 'level' || column.key === 'height' ? ''
+        : report.totals[column.key as keyof QuantityReport['totals']]
+    ),
+    [],
+    ['Structure'],
+    ['Walls', report.structure.walls],
+    ['Wall length (m)', report.structure.wallLength],
+    ['Wall face area net (m2)', report.structure.wallFaceArea],
+    ['Wall volume (m3)', report.structure.wallVolume],
+    ['Doors', report.structure.doors],
+    ['Windows', report.structure.windows],
+    ['Stairs', report.structure.stairs]
+  ];
+
+  return rows.map(row => row.map(csvCell).join(',')).join('\n') + '\n';
+}
+
+export function downloadQuantities(report: QuantityReport, baseName: string) {
+  downloadBlob(new Blob([quantitiesToCsv(report)], { type: 'text/csv' }), `${baseName}.csv`);
+}
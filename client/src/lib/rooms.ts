@@ -0,0 +1,236 @@
+import type { FloorPlan, Room } from "../types/modeling";
+import type { PlanPosition } from "./snapping";
+
+// Walls sit centred on room edges, so rooms built side by side end up one
+// wall thickness apart. Edges closer than this still count as shared.
+export const ADJACENCY_TOLERANCE = 0.5;
+const MIN_SHARED_LENGTH = 0.3;
+
+// Gap left between a new room and its neighbour, see createRoom
+export const ROOM_SPACING = 0.2;
+
+export interface RoomBounds {
+  minX: number;
+  maxX: number;
+  minZ: number;
+  maxZ: number;
+}
+
+export interface AdjacentRoom {
+  room: Room;
+  // Length of the boundary the two rooms share, meters
+  sharedLength: number;
+}
+
+// Plan for scenes built room by room rather than from a blueprint
+export function createFloorPlan(name = 'Floor Plan'): FloorPlan {
+  return {
+    id: `plan_${Date.now()}`,
+    name,
+    rooms: [],
+    scale: 1,
+    dimensions: { width: 0, length: 0 }
+  };
+}
+
+// Every room of the scene; `currentRoom` is normally one of the plan's rooms
+// but scenes saved before multi-room support only carry that one.
+export function listRooms(currentRoom: Room | null, floorPlan: FloorPlan | null): Room[] {
+  const rooms = floorPlan?.rooms || [];
+  return currentRoom && !rooms.some(room => room.id === currentRoom.id)
+    ? [...rooms, currentRoom]
+    : rooms;
+}
+
+// Adds rooms to the plan, replacing any with the same id
+export function attachRooms(floorPlan: FloorPlan | null, rooms: Room[]): FloorPlan {
+  const plan = floorPlan || createFloorPlan();
+  const incoming = new Map(rooms.map(room => [room.id, room]));
+
+  return {
+    ...plan,
+    rooms: [
+      ...plan.rooms.map(room => incoming.get(room.id) || room),
+      ...rooms.filter(room => !plan.rooms.some(existing => existing.id === room.id))
+    ]
+  };
+}
+
+// Twice the signed area; positive for corners running from +X towards +Z,
+// which this module calls counter-clockwise
+function signedArea2(polygon: PlanPosition[]): number {
+  let sum = 0;
+  polygon.forEach((p, i) => {
+    const q = polygon[(i + 1) % polygon.length];
+    sum += p.x * q.z - q.x * p.z;
+  });
+  return sum;
+}
+
+export function polygonArea(polygon: PlanPosition[]): number {
+  return Math.abs(signedArea2(polygon)) / 2;
+}
+
+export function polygonPerimeter(polygon: PlanPosition[]): number {
+  return polygon.reduce((sum, p, i) => {
+    const q = polygon[(i + 1) % polygon.length];
+    return sum + Math.hypot(q.x - p.x, q.z - p.z);
+  }, 0);
+}
+
+export function polygonBounds(polygon: PlanPosition[]): RoomBounds {
+  return {
+    minX: Math.min(...polygon.map(p => p.x)),
+    maxX: Math.max(...polygon.map(p => p.x)),
+    minZ: Math.min(...polygon.map(p => p.z)),
+    maxZ: Math.max(...polygon.map(p => p.z))
+  };
+}
+
+// Drops repeated and collinear corners and orders the rest counter-clockwise.
+// Returns null when fewer than three corners or no area remain.
+export function normalizePolygon(polygon: PlanPosition[]): PlanPosition[] | null {
+  const EPSILON = 1e-6;
+  let points = polygon.filter((p, i) => {
+    const next = polygon[(i + 1) % polygon.length];
+    return Math.hypot(next.x - p.x, next.z - p.z) > EPSILON;
+  });
+
+  points = points.filter((p, i) => {
+    const prev = points[(i - 1 + points.length) % points.length];
+    const next = points[(i + 1) % points.length];
+    const cross = (p.x - prev.x) * (next.z - p.z) - (p.z - prev.z) * (next.x - p.x);
+    return Math.abs(cross) > EPSILON;
+  });
+
+  if (points.length < 3) return null;
+
+  const area = signedArea2(points);
+  if (Math.abs(area) < EPSILON) return null;
+  return area > 0 ? points : [...points].reverse();
+}
+
+export function rectanglePolygon(center: PlanPosition, width: number, length: number): PlanPosition[] {
+  const halfWidth = width / 2;
+  const halfLength = length / 2;
+
+  return [
+    { x: center.x - halfWidth, z: center.z - halfLength },
+    { x: center.x + halfWidth, z: center.z - halfLength },
+    { x: center.x + halfWidth, z: center.z + halfLength },
+    { x: center.x - halfWidth, z: center.z + halfLength }
+  ];
+}
+
+export function pointInPolygon(point: PlanPosition, polygon: PlanPosition[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.z > point.z) !== (b.z > point.z) &&
+        point.x < (b.x - a.x) * (point.z - a.z) / (b.z - a.z) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+// North is +Z, matching the wall names rectangular rooms always had
+const COMPASS = ['East', 'Northeast', 'North', 'Northwest', 'West', 'Southwest', 'South', 'Southeast'];
+
+// Names the walls of a counter-clockwise polygon after the direction each
+// one faces: "North Wall", "North Wall 2", ...
+export function wallNames(polygon: PlanPosition[]): string[] {
+  const counts = new Map<string, number>();
+
+  return polygon.map((p, i) => {
+    const q = polygon[(i + 1) % polygon.length];
+    // Outward normal of a counter-clockwise edge
+    const angle = Math.atan2(-(q.x - p.x), q.z - p.z);
+    const direction = COMPASS[(Math.round(angle / (Math.PI / 4)) + 8) % 8];
+
+    const count = (counts.get(direction) || 0) + 1;
+    counts.set(direction, count);
+    return count === 1 ? `${direction} Wall` : `${direction} Wall ${count}`;
+  });
+}
+
+// Corners of the room; rooms saved before polygons were supported are
+// axis-aligned rectangles centred on their floor
+export function roomOutline(room: Room): PlanPosition[] {
+  if (room.polygon && room.polygon.length >= 3) return room.polygon;
+
+  return rectanglePolygon(room.floor.position, room.dimensions.width, room.dimensions.length);
+}
+
+export function roomBounds(room: Room): RoomBounds {
+  return polygonBounds(roomOutline(room));
+}
+
+// Overlap of two parallel edges lying within the tolerance of each other
+function sharedEdgeLength(a1: PlanPosition, a2: PlanPosition, b1: PlanPosition, b2: PlanPosition): number {
+  const length = Math.hypot(a2.x - a1.x, a2.z - a1.z);
+  if (length === 0) return 0;
+
+  const ux = (a2.x - a1.x) / length;
+  const uz = (a2.z - a1.z) / length;
+
+  // Perpendicular offsets of b's ends from a's line
+  const offset1 = (b1.x - a1.x) * -uz + (b1.z - a1.z) * ux;
+  const offset2 = (b2.x - a1.x) * -uz + (b2.z - a1.z) * ux;
+  if (Math.abs(offset1) > ADJACENCY_TOLERANCE || Math.abs(offset2) > ADJACENCY_TOLERANCE) return 0;
+
+  const t1 = (b1.x - a1.x) * ux + (b1.z - a1.z) * uz;
+  const t2 = (b2.x - a1.x) * ux + (b2.z - a1.z) * uz;
+  return Math.max(0, Math.min(length, Math.max(t1, t2)) - Math.max(0, Math.min(t1, t2)));
+}
+
+export function sharedBoundaryLength(a: Room, b: Room): number {
+  const outlineA = roomOutline(a);
+  const outlineB = roomOutline(b);
+
+  let total = 0;
+  outlineA.forEach((a1, i) => {
+    const a2 = outlineA[(i + 1) % outlineA.length];
+    outlineB.forEach((b1, j) => {
+      const b2 = outlineB[(j + 1) % outlineB.length];
+      total += sharedEdgeLength(a1, a2, b1, b2);
+    });
+  });
+  return total;
+}
+
+export function findAdjacentRooms(rooms: Room[], roomId: string): AdjacentRoom[] {
+  const room = rooms.find(r => r.id === roomId);
+  if (!room) return [];
+
+  return rooms
+    .filter(other => other.id !== roomId)
+    .map(other => ({ room: other, sharedLength: sharedBoundaryLength(room, other) }))
+    .filter(neighbour => neighbour.sharedLength >= MIN_SHARED_LENGTH)
+    .sort((a, b) => b.sharedLength - a.sharedLength);
+}
+
+// Centre for a new room: east of everything built so far, lined up with the
+// easternmost room's north edge, so consecutive rooms form a row.
+export function nextRoomPosition(rooms: Room[], dimensions: { width: number; length: number }): PlanPosition {
+  if (rooms.length === 0) return { x: 0, z: 0 };
+
+  const bounds = rooms.map(roomBounds);
+  const east = bounds.reduce((best, b) => b.maxX > best.maxX ? b : best);
+
+  return {
+    x: east.maxX + ROOM_SPACING + dimensions.width / 2,
+    z: east.minZ + dimensions.length / 2
+  };
+}
+
+// "Bedroom", "Bedroom 2", ... so rooms stay distinguishable in lists
+export function uniqueRoomName(rooms: Room[], baseName: string): string {
+  const names = new Set(rooms.map(room => room.name));
+  if (!names.has(baseName)) return baseName;
+
+  let index = 2;
+  while (names.has(`${baseName} ${index}`)) index++;
+  return `${baseName} ${index}`;
+}
@@ -0,0 +1,414 @@
+import { z } from "zod";
+import type { FloorPlan, ModelingObject, Room } from "../types/modeling";
+import type { CameraState, LoadedScene } from "./stores/useModeling";
+import { downloadBlob } from "./utils";
+import { attachRooms, listRooms } from "./rooms";
+
+// Version history:
+//   1.0 - objects only (rooms and floor plan were not written)
+//   1.1 - adds rooms, floor plan and camera
+//   1.2 - adds room polygons and floor/ceiling outlines (1.1 files load as is)
+//   1.3 - adds levels and stairs; objects and rooms without a level sit on the lowest
+//   1.4 - adds dimension annotations (floorPlan.measurements)
+//   1.5 - adds object groups (floorPlan.groups, object groupId)
+//   1.6 - adds hidden and locked categories (floorPlan.categoryStates)
+//   1.7 - adds drawing layers (floorPlan.layers, object layer)
+//   1.8 - adds per-object texture tiling (object textureRepeat)
+export const SCENE_FILE_VERSION = '1.8';
+
+const vector3Schema = z.object({
+  x: z.number(),
+  y: z.number(),
+  z: z.number()
+});
+
+const planPointSchema = z.object({
+  x: z.number(),
+  z: z.number()
+});
+
+export const modelingObjectSchema = z.object({
+  id: z.string().min(1),
+  type: z.enum(['cube', 'sphere', 'cylinder', 'cone', 'torus', 'plane', 'imported', 'wall', 'floor', 'ceiling', 'door', 'window', 'furniture', 'stairs']),
+  category: z.enum(['room', 'furniture', 'decoration', 'structure']).optional(),
+  subtype: z.string().optional(),
+  name: z.string().optional(),
+  position: vector3Schema,
+  rotation: vector3Schema,
+  scale: vector3Schema,
+  color: z.string(),
+  opacity: z.number().min(0).max(1).optional(),
+  modelPath: z.string().optional(),
+  material: z.enum(['standard', 'basic', 'phong', 'lambert', 'wood', 'metal', 'glass', 'fabric', 'leather', 'ceramic', 'marble', 'granite', 'plastic', 'stainless_steel', 'acrylic', 'mirror']).optional(),
+  textureRepeat: z.object({ x: z.number().positive(), y: z.number().positive() }).optional(),
+  wireframe: z.boolean().optional(),
+  visible: z.boolean().optional(),
+  room: z.string().optional(),
+  isStructural: z.boolean().optional(),
+  outline: z.array(planPointSchema).optional(),
+  hostId: z.string().optional(),
+  hostOffset: z.number().optional(),
+  sillHeight: z.number().min(0).optional(),
+  level: z.string().optional(),
+  connectsTo: z.string().optional(),
+  groupId: z.string().optional(),
+  layer: z.enum(['walls', 'electrical', 'furniture']).optional(),
+  gradient: z.object({
+    colors: z.array(z.string()),
+    direction: z.enum(['horizontal', 'vertical', 'radial'])
+  }).optional(),
+  isSelected: z.boolean().optional(),
+  isDraggable: z.boolean().optional()
+});
+
+export const roomSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  type: z.enum(['bedroom', 'living_room', 'kitchen', 'bathroom', 'office', 'custom']),
+  dimensions: z.object({
+    width: z.number().positive(),
+    length: z.number().positive(),
+    height: z.number().positive()
+  }),
+  polygon: z.array(planPointSchema).min(3).optional(),
+  level: z.string().optional(),
+  walls: z.array(modelingObjectSchema),
+  floor: modelingObjectSchema,
+  ceiling: modelingObjectSchema.optional(),
+  furniture: z.array(modelingObjectSchema),
+  doors: z.array(modelingObjectSchema),
+  windows: z.array(modelingObjectSchema)
+});
+
+export const levelSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  elevation: z.number(),
+  height: z.number().positive()
+});
+
+const measurementAnchorSchema = z.object({
+  point: planPointSchema,
+  objectId: z.string().optional(),
+  local: planPointSchema.optional()
+});
+
+export const measurementSchema = z.object({
+  id: z.string().min(1),
+  kind: z.enum(['distance', 'clearance']),
+  start: measurementAnchorSchema,
+  end: measurementAnchorSchema,
+  level: z.string().optional()
+});
+
+export const objectGroupSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  parentId: z.string().optional()
+});
+
+const layerSchema = z.object({
+  id: z.enum(['walls', 'electrical', 'furniture', 'annotations', 'underlay']),
+  visible: z.boolean(),
+  locked: z.boolean(),
+  color: z.string().optional(),
+  print: z.boolean()
+});
+
+const categoryStateSchema = z.object({
+  hidden: z.boolean().optional(),
+  locked: z.boolean().optional()
+});
+
+export const floorPlanSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  rooms: z.array(roomSchema),
+  levels: z.array(levelSchema).optional(),
+  measurements: z.array(measurementSchema).optional(),
+  groups: z.array(objectGroupSchema).optional(),
+  categoryStates: z.object({
+    structure: categoryStateSchema.optional(),
+    furniture: categoryStateSchema.optional(),
+    decoration: categoryStateSchema.optional(),
+    other: categoryStateSchema.optional()
+  }).optional(),
+  layers: z.array(layerSchema).optional(),
+  scale: z.number().positive(),
+  imageUrl: z.string().optional(),
+  imageSize: z.object({
+    width: z.number().positive(),
+    height: z.number().positive()
+  }).optional(),
+  calibrated: z.boolean().optional(),
+  dimensions: z.object({
+    width: z.number(),
+    length: z.number()
+  })
+});
+
+const cameraSchema = z.object({
+  position: vector3Schema,
+  target: vector3Schema
+});
+
+// Compile-time guards: the schemas must keep accepting exactly what the
+// app produces, so a change to modeling.ts fails here instead of at import.
+const _objectSchemaCheck: z.ZodType<ModelingObject> = modelingObjectSchema;
+const _roomSchemaCheck: z.ZodType<Room> = roomSchema;
+const _floorPlanSchemaCheck: z.ZodType<FloorPlan> = floorPlanSchema;
+
+// Only the envelope is validated strictly; entries are checked one by one so a
+// single bad object does not sink the whole file.
+const sceneFileEnvelopeSchema = z.object({
+  version: z.string().optional(),
+  timestamp: z.string().optional(),
+  objects: z.array(z.unknown()),
+  rooms: z.array(z.unknown()).optional(),
+  floorPlan: z.unknown().optional(),
+  camera: z.unknown().optional()
+});
+
+type SceneFileEnvelope = z.infer<typeof sceneFileEnvelopeSchema>;
+
+export interface SceneFileSource {
+  objects: ModelingObject[];
+  currentRoom: Room | null;
+  floorPlan: FloorPlan | null;
+  camera: CameraState;
+}
+
+export interface SceneImportIssue {
+  // Where the problem is, e.g. "objects[3]" or "rooms[0]"
+  path: string;
+  name?: string;
+  message: string;
+}
+
+export interface SceneImportResult {
+  scene: LoadedScene;
+  version: string;
+  objectCount: number;
+  errors: SceneImportIssue[];
+  warnings: SceneImportIssue[];
+}
+
+export class SceneFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SceneFileError';
+  }
+}
+
+const isBlobUrl = (url?: string) => !!url && url.startsWith('blob:');
+
+// `assetRefs` maps blob URLs to references that survive the export (used by
+// scene packages); any other blob URL is dropped since it dies with the tab.
+export function buildSceneFile(source: SceneFileSource, assetRefs?: Map<string, string>) {
+  const exportUrl = (url?: string) =>
+    url && assetRefs?.has(url) ? assetRefs.get(url) : isBlobUrl(url) ? undefined : url;
+
+  return {
+    objects: source.objects.map(obj => ({
+      ...obj,
+      // Don't export object URLs for imported models
+      modelPath: obj.type === 'imported' ? exportUrl(obj.modelPath) : obj.modelPath
+    })),
+    // Rooms are written once, at the top level
+    rooms: listRooms(source.currentRoom, source.floorPlan),
+    floorPlan: source.floorPlan
+      ? { ...source.floorPlan, rooms: [], imageUrl: exportUrl(source.floorPlan.imageUrl) }
+      : null,
+    camera: source.camera,
+    timestamp: new Date().toISOString(),
+    version: SCENE_FILE_VERSION
+  };
+}
+
+export function downloadJson(data: unknown, fileName: string, pretty = true) {
+  const blob = new Blob([JSON.stringify(data, null, pretty ? 2 : undefined)], {
+    type: 'application/json'
+  });
+
+  downloadBlob(blob, fileName);
+}
+
+export function downloadSceneFile(source: SceneFileSource, fileName: string) {
+  downloadJson(buildSceneFile(source), fileName);
+}
+
+const compareVersions = (a: string, b: string) => {
+  const [aMajor, aMinor = 0] = a.split('.').map(Number);
+  const [bMajor, bMinor = 0] = b.split('.').map(Number);
+  return aMajor !== bMajor ? aMajor - bMajor : aMinor - bMinor;
+};
+
+// Raw JSON is narrowed with these before anything reads from it, so a
+// malformed file ends up in the validation errors rather than throwing
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const stringField = (value: unknown, key: string): string | undefined => {
+  const field = isRecord(value) ? value[key] : undefined;
+  return typeof field === 'string' ? field : undefined;
+};
+
+const scaleOf = (value: unknown, axis: 'x' | 'y' | 'z'): number | undefined => {
+  const scale = isRecord(value) ? value.scale : undefined;
+  const size = isRecord(scale) ? scale[axis] : undefined;
+  return typeof size === 'number' ? size : undefined;
+};
+
+// 1.0 files carry no room records, but createRoom tags its floor and walls
+// with the room id, so the rooms can be rebuilt from those objects.
+function roomsFromObjects(objects: unknown[]): unknown[] {
+  const records = objects.filter(isRecord);
+  const roomIds = Array.from(new Set(
+    records.filter(obj => obj.type === 'floor')
+      .map(obj => stringField(obj, 'room'))
+      .filter((roomId): roomId is string => !!roomId)
+  ));
+
+  return roomIds.map(roomId => {
+    const members = records.filter(obj => obj.room === roomId);
+    const floor = members.find(obj => obj.type === 'floor');
+    const walls = members.filter(obj => obj.type === 'wall');
+    const roomTypes = ['bedroom', 'living_room', 'kitchen', 'bathroom', 'office'];
+    const floorType = stringField(floor, 'name')?.replace(/ Floor$/, '') ?? '';
+    const type = roomTypes.includes(floorType) ? floorType : 'custom';
+
+    return {
+      id: roomId,
+      name: type.replace('_', ' ').toUpperCase(),
+      type,
+      dimensions: {
+        width: scaleOf(floor, 'x') ?? 1,
+        length: scaleOf(floor, 'z') ?? 1,
+        height: scaleOf(walls[0], 'y') ?? 3
+      },
+      walls,
+      floor,
+      furniture: members.filter(obj => obj.type === 'furniture'),
+      doors: members.filter(obj => obj.type === 'door'),
+      windows: members.filter(obj => obj.type === 'window')
+    };
+  });
+}
+
+export function migrateSceneFile(envelope: SceneFileEnvelope): SceneFileEnvelope & { version: string } {
+  // Files written before versioning are treated as 1.0
+  const version = envelope.version || '1.0';
+
+  if (compareVersions(version, SCENE_FILE_VERSION) > 0) {
+    throw new SceneFileError(`Scene file version ${version} is newer than this app supports (${SCENE_FILE_VERSION})`);
+  }
+
+  let migrated: SceneFileEnvelope & { version: string } = { ...envelope, version };
+
+  if (compareVersions(migrated.version, '1.1') < 0) {
+    migrated = {
+      ...migrated,
+      rooms: roomsFromObjects(migrated.objects),
+      floorPlan: null,
+      camera: undefined,
+      version: '1.1'
+    };
+  }
+
+  return migrated;
+}
+
+const formatZodError = (error: z.ZodError) =>
+  error.issues
+    .map(issue => issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message)
+    .join('; ');
+
+export function parseSceneFile(text: string): SceneImportResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new SceneFileError('File is not valid JSON');
+  }
+
+  const envelope = sceneFileEnvelopeSchema.safeParse(raw);
+  if (!envelope.success) {
+    throw new SceneFileError(`Not a scene file: ${formatZodError(envelope.error)}`);
+  }
+
+  const originalVersion = envelope.data.version || '1.0';
+  const file = migrateSceneFile(envelope.data);
+  const errors: SceneImportIssue[] = [];
+  const warnings: SceneImportIssue[] = [];
+
+  const objects: ModelingObject[] = [];
+  const seenIds = new Set<string>();
+
+  file.objects.forEach((entry, index) => {
+    const path = `objects[${index}]`;
+    const name = stringField(entry, 'name');
+    const result = modelingObjectSchema.safeParse(entry);
+
+    if (!result.success) {
+      errors.push({ path, name, message: formatZodError(result.error) });
+      return;
+    }
+
+    const obj: ModelingObject = { ...result.data, isSelected: undefined };
+
+    if (seenIds.has(obj.id)) {
+      errors.push({ path, name, message: `Duplicate object id "${obj.id}"` });
+      return;
+    }
+    seenIds.add(obj.id);
+
+    if (obj.type === 'imported' && !obj.modelPath) {
+      warnings.push({ path, name, message: 'Imported model file was not included in the export and will show as a placeholder' });
+    }
+
+    objects.push(obj);
+  });
+
+  const rooms: Room[] = [];
+  (file.rooms || []).forEach((entry, index) => {
+    const result = roomSchema.safeParse(entry);
+    if (!result.success) {
+      errors.push({ path: `rooms[${index}]`, name: stringField(entry, 'name'), message: formatZodError(result.error) });
+      return;
+    }
+    rooms.push(result.data);
+  });
+
+  let floorPlan: FloorPlan | null = null;
+  if (file.floorPlan) {
+    const result = floorPlanSchema.safeParse(file.floorPlan);
+    if (result.success) {
+      floorPlan = result.data;
+    } else {
+      errors.push({ path: 'floorPlan', message: formatZodError(result.error) });
+    }
+  }
+
+  let camera: CameraState | null = null;
+  if (file.camera) {
+    const result = cameraSchema.safeParse(file.camera);
+    if (result.success) {
+      camera = result.data;
+    } else {
+      warnings.push({ path: 'camera', message: 'Camera could not be restored, using the default view' });
+    }
+  }
+
+  return {
+    scene: {
+      objects,
+      currentRoom: rooms[0] || null,
+      floorPlan: rooms.length ? attachRooms(floorPlan, rooms) : floorPlan,
+      camera
+    },
+    version: originalVersion,
+    objectCount: file.objects.length,
+    errors,
+    warnings
+  };
+}
@@ -0,0 +1,185 @@
+import { z } from "zod";
+import {
+  buildSceneFile,
+  downloadJson,
+  isRecord,
+  parseSceneFile,
+  SceneFileError,
+  type SceneFileSource,
+  type SceneImportResult
+} from "./sceneFile";
+
+// A scene package is a single JSON document holding a regular scene file
+// plus the binaries its blob URLs point at (imported GLB/glTF models and the
+// blueprint image), base64-encoded. References inside the scene use the
+// `asset:<id>` scheme and are turned back into blob URLs on load.
+export const SCENE_PACKAGE_FORMAT = 'precision-build-ai/scene-package';
+export const SCENE_PACKAGE_VERSION = 1;
+export const SCENE_PACKAGE_EXTENSION = '.pbpkg';
+
+const ASSET_SCHEME = 'asset:';
+
+const packagedAssetSchema = z.object({
+  name: z.string(),
+  mimeType: z.string(),
+  data: z.string()
+});
+
+const scenePackageSchema = z.object({
+  format: z.literal(SCENE_PACKAGE_FORMAT),
+  packageVersion: z.number().int(),
+  scene: z.record(z.unknown()),
+  assets: z.record(packagedAssetSchema)
+});
+
+export type PackagedAsset = z.infer<typeof packagedAssetSchema>;
+
+// An import result plus the blob URLs made for its packaged assets. They
+// belong to the scene once it's loaded and must be released if it isn't.
+export interface SceneDocument extends SceneImportResult {
+  assetUrls: string[];
+}
+
+export function releaseSceneAssets(document: SceneDocument) {
+  document.assetUrls.forEach(url => URL.revokeObjectURL(url));
+}
+
+const blobToBase64 = (blob: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => {
+    // Strip the "data:<mime>;base64," prefix
+    const result = reader.result as string;
+    resolve(result.slice(result.indexOf(',') + 1));
+  };
+  reader.onerror = () => reject(reader.error || new Error('Could not read asset'));
+  reader.readAsDataURL(blob);
+});
+
+const base64ToBlob = (data: string, mimeType: string) => {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+};
+
+export async function buildScenePackage(source: SceneFileSource) {
+  // Every blob URL the scene depends on, with a readable file name
+  const pending = new Map<string, string>();
+  source.objects.forEach(obj => {
+    if (obj.type === 'imported' && obj.modelPath?.startsWith('blob:') && !pending.has(obj.modelPath)) {
+      pending.set(obj.modelPath, `${obj.name || obj.id}.glb`);
+    }
+  });
+  if (source.floorPlan?.imageUrl?.startsWith('blob:')) {
+    pending.set(source.floorPlan.imageUrl, `${source.floorPlan.name || 'blueprint'}-image`);
+  }
+
+  const assets: Record<string, PackagedAsset> = {};
+  const assetRefs = new Map<string, string>();
+  let nextId = 1;
+
+  for (const [url, name] of Array.from(pending.entries())) {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new SceneFileError(`Could not read "${name}" for packaging`);
+    }
+
+    const blob = await response.blob();
+    const id = `asset_${nextId++}`;
+    assets[id] = {
+      name,
+      mimeType: blob.type || 'application/octet-stream',
+      data: await blobToBase64(blob)
+    };
+    assetRefs.set(url, `${ASSET_SCHEME}${id}`);
+  }
+
+  return {
+    format: SCENE_PACKAGE_FORMAT,
+    packageVersion: SCENE_PACKAGE_VERSION,
+    scene: buildSceneFile(source, assetRefs),
+    assets
+  };
+}
+
+export async function downloadScenePackage(source: SceneFileSource, fileName: string) {
+  // Base64 payloads are large already, skip pretty-printing
+  downloadJson(await buildScenePackage(source), fileName, false);
+}
+
+export function isScenePackage(raw: unknown): boolean {
+  return isRecord(raw) && raw.format === SCENE_PACKAGE_FORMAT;
+}
+
+export function parseScenePackage(raw: unknown): SceneDocument {
+  const parsed = scenePackageSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new SceneFileError('Scene package is damaged or incomplete');
+  }
+
+  const pkg = parsed.data;
+  if (pkg.packageVersion > SCENE_PACKAGE_VERSION) {
+    throw new SceneFileError(`Scene package version ${pkg.packageVersion} is newer than this app supports`);
+  }
+
+  const urls = new Map<string, string>();
+  const missing = new Set<string>();
+
+  const resolve = (value: unknown) => {
+    if (typeof value !== 'string' || !value.startsWith(ASSET_SCHEME)) return value;
+
+    const id = value.slice(ASSET_SCHEME.length);
+    const asset = pkg.assets[id];
+    if (!asset) {
+      missing.add(id);
+      return undefined;
+    }
+
+    if (!urls.has(id)) {
+      urls.set(id, URL.createObjectURL(base64ToBlob(asset.data, asset.mimeType)));
+    }
+    return urls.get(id);
+  };
+
+  const scene = pkg.scene;
+  const restored = {
+    ...scene,
+    objects: Array.isArray(scene.objects)
+      ? scene.objects.map((obj: unknown) => isRecord(obj) ? { ...obj, modelPath: resolve(obj.modelPath) } : obj)
+      : scene.objects,
+    floorPlan: isRecord(scene.floorPlan)
+      ? { ...scene.floorPlan, imageUrl: resolve(scene.floorPlan.imageUrl) }
+      : scene.floorPlan
+  };
+
+  const result: SceneDocument = { assetUrls: Array.from(urls.values()), ...parseSceneFileOrRelease(restored, urls) };
+  missing.forEach(id => {
+    result.warnings.push({ path: `assets.${id}`, message: 'Referenced asset is missing from the package' });
+  });
+
+  return result;
+}
+
+// A package whose scene fails to parse leaves no blob URLs behind
+function parseSceneFileOrRelease(scene: unknown, urls: Map<string, string>): SceneImportResult {
+  try {
+    return parseSceneFile(JSON.stringify(scene));
+  } catch (error) {
+    urls.forEach(url => URL.revokeObjectURL(url));
+    throw error;
+  }
+}
+
+// Entry point for the importer: accepts both plain scene files and packages
+export function readSceneDocument(text: string): SceneDocument {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new SceneFileError('File is not valid JSON');
+  }
+
+  return isScenePackage(raw) ? parseScenePackage(raw) : { ...parseSceneFile(text), assetUrls: [] };
+}
@@ -0,0 +1,308 @@
+import type { ModelingObject } from "../types/modeling";
+
+// Points on the ground plane, meters
+export interface PlanPosition {
+  x: number;
+  z: number;
+}
+
+export type SnapKind = 'endpoint' | 'wall' | 'angle' | 'grid' | 'none';
+
+export interface SnapResult {
+  point: PlanPosition;
+  kind: SnapKind;
+  // Wall the point landed on, for 'wall' and 'endpoint' snaps
+  wall?: ModelingObject;
+}
+
+export interface SnapOptions {
+  // Search radius for endpoints and walls, in meters
+  radius: number;
+  gridStep?: number;
+  // Previous point of the chain being drawn, enables angle snapping
+  origin?: PlanPosition | null;
+  // 0 turns angle snapping off
+  angleStep?: number;
+  walls?: ModelingObject[];
+  // Loose points that snap like wall ends, e.g. the first corner of an
+  // outline being drawn
+  points?: PlanPosition[];
+}
+
+export const DEFAULT_GRID_STEP = 0.1;
+export const DEFAULT_ANGLE_STEP = Math.PI / 12;
+
+// What placing and moving snap to; chosen by the user and shared by the 2D
+// plan, the 3D view and the drawing tools
+export interface SnapSettings {
+  grid: boolean;
+  // Meters
+  gridSize: number;
+  angle: boolean;
+  // Degrees, for rotation and drawn segments
+  angleStep: number;
+  // Objects come to rest against wall faces
+  walls: boolean;
+  // Object edges and centres line up with other objects'
+  objects: boolean;
+}
+
+export const DEFAULT_SNAP_SETTINGS: SnapSettings = {
+  grid: true,
+  gridSize: DEFAULT_GRID_STEP,
+  angle: true,
+  angleStep: 15,
+  walls: true,
+  objects: true
+};
+
+const distance = (a: PlanPosition, b: PlanPosition) => Math.hypot(a.x - b.x, a.z - b.z);
+
+export function snapToGrid(point: PlanPosition, step = DEFAULT_GRID_STEP): PlanPosition {
+  return {
+    x: Math.round(point.x / step) * step,
+    z: Math.round(point.z / step) * step
+  };
+}
+
+// Direction from origin rounded to the nearest angle step, length preserved
+export function snapAngle(origin: PlanPosition, point: PlanPosition, step = DEFAULT_ANGLE_STEP): PlanPosition {
+  const length = distance(origin, point);
+  const angle = Math.round(Math.atan2(point.z - origin.z, point.x - origin.x) / step) * step;
+  return {
+    x: origin.x + Math.cos(angle) * length,
+    z: origin.z + Math.sin(angle) * length
+  };
+}
+
+export function projectOntoSegment(point: PlanPosition, a: PlanPosition, b: PlanPosition) {
+  const dx = b.x - a.x;
+  const dz = b.z - a.z;
+  const lengthSq = dx * dx + dz * dz;
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.z - a.z) * dz) / lengthSq));
+  const projected = { x: a.x + t * dx, z: a.z + t * dz };
+  return { point: projected, t, distance: distance(point, projected) };
+}
+
+// Centre line of a wall object; walls are unit boxes stretched along local X
+export function wallEndpoints(wall: ModelingObject): [PlanPosition, PlanPosition] {
+  const half = wall.scale.x / 2;
+  const cos = Math.cos(wall.rotation.y);
+  const sin = Math.sin(wall.rotation.y);
+  // A positive Y rotation turns local +X towards -Z
+  return [
+    { x: wall.position.x - cos * half, z: wall.position.z + sin * half },
+    { x: wall.position.x + cos * half, z: wall.position.z - sin * half }
+  ];
+}
+
+export function snapPoint(point: PlanPosition, options: SnapOptions): SnapResult {
+  const walls = options.walls || [];
+
+  let best: SnapResult | null = null;
+  let bestDistance = options.radius;
+  (options.points || []).forEach(end => {
+    const d = distance(point, end);
+    if (d <= bestDistance) {
+      bestDistance = d;
+      best = { point: end, kind: 'endpoint' };
+    }
+  });
+  walls.forEach(wall => {
+    wallEndpoints(wall).forEach(end => {
+      const d = distance(point, end);
+      if (d <= bestDistance) {
+        bestDistance = d;
+        best = { point: end, kind: 'endpoint', wall };
+      }
+    });
+  });
+  if (best) return best;
+
+  bestDistance = options.radius;
+  walls.forEach(wall => {
+    const [a, b] = wallEndpoints(wall);
+    const projection = projectOntoSegment(point, a, b);
+    if (projection.distance <= bestDistance) {
+      bestDistance = projection.distance;
+      best = { point: projection.point, kind: 'wall', wall };
+    }
+  });
+  if (best) return best;
+
+  if (options.origin && options.angleStep !== 0) {
+    const angled = snapAngle(options.origin, point, options.angleStep);
+    if (distance(angled, point) <= options.radius) {
+      return { point: angled, kind: 'angle' };
+    }
+  }
+
+  if (options.gridStep) {
+    return { point: snapToGrid(point, options.gridStep), kind: 'grid' };
+  }
+
+  return { point, kind: 'none' };
+}
+
+// Grid and angle options for snapPoint under the user's settings
+export function pointSnapOptions(settings: SnapSettings): Pick<SnapOptions, 'gridStep' | 'angleStep'> {
+  return {
+    gridStep: settings.grid ? settings.gridSize : undefined,
+    angleStep: settings.angle ? settings.angleStep * Math.PI / 180 : 0
+  };
+}
+
+export function snapRotation(angle: number, settings: SnapSettings): number {
+  if (!settings.angle || !(settings.angleStep > 0)) return angle;
+  const step = settings.angleStep * Math.PI / 180;
+  return Math.round(angle / step) * step;
+}
+
+// Half the size of an object's footprint measured along a plan direction
+function extentAlong(obj: ModelingObject, dir: PlanPosition): number {
+  const cos = Math.cos(obj.rotation.y);
+  const sin = Math.sin(obj.rotation.y);
+  // Local +X lies along (cos, -sin) on the plan, local +Z along (sin, cos)
+  return (Math.abs(dir.x * cos - dir.z * sin) * obj.scale.x + Math.abs(dir.x * sin + dir.z * cos) * obj.scale.z) / 2;
+}
+
+export interface ObjectSnapResult {
+  position: PlanPosition;
+  kind: 'wall' | 'object' | 'grid' | 'none';
+  // Wall the object came to rest against
+  wall?: ModelingObject;
+  // Plan lines the object lined up with, for alignment guides
+  guides: { x?: number; z?: number };
+}
+
+export interface ObjectSnapOptions {
+  settings: SnapSettings;
+  // Meters
+  radius: number;
+  walls: ModelingObject[];
+  // Objects to line up with; the one being moved is skipped
+  objects: ModelingObject[];
+}
+
+// Moves `obj`, placed at `position`, against the nearest wall face within
+// the radius; a second, crossing wall is met by sliding along the first, so
+// objects settle into corners
+function snapToWalls(obj: ModelingObject, position: PlanPosition, walls: ModelingObject[], radius: number) {
+  let point = position;
+  let contact: { wall: ModelingObject; along: PlanPosition } | null = null;
+
+  for (let pass = 0; pass < 2; pass++) {
+    let best: { wall: ModelingObject; along: PlanPosition; point: PlanPosition } | null = null;
+    let bestShift = radius;
+
+    for (const wall of walls) {
+      if (wall.id === obj.id || wall.id === contact?.wall.id) continue;
+      const [a, b] = wallEndpoints(wall);
+      const length = distance(a, b);
+      if (length === 0) continue;
+
+      const u = { x: (b.x - a.x) / length, z: (b.z - a.z) / length };
+      const n = { x: -u.z, z: u.x };
+      const dx = point.x - wall.position.x;
+      const dz = point.z - wall.position.z;
+      // Only walls the object is actually beside
+      if (Math.abs(dx * u.x + dz * u.z) >= length / 2 + extentAlong(obj, u)) continue;
+
+      const across = dx * n.x + dz * n.z;
+      const target = Math.sign(across || 1) * (wall.scale.z / 2 + extentAlong(obj, n));
+
+      // With a contact made, slide along that wall instead of away from it
+      const direction: PlanPosition = contact ? contact.along : n;
+      const rate = direction.x * n.x + direction.z * n.z;
+      if (Math.abs(rate) < 0.1) continue;
+      const shift = (target - across) / rate;
+
+      if (Math.abs(shift) <= bestShift) {
+        bestShift = Math.abs(shift);
+        best = { wall, along: u, point: { x: point.x + direction.x * shift, z: point.z + direction.z * shift } };
+      }
+    }
+
+    if (!best) break;
+    point = best.point;
+    if (!contact) contact = { wall: best.wall, along: best.along };
+  }
+
+  return contact ? { point, wall: contact.wall } : null;
+}
+
+// Nearest match of the moved object's edges or centre on one axis against
+// other objects' edges and centres
+function alignAxis(
+  center: number,
+  half: number,
+  others: { center: number; half: number }[],
+  radius: number
+): { offset: number; guide: number } | null {
+  let best: { offset: number; guide: number } | null = null;
+  let bestDistance = radius;
+
+  others.forEach(other => {
+    const lines = [other.center - other.half, other.center, other.center + other.half];
+    [-half, 0, half].forEach(own => {
+      lines.forEach(line => {
+        // Centres only line up with centres
+        if ((own === 0) !== (line === other.center)) return;
+        const offset = line - (center + own);
+        if (Math.abs(offset) <= bestDistance) {
+          bestDistance = Math.abs(offset);
+          best = { offset, guide: line };
+        }
+      });
+    });
+  });
+
+  return best;
+}
+
+// Where a moved object settles: against a wall face, else lined up with
+// other objects, else on the grid (each axis on its own)
+export function snapObjectPosition(obj: ModelingObject, position: PlanPosition, options: ObjectSnapOptions): ObjectSnapResult {
+  const { settings, radius } = options;
+
+  // Doors and windows in a wall are kept in it by the wall itself
+  if (settings.walls && obj.type !== 'wall' && !obj.hostId) {
+    const contact = snapToWalls(obj, position, options.walls, radius);
+    if (contact) return { position: contact.point, kind: 'wall', wall: contact.wall, guides: {} };
+  }
+
+  const result: ObjectSnapResult = { position: { ...position }, kind: 'none', guides: {} };
+
+  const others = settings.objects && !obj.hostId
+    ? options.objects.filter(other => other.id !== obj.id && other.hostId !== obj.id)
+    : [];
+  (['x', 'z'] as const).forEach(axis => {
+    const dir = axis === 'x' ? { x: 1, z: 0 } : { x: 0, z: 1 };
+    const aligned = alignAxis(
+      position[axis],
+      extentAlong(obj, dir),
+      others.map(other => ({ center: other.position[axis], half: extentAlong(other, dir) })),
+      radius
+    );
+
+    if (aligned) {
+      result.position[axis] = position[axis] + aligned.offset;
+      result.guides[axis] = aligned.guide;
+      result.kind = 'object';
+    } else if (settings.grid && settings.gridSize > 0) {
+      result.position[axis] = Math.round(position[axis] / settings.gridSize) * settings.gridSize;
+      if (result.kind === 'none') result.kind = 'grid';
+    }
+  });
+
+  return result;
+}
+
+// What an object moving among `objects` (usually those on its level) snaps
+// against: walls by their faces, furniture and the like by their edges
+export function objectSnapTargets(objects: ModelingObject[]): Pick<ObjectSnapOptions, 'walls' | 'objects'> {
+  return {
+    walls: objects.filter(obj => obj.type === 'wall'),
+    objects: objects.filter(obj => obj.type !== 'wall' && obj.type !== 'floor' && obj.type !== 'ceiling')
+  };
+}
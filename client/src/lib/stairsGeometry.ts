@@ -0,0 +1,20 @@
+import * as THREE from "three";
+
+// Unit-box flight of stairs (X across, Y up, Z along the run, climbing
+// towards +Z): a sawtooth side profile extruded across the flight.
+export function createStairsGeometry(steps: number): THREE.BufferGeometry {
+  const shape = new THREE.Shape();
+  shape.moveTo(-0.5, -0.5);
+  for (let i = 0; i < steps; i++) {
+    shape.lineTo(-0.5 + i / steps, -0.5 + (i + 1) / steps);
+    shape.lineTo(-0.5 + (i + 1) / steps, -0.5 + (i + 1) / steps);
+  }
+  shape.lineTo(0.5, -0.5);
+  shape.closePath();
+
+  // Profile X becomes the run (+Z), the extrusion runs across the flight
+  const geometry = new THREE.ExtrudeGeometry(shape, { depth: 1, bevelEnabled: false });
+  geometry.translate(0, 0, -0.5);
+  geometry.rotateY(-Math.PI / 2);
+  return geometry;
+}
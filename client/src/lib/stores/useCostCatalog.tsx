@@ -0,0 +1,31 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import type { CurrencyCode } from "../costCatalog";
+
+// Unit prices the estimator works with; only prices changed from the default
+// catalog are kept, in the browser so they carry over between projects
+interface CostCatalogState {
+  currency: CurrencyCode;
+  overrides: Record<string, number>;
+
+  setCurrency: (currency: CurrencyCode) => void;
+  setPrice: (key: string, price: number) => void;
+  resetPrices: () => void;
+}
+
+export const useCostCatalog = create<CostCatalogState>()(
+  persist(
+    (set) => ({
+      currency: 'USD',
+      overrides: {},
+
+      setCurrency: (currency) => set({ currency }),
+      setPrice: (key, price) => {
+        if (!(price >= 0)) return;
+        set(state => ({ overrides: { ...state.overrides, [key]: price } }));
+      },
+      resetPrices: () => set({ overrides: {} })
+    }),
+    { name: 'cost-catalog' }
+  )
+);
@@ -0,0 +1,35 @@
+import { create } from "zustand";
+
+export type DrawingTool = 'select' | 'room' | 'wall' | 'door' | 'window' | 'measure';
+
+// Point to point, or the gap between an object and a wall
+export type MeasureMode = 'distance' | 'clearance';
+
+// Drawing tool settings shared by the 2D plan and the 3D scene
+interface DrawingState {
+  tool: DrawingTool;
+  wallThickness: number;
+  wallHeight: number;
+  measureMode: MeasureMode;
+
+  setTool: (tool: DrawingTool) => void;
+  setWallThickness: (thickness: number) => void;
+  setWallHeight: (height: number) => void;
+  setMeasureMode: (mode: MeasureMode) => void;
+}
+
+export const useDrawing = create<DrawingState>((set) => ({
+  tool: 'select',
+  wallThickness: 0.2,
+  wallHeight: 3,
+  measureMode: 'distance',
+
+  setTool: (tool) => set({ tool }),
+  setWallThickness: (thickness) => {
+    if (thickness > 0) set({ wallThickness: thickness });
+  },
+  setWallHeight: (height) => {
+    if (height > 0) set({ wallHeight: height });
+  },
+  setMeasureMode: (measureMode) => set({ measureMode })
+}));
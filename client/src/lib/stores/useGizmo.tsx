@@ -0,0 +1,24 @@
+import { create } from "zustand";
+
+export type GizmoMode = 'move' | 'rotate' | 'scale';
+
+// Move and rotate handles follow the world axes or the object's own; scale
+// handles are always the object's
+export type GizmoSpace = 'world' | 'local';
+
+// Transform gizmo shown on the selected object in the 3D view
+interface GizmoState {
+  mode: GizmoMode | null;
+  space: GizmoSpace;
+
+  setMode: (mode: GizmoMode | null) => void;
+  setSpace: (space: GizmoSpace) => void;
+}
+
+export const useGizmo = create<GizmoState>((set) => ({
+  mode: null,
+  space: 'world',
+
+  setMode: (mode) => set({ mode }),
+  setSpace: (space) => set({ space })
+}));
@@ -1,298 +1,1370 @@
 import { create } from "zustand";
 import { subscribeWithSelector } from "zustand/middleware";
-import { ModelingObject, Room, FloorPlan } from "../../types/modeling";
+import { ModelingObject, ObjectGroup, Room, FloorPlan, Level, Measurement, MeasurementAnchor, Vector3, DisplayCategory, CategoryState, Layer, LayerId } from "../../types/modeling";
+import type { BlueprintLayout } from "../blueprintAnalysis";
+import { DEFAULT_BLUEPRINT_WIDTH_METERS, planDimensions, readImageSize } from "../blueprintScale";
+import {
+  attachRooms,
+  createFloorPlan,
+  findAdjacentRooms,
+  listRooms,
+  nextRoomPosition,
+  normalizePolygon,
+  polygonBounds,
+  rectanglePolygon,
+  roomOutline,
+  uniqueRoomName,
+  wallNames,
+  type AdjacentRoom
+} from "../rooms";
+import {
+  clampPlacement,
+  findFreeOffset,
+  hostedOpenings,
+  openingTransform,
+  syncOpenings,
+  type OpeningPlacement
+} from "../openings";
+import {
+  STAIR_TREAD,
+  isOnLevel,
+  levelAbove,
+  levelOf,
+  listLevels,
+  nextLevelName,
+  resolveLevel,
+  roomsOnLevel,
+  stackLevels,
+  stairSteps
+} from "../levels";
+import { detachMeasurements } from "../measurements";
+import {
+  groupAncestors,
+  isInGroup,
+  listGroups,
+  nextGroupName,
+  pruneGroups,
+  rootGroups,
+  selectionUnit,
+  transformAbout,
+  type GroupChange,
+  type SelectionMode
+} from "../groups";
+import { getLayer } from "../layers";
+
+// Scene data covered by undo/redo. UI-only state (selection, view mode) is
+// deliberately left out so undoing never flips the user's view around.
+interface SceneSnapshot {
+  objects: ModelingObject[];
+  currentRoom: Room | null;
+  floorPlan: FloorPlan | null;
+}
+
+interface HistoryEntry {
+  label: string;
+  snapshot: SceneSnapshot;
+  // Consecutive entries sharing a key (e.g. slider drags on one object) are
+  // merged into a single step while they keep arriving quickly.
+  key?: string;
+  timestamp: number;
+}
+
+const MAX_HISTORY_ENTRIES = 100;
+const HISTORY_MERGE_WINDOW_MS = 1000;
+
+// After an undo or redo the next edit starts a step of its own, however
+// soon it comes
+const unmergeable = (past: HistoryEntry[]): HistoryEntry[] => {
+  const last = past[past.length - 1];
+  return last?.key ? [...past.slice(0, -1), { ...last, key: undefined }] : past;
+};
+
+export interface CameraState {
+  position: Vector3;
+  target: Vector3;
+}
+
+export interface LoadedScene {
+  objects: ModelingObject[];
+  currentRoom: Room | null;
+  floorPlan: FloorPlan | null;
+  camera?: CameraState | null;
+}
+
+export interface RoomOptions {
+  name?: string;
+  // Centre of the floor; by default the room is placed beside the others
+  position?: { x: number; z: number };
+}
+
+export interface StairsOptions {
+  // Foot of the flight on the ground plane; the current room's centre by default
+  position?: { x: number; z: number };
+  width?: number;
+  rotation?: number;
+}
+
+export interface WallOptions {
+  height?: number;
+  thickness?: number;
+  room?: string;
+  name?: string;
+}
+
+const DEFAULT_WALL_HEIGHT = 3;
+const DEFAULT_WALL_THICKNESS = 0.2;
+
+// Opening sizes and sill levels, meters
+const OPENING_DEFAULTS = {
+  door: { width: 0.9, height: 2.1, sill: 0, color: '#8B4513', material: 'wood' },
+  window: { width: 1.2, height: 1.2, sill: 0.9, color: '#87CEEB', material: 'glass' }
+} as const;
+
+const DEFAULT_CAMERA: CameraState = {
+  position: { x: 10, y: 10, z: 10 },
+  target: { x: 0, y: 0, z: 0 }
+};
 
 interface ModelingState {
   objects: ModelingObject[];
+  // Last object picked; the gizmo and editor panels follow it
   selectedObject: ModelingObject | null;
+  // Everything selected, including selectedObject
+  selectedIds: string[];
+  // Selected room; always one of floorPlan.rooms
   currentRoom: Room | null;
   floorPlan: FloorPlan | null;
   viewMode: '2d' | '3d';
+  camera: CameraState;
+  // Level shown in the 2D plan and receiving new objects; falls back to the
+  // lowest level when it no longer exists
+  activeLevelId: string | null;
+  hideUpperLevels: boolean;
+
+  // Server project the scene was opened from / last saved to
+  projectId: number | null;
+  projectName: string | null;
+
+  // History
+  past: HistoryEntry[];
+  future: HistoryEntry[];
   
+
   // Actions
+  // Objects created without a level go on the active one, their y measured
+  // from its floor
   createObject: (params: Omit<ModelingObject, 'id'>) => ModelingObject;
   updateObject: (id: string, updates: Partial<ModelingObject>) => void;
   deleteObject: (id: string) => void;
   duplicateObject: (id: string) => ModelingObject | null;
-  selectObject: (id: string | null) => void;
+  // Picks an object the way the views do: with everything in its outermost
+  // group. 'add' and 'toggle' keep the rest of the selection (Shift-click).
+  selectObject: (id: string | null, mode?: SelectionMode) => void;
+  // Selects exactly these objects, e.g. one member of a group
+  selectObjects: (ids: string[], mode?: SelectionMode) => void;
+
+  // Selection Actions
+  // Same changes to every object, as one undo step
+  updateObjects: (ids: string[], updates: Partial<ModelingObject>) => void;
+  // Moves, turns or resizes the objects together about `pivot`
+  transformObjects: (ids: string[], pivot: Vector3, change: GroupChange) => void;
+  deleteObjects: (ids: string[]) => void;
+  // Copies the objects; groups copied whole are copied with them
+  duplicateObjects: (ids: string[]) => ModelingObject[];
+  // New group holding the objects, or the whole groups they fill; nested in
+  // their group when they all share one. Null for fewer than two items.
+  groupObjects: (ids: string[], name?: string) => ObjectGroup | null;
+  // Hands the group's contents to its parent group, or to none
+  ungroup: (groupId: string) => void;
+  // Takes apart the outermost groups the objects are in
+  ungroupObjects: (ids: string[]) => void;
+  renameGroup: (groupId: string, name: string) => void;
+  // Puts objects straight into a group, or takes them out of any (null)
+  moveToGroup: (ids: string[], groupId: string | null) => void;
+  // Nests a group in another, or makes it outermost (null); a group can't go
+  // inside itself or its own subgroups
+  moveGroup: (groupId: string, parentId: string | null) => void;
+  // Hides or locks every object of a category, on top of their own flags
+  setCategoryState: (category: DisplayCategory, changes: Partial<CategoryState>) => void;
+  setLayer: (id: LayerId, changes: Partial<Omit<Layer, 'id'>>) => void;
   clearScene: () => void;
   importModel: (file: File) => Promise<ModelingObject>;
   
   // Room Actions
-  createRoom: (type: Room['type'], dimensions: Room['dimensions']) => Room;
+  createRoom: (type: Room['type'], dimensions: Room['dimensions'], options?: RoomOptions) => Room;
+  // Room bounded by a polygon (ground plane corners, either winding) with one
+  // wall per edge; null when the outline has no area
+  createPolygonRoom: (
+    type: Room['type'],
+    polygon: { x: number; z: number }[],
+    options?: { height?: number; name?: string }
+  ) => Room | null;
   updateRoom: (roomId: string, updates: Partial<Room>) => void;
+  renameRoom: (roomId: string, name: string) => void;
+  // Removes the room and every object tagged with it; walls it shares with
+  // another room are handed over instead of deleted
+  deleteRoom: (roomId: string) => void;
   selectRoom: (roomId: string | null) => void;
+  getAdjacentRooms: (roomId: string) => AdjacentRoom[];
   addFurniture: (roomId: string, furnitureType: string, position: any) => ModelingObject;
+  // Straight wall between two points on the ground plane (x/z, meters)
+  createWall: (start: { x: number; z: number }, end: { x: number; z: number }, options?: WallOptions) => ModelingObject;
+  // Door or window spanning start..end; set into `hostId` when given,
+  // otherwise free-standing and oriented along start..end
+  createOpening: (
+    kind: 'door' | 'window',
+    start: { x: number; z: number },
+    end: { x: number; z: number },
+    options?: { thickness?: number; room?: string; hostId?: string }
+  ) => ModelingObject;
+  // Door or window set into a wall; it cuts the wall and follows it around
+  addOpening: (wallId: string, kind: 'door' | 'window', placement?: Partial<OpeningPlacement>) => ModelingObject | null;
+
+  // Level Actions
+  // New level on top of the highest one; becomes the active level
+  addLevel: (options?: { name?: string; height?: number }) => Level;
+  // Levels above an edited one are restacked; objects move with their level
+  updateLevel: (levelId: string, updates: Partial<Omit<Level, 'id'>>) => void;
+  // Removes the level with its rooms and objects; the last level stays
+  deleteLevel: (levelId: string) => void;
+  setActiveLevel: (levelId: string) => void;
+  setHideUpperLevels: (hide: boolean) => void;
+  // Flight from the active level up to the next one; null on the top level
+  addStairs: (options?: StairsOptions) => ModelingObject | null;
+  // Ceilings for rooms on the active level that have none (older scenes)
+  addCeilings: () => number;
+
+  // Measurement Actions
+  // Dimension line on the active level; anchors pinned to objects follow them.
+  // Dimensions aren't added or removed while the annotations layer is locked.
+  addMeasurement: (kind: Measurement['kind'], start: MeasurementAnchor, end: MeasurementAnchor) => Measurement | null;
+  deleteMeasurement: (id: string) => void;
+  // Removes the active level's dimension lines
+  clearMeasurements: () => void;
   
   // View Actions
   setViewMode: (mode: '2d' | '3d') => void;
+  setCamera: (camera: CameraState) => void;
+
+  // Project Actions
+  // Replaces the whole scene. Opening a saved project starts history fresh;
+  // importing a file passes `undoable` so the previous scene can be restored.
+  loadScene: (scene: LoadedScene, options?: { undoable?: boolean }) => void;
+  setProject: (projectId: number | null, projectName: string | null) => void;
   
   // Blueprint Actions
   importBlueprint: (file: File) => Promise<FloorPlan>;
+  // Sets the blueprint's pixels-per-meter, e.g. from a measured distance;
+  // not while the underlay layer is locked
+  calibrateBlueprint: (pixelsPerMeter: number) => void;
+  // Replaces the active level with walls and rooms detected in the blueprint
+  applyBlueprintLayout: (layout: BlueprintLayout, options?: { wallHeight?: number }) => Room[];
+
+  // History Actions
+  // Transactions nest; only the outermost commit records an undo step, so
+  // compound actions (createRoom) and pointer drags undo as a single unit.
+  beginTransaction: (label: string, key?: string) => void;
+  // Abandons the open transaction, putting the scene back as it was when it
+  // began (e.g. a drag cancelled with Escape)
+  cancelTransaction: () => void;
+  commitTransaction: () => void;
+  undo: () => void;
+  redo: () => void;
+  clearHistory: () => void;
 }
 
 export const useModeling = create<ModelingState>()(
-  subscribeWithSelector((set, get) => ({
-    objects: [],
-    selectedObject: null,
-    currentRoom: null,
-    floorPlan: null,
-    viewMode: '3d',
-
-    createObject: (params) => {
-      const newObject: ModelingObject = {
-        ...params,
-        id: `obj_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      };
+  subscribeWithSelector((set, get) => {
+    let pendingTransaction: {
+      label: string;
+      key?: string;
+      depth: number;
+      snapshot: SceneSnapshot;
+    } | null = null;
 
-      set(state => ({
-        objects: [...state.objects, newObject],
-        selectedObject: newObject
-      }));
+    const takeSnapshot = (): SceneSnapshot => {
+      const { objects, currentRoom, floorPlan } = get();
+      return { objects, currentRoom, floorPlan };
+    };
 
-      return newObject;
-    },
+    const restoreSnapshot = (snapshot: SceneSnapshot) => {
+      // Layer settings stay as they are; they aren't part of history
+      const layers = get().floorPlan?.layers;
+      const floorPlan = layers ? { ...(snapshot.floorPlan || createFloorPlan()), layers } : snapshot.floorPlan;
+      // The level being shown may be one the restored plan doesn't have
+      const { activeLevelId: shown } = get();
+      const activeLevelId = listLevels(floorPlan).some(level => level.id === shown) ? shown : null;
+      set({ ...snapshot, floorPlan, activeLevelId, ...keepSelection(snapshot.objects) });
+    };
 
-    updateObject: (id, updates) => {
-      set(state => ({
-        objects: state.objects.map(obj =>
-          obj.id === id ? { ...obj, ...updates } : obj
-        ),
-        selectedObject: state.selectedObject?.id === id
-          ? { ...state.selectedObject, ...updates }
-          : state.selectedObject
-      }));
-    },
-
-    deleteObject: (id) => {
-      set(state => ({
-        objects: state.objects.filter(obj => obj.id !== id),
-        selectedObject: state.selectedObject?.id === id ? null : state.selectedObject
-      }));
-    },
-
-    duplicateObject: (id) => {
-      const { objects, createObject } = get();
-      const originalObject = objects.find(obj => obj.id === id);
-      
-      if (!originalObject) return null;
-
-      const duplicate = createObject({
-        ...originalObject,
-        name: originalObject.name ? `${originalObject.name} Copy` : undefined,
-        position: {
-          x: originalObject.position.x + 1,
-          y: originalObject.position.y,
-          z: originalObject.position.z + 1
-        }
-      });
+    const transact = <T,>(label: string, fn: () => T, key?: string): T => {
+      get().beginTransaction(label, key);
+      try {
+        return fn();
+      } finally {
+        get().commitTransaction();
+      }
+    };
 
-      return duplicate;
-    },
+    const activeLevel = (): Level => resolveLevel(listLevels(get().floorPlan), get().activeLevelId);
 
-    selectObject: (id) => {
-      const { objects } = get();
-      const objectToSelect = id ? objects.find(obj => obj.id === id) : null;
-      
-      set({
-        selectedObject: objectToSelect
-      });
-    },
+    // Selection narrowed to objects that still exist, with fresh copies of
+    // them; the last one left leads if the leading object went
+    const keepSelection = (objects: ModelingObject[]) => {
+      const { selectedObject, selectedIds } = get();
+      const ids = selectedIds.filter(id => objects.some(obj => obj.id === id));
+      const primaryId = selectedObject && ids.includes(selectedObject.id) ? selectedObject.id : ids[ids.length - 1];
+      return {
+        selectedObject: objects.find(obj => obj.id === primaryId) || null,
+        selectedIds: ids
+      };
+    };
 
-    clearScene: () => {
-      set({
-        objects: [],
-        selectedObject: null
-      });
-    },
+    // Dimension lines pinned to objects that are going away stay where they
+    // are; groups left empty go
+    const detachFrom = (floorPlan: FloorPlan | null, removed: ModelingObject[]): FloorPlan | null => {
+      if (!floorPlan) return floorPlan;
+      const removedIds = new Set(removed.map(obj => obj.id));
+      return {
+        ...floorPlan,
+        ...(floorPlan.measurements && {
+          measurements: detachMeasurements(floorPlan.measurements, get().objects, removedIds)
+        }),
+        ...(floorPlan.groups && {
+          groups: pruneGroups(floorPlan.groups, get().objects.filter(obj => !removedIds.has(obj.id)))
+        })
+      };
+    };
 
-    importModel: async (file) => {
-      // Create object URL for the file
-      const objectUrl = URL.createObjectURL(file);
-      
-      const { createObject } = get();
-      const importedObject = createObject({
-        type: 'imported',
-        modelPath: objectUrl,
-        name: file.name.split('.')[0],
-        color: '#ffffff',
-        position: { x: 0, y: 1, z: 0 },
-        scale: { x: 2.5, y: 2.5, z: 2.5 },
-        rotation: { x: 0, y: 0, z: 0 }
-      });
+    const setGroups = (groups: ObjectGroup[]) => {
+      set(state => ({ floorPlan: { ...(state.floorPlan || createFloorPlan()), groups } }));
+    };
 
-      return importedObject;
-    },
+    // Floor or ceiling slab filling a polygon, `y` above the active level
+    const createSurface = (
+      type: 'floor' | 'ceiling',
+      name: string,
+      polygon: { x: number; z: number }[],
+      y: number,
+      roomId: string
+    ): ModelingObject => {
+      const bounds = polygonBounds(polygon);
+      const center = { x: (bounds.minX + bounds.maxX) / 2, z: (bounds.minZ + bounds.maxZ) / 2 };
 
-    // Room Actions
-    createRoom: (type, dimensions) => {
-      const roomId = `room_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      
-      // Create floor
-      const floor = get().createObject({
-        type: 'floor',
+      return get().createObject({
+        type,
         category: 'room',
-        name: `${type} Floor`,
-        position: { x: 0, y: 0, z: 0 },
-        scale: { x: dimensions.width, y: 0.1, z: dimensions.length },
+        name: `${name} ${type === 'floor' ? 'Floor' : 'Ceiling'}`,
+        position: { x: center.x, y, z: center.z },
+        scale: { x: 1, y: 1, z: 1 },
         rotation: { x: 0, y: 0, z: 0 },
-        color: '#8B7355',
+        outline: polygon.map(p => ({ x: p.x - center.x, z: p.z - center.z })),
+        color: type === 'floor' ? '#8B7355' : '#F0F0F0',
         room: roomId,
         isStructural: true
       });
+    };
 
-      // Create walls
-      const walls = [
-        // North wall
-        get().createObject({
-          type: 'wall',
-          category: 'room',
-          name: 'North Wall',
-          position: { x: 0, y: dimensions.height / 2, z: dimensions.length / 2 },
-          scale: { x: dimensions.width, y: dimensions.height, z: 0.2 },
-          rotation: { x: 0, y: 0, z: 0 },
-          color: '#F5F5F5',
-          room: roomId,
-          isStructural: true
-        }),
-        // South wall
-        get().createObject({
-          type: 'wall',
-          category: 'room',
-          name: 'South Wall',
-          position: { x: 0, y: dimensions.height / 2, z: -dimensions.length / 2 },
-          scale: { x: dimensions.width, y: dimensions.height, z: 0.2 },
-          rotation: { x: 0, y: 0, z: 0 },
-          color: '#F5F5F5',
-          room: roomId,
-          isStructural: true
-        }),
-        // East wall
-        get().createObject({
-          type: 'wall',
-          category: 'room',
-          name: 'East Wall',
-          position: { x: dimensions.width / 2, y: dimensions.height / 2, z: 0 },
-          scale: { x: 0.2, y: dimensions.height, z: dimensions.length },
-          rotation: { x: 0, y: 0, z: 0 },
-          color: '#F5F5F5',
-          room: roomId,
-          isStructural: true
-        }),
-        // West wall
-        get().createObject({
-          type: 'wall',
-          category: 'room',
-          name: 'West Wall',
-          position: { x: -dimensions.width / 2, y: dimensions.height / 2, z: 0 },
-          scale: { x: 0.2, y: dimensions.height, z: dimensions.length },
-          rotation: { x: 0, y: 0, z: 0 },
-          color: '#F5F5F5',
-          room: roomId,
-          isStructural: true
-        })
-      ];
+    // Floor, ceiling and walls for a counter-clockwise polygon on the active
+    // level; callers open the transaction
+    const buildRoom = (type: Room['type'], polygon: { x: number; z: number }[], height: number, name?: string): Room => {
+      const roomId = `room_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+      const existingRooms = get().floorPlan?.rooms || [];
+      const bounds = polygonBounds(polygon);
+
+      const floor = createSurface('floor', type, polygon, 0, roomId);
+      const ceiling = createSurface('ceiling', type, polygon, height, roomId);
+
+      // Walls run corner to corner; the renderers miter where they meet
+      const names = wallNames(polygon);
+      const walls = polygon.map((start, index) =>
+        get().createWall(start, polygon[(index + 1) % polygon.length], { height, room: roomId, name: names[index] })
+      );
 
       const room: Room = {
         id: roomId,
-        name: type.replace('_', ' ').toUpperCase(),
+        name: name || uniqueRoomName(existingRooms, type.replace('_', ' ').toUpperCase()),
         type,
-        dimensions,
+        dimensions: {
+          width: bounds.maxX - bounds.minX,
+          length: bounds.maxZ - bounds.minZ,
+          height
+        },
+        polygon,
+        level: activeLevel().id,
         walls,
         floor,
+        ceiling,
         furniture: [],
         doors: [],
         windows: []
       };
 
       set(state => ({
+        floorPlan: attachRooms(state.floorPlan, [room]),
         currentRoom: room
       }));
 
       return room;
-    },
+    };
 
-    updateRoom: (roomId, updates) => {
-      set(state => ({
-        currentRoom: state.currentRoom?.id === roomId 
-          ? { ...state.currentRoom, ...updates }
-          : state.currentRoom
-      }));
-    },
-
-    selectRoom: (roomId) => {
-      // Implementation for room selection
-      set({ selectedObject: null });
-    },
-
-    addFurniture: (roomId, furnitureType, position) => {
-      const furnitureColors: Record<string, string> = {
-        bed: '#8B4513',
-        chair: '#654321',
-        table: '#D2691E',
-        dining_table: '#CD853F',
-        sofa: '#4A4A4A',
-        desk: '#8B7355',
-        wardrobe: '#696969',
-        tv_stand: '#2F4F4F',
-        counter: '#8B7355',
-        refrigerator: '#C0C0C0',
-        toilet: '#FFFFFF',
-        sink: '#F5F5F5',
-        bathtub: '#FFFFFF',
-        nightstand: '#654321',
-        bookshelf: '#8B4513'
-      };
+    return {
+      objects: [],
+      selectedObject: null,
+      selectedIds: [],
+      currentRoom: null,
+      floorPlan: null,
+      viewMode: '3d',
+      camera: DEFAULT_CAMERA,
+      activeLevelId: null,
+      hideUpperLevels: false,
+      projectId: null,
+      projectName: null,
+      past: [],
+      future: [],
 
-      const furnitureScales: Record<string, { x: number; y: number; z: number }> = {
-        bed: { x: 2, y: 0.5, z: 1 },
-        chair: { x: 0.5, y: 1, z: 0.5 },
-        table: { x: 1.5, y: 0.8, z: 0.8 },
-        dining_table: { x: 2, y: 0.8, z: 1.2 },
-        sofa: { x: 2, y: 0.8, z: 0.8 },
-        desk: { x: 1.2, y: 0.8, z: 0.6 },
-        wardrobe: { x: 1, y: 2, z: 0.6 },
-        tv_stand: { x: 1.5, y: 0.6, z: 0.4 },
-        counter: { x: 2, y: 0.8, z: 0.6 },
-        refrigerator: { x: 0.6, y: 2, z: 0.6 },
-        toilet: { x: 0.6, y: 0.8, z: 0.8 },
-        sink: { x: 0.6, y: 0.8, z: 0.4 },
-        bathtub: { x: 1.5, y: 0.6, z: 0.8 },
-        nightstand: { x: 0.5, y: 0.6, z: 0.4 },
-        bookshelf: { x: 0.4, y: 2, z: 1.5 }
-      };
+      createObject: (params) => transact('Create object', () => {
+        const level = activeLevel();
+        const placed = params.level
+          ? params
+          : { ...params, level: level.id, position: { ...params.position, y: params.position.y + level.elevation } };
+        const newObject: ModelingObject = {
+          ...placed,
+          id: `obj_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        };
 
-      return get().createObject({
-        type: 'furniture',
-        category: 'furniture',
-        subtype: furnitureType,
-        name: furnitureType.charAt(0).toUpperCase() + furnitureType.slice(1),
-        position: position || { x: 0, y: 0.5, z: 0 },
-        scale: furnitureScales[furnitureType] || { x: 1, y: 1, z: 1 },
-        rotation: { x: 0, y: 0, z: 0 },
-        color: furnitureColors[furnitureType] || '#8B4513',
-        room: roomId
-      });
-    },
+        // Hosted openings snap into their wall
+        const objects = syncOpenings([...get().objects, newObject], new Set([newObject.id]));
+        const created = objects.find(obj => obj.id === newObject.id)!;
+
+        set({
+          objects,
+          selectedObject: created,
+          selectedIds: [created.id]
+        });
+
+        return created;
+      }),
+
+      updateObject: (id, updates) => transact('Edit object', () => {
+        // Openings in an edited wall move with it; an opening that was moved
+        // or resized stays in its wall
+        const moved = 'position' in updates || 'scale' in updates;
+        const objects = syncOpenings(
+          get().objects.map(obj => obj.id === id ? { ...obj, ...updates } : obj),
+          new Set(moved ? [id] : [])
+        );
+
+        set({ objects, ...keepSelection(objects) });
+      }, `update:${id}:${Object.keys(updates).sort().join(',')}`),
 
-    setViewMode: (mode) => {
-      set({ viewMode: mode });
-    },
+      // Deleting a wall takes its doors and windows with it
+      deleteObject: (id) => transact('Delete object', () => {
+        set(state => {
+          const objects = state.objects.filter(obj => obj.id !== id && obj.hostId !== id);
+          return {
+            objects,
+            floorPlan: detachFrom(state.floorPlan, state.objects.filter(obj => !objects.includes(obj))),
+            ...keepSelection(objects)
+          };
+        });
+      }),
 
-    importBlueprint: async (file) => {
-      const imageUrl = URL.createObjectURL(file);
+      duplicateObject: (id) => transact('Duplicate object', () => {
+        const { objects, createObject } = get();
+        const originalObject = objects.find(obj => obj.id === id);
       
-      const floorPlan: FloorPlan = {
-        id: `plan_${Date.now()}`,
-        name: file.name.split('.')[0],
-        rooms: [],
-        scale: 1,
-        imageUrl,
-        dimensions: { width: 20, length: 20 }
-      };
+        if (!originalObject) return null;
+
+        const duplicate = createObject({
+          ...originalObject,
+          level: levelOf(originalObject, listLevels(get().floorPlan)).id,
+          name: originalObject.name ? `${originalObject.name} Copy` : undefined,
+          position: {
+            x: originalObject.position.x + 1,
+            y: originalObject.position.y,
+            z: originalObject.position.z + 1
+          }
+        });
+
+        return duplicate;
+      }),
+
+      selectObject: (id, mode = 'replace') => {
+        const { objects, floorPlan, selectObjects } = get();
+        const objectToSelect = id ? objects.find(obj => obj.id === id) : null;
+
+        if (!objectToSelect) {
+          if (mode === 'replace') set({ selectedObject: null, selectedIds: [] });
+          return;
+        }
+        selectObjects(selectionUnit(objectToSelect, objects, listGroups(floorPlan)), mode);
+        // The object picked leads, unless it was just toggled off
+        if (get().selectedIds.includes(objectToSelect.id)) set({ selectedObject: objectToSelect });
+      },
+
+      selectObjects: (ids, mode = 'replace') => {
+        const { objects, selectedIds } = get();
+        const known = ids.filter(id => objects.some(obj => obj.id === id));
+
+        let next: string[];
+        if (mode === 'replace') {
+          next = known;
+        } else if (mode === 'add') {
+          next = [...selectedIds, ...known.filter(id => !selectedIds.includes(id))];
+        } else {
+          // Toggling a group that is partly selected selects all of it
+          const allSelected = known.every(id => selectedIds.includes(id));
+          next = allSelected
+            ? selectedIds.filter(id => !known.includes(id))
+            : [...selectedIds, ...known.filter(id => !selectedIds.includes(id))];
+        }
+
+        const { selectedObject } = get();
+        const primaryId = selectedObject && next.includes(selectedObject.id) && mode !== 'replace'
+          ? selectedObject.id
+          : next[next.length - 1];
+        set({
+          selectedIds: next,
+          selectedObject: objects.find(obj => obj.id === primaryId) || null
+        });
+      },
+
+      updateObjects: (ids, updates) => transact('Edit objects', () => {
+        ids.forEach(id => get().updateObject(id, updates));
+      }, `update-many:${ids.join(',')}:${Object.keys(updates).sort().join(',')}`),
+
+      transformObjects: (ids, pivot, change) => transact('Transform objects', () => {
+        const moved = new Set(ids);
+        const objects = syncOpenings(
+          get().objects.map(obj => moved.has(obj.id) ? { ...obj, ...transformAbout(obj, pivot, change) } : obj),
+          moved
+        );
+        set({ objects, ...keepSelection(objects) });
+      }, `transform:${ids.join(',')}`),
+
+      deleteObjects: (ids) => transact('Delete objects', () => {
+        ids.forEach(id => get().deleteObject(id));
+      }),
+
+      duplicateObjects: (ids) => transact('Duplicate objects', () => {
+        const { objects, floorPlan } = get();
+        const groups = listGroups(floorPlan);
+        const originals = objects.filter(obj => ids.includes(obj.id));
+
+        // Groups whose members are all being copied get copies of their own
+        const copiedGroups = new Map<string, ObjectGroup>();
+        groups
+          .filter(group => objects.every(obj => !isInGroup(obj, group.id, groups) || ids.includes(obj.id)))
+          .forEach(group => copiedGroups.set(group.id, {
+            ...group,
+            id: `group_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+            name: `${group.name} Copy`
+          }));
+        const copyOf = (groupId?: string) => groupId ? copiedGroups.get(groupId)?.id ?? groupId : undefined;
+        const added: ObjectGroup[] = [];
+        copiedGroups.forEach(group => added.push({ ...group, parentId: copyOf(group.parentId) }));
+        if (added.length) setGroups([...groups, ...added]);
+
+        const duplicates = originals.map(original => {
+          const duplicate = get().duplicateObject(original.id)!;
+          if (original.groupId) get().updateObject(duplicate.id, { groupId: copyOf(original.groupId) });
+          return duplicate;
+        });
+        get().selectObjects(duplicates.map(obj => obj.id));
+        return get().objects.filter(obj => duplicates.some(d => d.id === obj.id));
+      }),
+
+      groupObjects: (ids, name) => transact('Group objects', () => {
+        const { objects, floorPlan } = get();
+        const groups = listGroups(floorPlan);
+        const selected = objects.filter(obj => ids.includes(obj.id));
+
+        // Each object goes in as part of the largest group it fills, if any
+        const unitOf = (obj: ModelingObject): ObjectGroup | ModelingObject => {
+          let unit: ObjectGroup | ModelingObject = obj;
+          groupAncestors(obj.groupId, groups).forEach(group => {
+            const members = objects.filter(o => isInGroup(o, group.id, groups));
+            if (members.every(member => ids.includes(member.id))) unit = group;
+          });
+          return unit;
+        };
+        const units = Array.from(new Set(selected.map(unitOf)));
+        if (units.length < 2) return null;
+
+        const parentOf = (unit: ObjectGroup | ModelingObject) => 'position' in unit ? unit.groupId : unit.parentId;
+        const parents = new Set(units.map(parentOf));
+        const group: ObjectGroup = {
+          id: `group_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          name: name || nextGroupName(groups),
+          ...(parents.size === 1 && parentOf(units[0]) ? { parentId: parentOf(units[0]) } : {})
+        };
+
+        setGroups([
+          ...groups.map(g => units.includes(g) ? { ...g, parentId: group.id } : g),
+          group
+        ]);
+        const objectIds = new Set(units.filter((unit): unit is ModelingObject => 'position' in unit).map(obj => obj.id));
+        set(state => {
+          const next = state.objects.map(obj => objectIds.has(obj.id) ? { ...obj, groupId: group.id } : obj);
+          return { objects: next, ...keepSelection(next) };
+        });
+        return group;
+      }),
+
+      ungroup: (groupId) => transact('Ungroup', () => {
+        const groups = listGroups(get().floorPlan);
+        const group = groups.find(g => g.id === groupId);
+        if (!group) return;
+
+        setGroups(groups
+          .filter(g => g.id !== groupId)
+          .map(g => g.parentId === groupId ? { ...g, parentId: group.parentId } : g));
+        set(state => {
+          const objects = state.objects.map(obj => obj.groupId === groupId ? { ...obj, groupId: group.parentId } : obj);
+          return { objects, ...keepSelection(objects) };
+        });
+      }),
+
+      ungroupObjects: (ids) => transact('Ungroup', () => {
+        const { objects, floorPlan, ungroup } = get();
+        rootGroups(objects.filter(obj => ids.includes(obj.id)), listGroups(floorPlan)).forEach(group => ungroup(group.id));
+      }),
+
+      renameGroup: (groupId, name) => transact('Rename group', () => {
+        const groups = listGroups(get().floorPlan);
+        if (!groups.some(g => g.id === groupId)) return;
+        setGroups(groups.map(g => g.id === groupId ? { ...g, name } : g));
+      }, `rename-group:${groupId}`),
+
+      moveToGroup: (ids, groupId) => transact('Move to group', () => {
+        const { floorPlan } = get();
+        const groups = listGroups(floorPlan);
+        if (groupId && !groups.some(g => g.id === groupId)) return;
+
+        const objects = get().objects.map(obj => ids.includes(obj.id) ? { ...obj, groupId: groupId ?? undefined } : obj);
+        set({ objects, ...keepSelection(objects) });
+        // Groups emptied by the move go
+        setGroups(pruneGroups(groups, objects));
+      }),
+
+      moveGroup: (groupId, parentId) => transact('Move group', () => {
+        const groups = listGroups(get().floorPlan);
+        if (!groups.some(g => g.id === groupId)) return;
+        if (parentId && groupAncestors(parentId, groups).some(g => g.id === groupId)) return;
+
+        const moved = groups.map(g => g.id === groupId ? { ...g, parentId: parentId ?? undefined } : g);
+        setGroups(pruneGroups(moved, get().objects));
+      }),
+
+      setCategoryState: (category, changes) => transact('Change category', () => {
+        set(state => {
+          const floorPlan = state.floorPlan || createFloorPlan();
+          const categoryStates = {
+            ...floorPlan.categoryStates,
+            [category]: { ...floorPlan.categoryStates?.[category], ...changes }
+          };
+          return { floorPlan: { ...floorPlan, categoryStates } };
+        });
+      }),
+
+      // View state like the level being shown: saved with the project but
+      // not an undo step
+      setLayer: (id, changes) => {
+        set(state => {
+          const floorPlan = state.floorPlan || createFloorPlan();
+          const layer = { ...getLayer(floorPlan, id), ...changes };
+          const layers = [...(floorPlan.layers || []).filter(l => l.id !== id), layer];
+          return { floorPlan: { ...floorPlan, layers } };
+        });
+      },
+
+      clearScene: () => transact('Clear scene', () => {
+        set(state => ({
+          objects: [],
+          selectedObject: null,
+          selectedIds: [],
+          currentRoom: null,
+          floorPlan: state.floorPlan ? { ...state.floorPlan, rooms: [], measurements: [], groups: [] } : null
+        }));
+      }),
+
+      importModel: async (file) => {
+        // Create object URL for the file
+        const objectUrl = URL.createObjectURL(file);
+      
+        const { createObject } = get();
+        const importedObject = createObject({
+          type: 'imported',
+          modelPath: objectUrl,
+          name: file.name.split('.')[0],
+          color: '#ffffff',
+          position: { x: 0, y: 1, z: 0 },
+          scale: { x: 2.5, y: 2.5, z: 2.5 },
+          rotation: { x: 0, y: 0, z: 0 }
+        });
+
+        return importedObject;
+      },
+
+      // Room Actions
+      createRoom: (type, dimensions, options = {}) => transact('Create room', () => {
+        const levels = listLevels(get().floorPlan);
+        const existingRooms = roomsOnLevel(get().floorPlan?.rooms || [], activeLevel().id, levels);
+        const center = options.position || nextRoomPosition(existingRooms, dimensions);
+
+        return buildRoom(
+          type,
+          rectanglePolygon(center, dimensions.width, dimensions.length),
+          dimensions.height,
+          options.name
+        );
+      }),
+
+      createPolygonRoom: (type, polygon, options = {}) => {
+        const corners = normalizePolygon(polygon);
+        if (!corners) return null;
+
+        return transact('Create room', () =>
+          buildRoom(type, corners, options.height ?? DEFAULT_WALL_HEIGHT, options.name)
+        );
+      },
+
+      updateRoom: (roomId, updates) => transact('Edit room', () => {
+        const room = get().floorPlan?.rooms.find(r => r.id === roomId);
+        if (!room) return;
+
+        const updated = { ...room, ...updates, id: roomId };
+        set(state => ({
+          floorPlan: attachRooms(state.floorPlan, [updated]),
+          currentRoom: state.currentRoom?.id === roomId ? updated : state.currentRoom
+        }));
+      }, `update-room:${roomId}:${Object.keys(updates).sort().join(',')}`),
+
+      renameRoom: (roomId, name) => {
+        const trimmed = name.trim();
+        if (!trimmed) return;
+        get().updateRoom(roomId, { name: trimmed });
+      },
+
+      deleteRoom: (roomId) => transact('Delete room', () => {
+        const { floorPlan, objects } = get();
+        if (!floorPlan?.rooms.some(room => room.id === roomId)) return;
+
+        const remaining = floorPlan.rooms.filter(room => room.id !== roomId);
+
+        // Blueprint rooms list shared walls under both rooms, tagged with one
+        const heirs = new Map<string, string>();
+        remaining.forEach(room => {
+          room.walls.forEach(wall => {
+            if (!heirs.has(wall.id)) heirs.set(wall.id, room.id);
+          });
+        });
+
+        // Openings stay with a wall that is handed over
+        const heirOf = (obj: ModelingObject) => heirs.get(obj.id) ?? (obj.hostId ? heirs.get(obj.hostId) : undefined);
+        const nextObjects = objects
+          .filter(obj => obj.room !== roomId || heirOf(obj))
+          .map(obj => obj.room === roomId ? { ...obj, room: heirOf(obj) } : obj);
+
+        set(state => ({
+          objects: nextObjects,
+          floorPlan: {
+            ...detachFrom(floorPlan, objects.filter(obj => !nextObjects.some(next => next.id === obj.id)))!,
+            rooms: remaining
+          },
+          currentRoom: state.currentRoom?.id === roomId ? remaining[0] || null : state.currentRoom,
+          ...keepSelection(nextObjects)
+        }));
+      }),
+
+      selectRoom: (roomId) => {
+        const room = roomId ? get().floorPlan?.rooms.find(r => r.id === roomId) || null : null;
+        if (roomId && !room) return;
+
+        set(state => ({
+          currentRoom: room,
+          selectedObject: null,
+          selectedIds: [],
+          activeLevelId: room ? levelOf(room, listLevels(state.floorPlan)).id : state.activeLevelId
+        }));
+      },
+
+      // Rooms on other levels never share a wall
+      getAdjacentRooms: (roomId) => {
+        const rooms = get().floorPlan?.rooms || [];
+        const levels = listLevels(get().floorPlan);
+        const room = rooms.find(r => r.id === roomId);
+        if (!room) return [];
+        return findAdjacentRooms(roomsOnLevel(rooms, levelOf(room, levels).id, levels), roomId);
+      },
+
+      addFurniture: (roomId, furnitureType, position) => transact('Add furniture', () => {
+        const furnitureColors: Record<string, string> = {
+          bed: '#8B4513',
+          chair: '#654321',
+          table: '#D2691E',
+          dining_table: '#CD853F',
+          sofa: '#4A4A4A',
+          desk: '#8B7355',
+          wardrobe: '#696969',
+          tv_stand: '#2F4F4F',
+          counter: '#8B7355',
+          refrigerator: '#C0C0C0',
+          toilet: '#FFFFFF',
+          sink: '#F5F5F5',
+          bathtub: '#FFFFFF',
+          nightstand: '#654321',
+          bookshelf: '#8B4513'
+        };
+
+        const furnitureScales: Record<string, { x: number; y: number; z: number }> = {
+          bed: { x: 2, y: 0.5, z: 1 },
+          chair: { x: 0.5, y: 1, z: 0.5 },
+          table: { x: 1.5, y: 0.8, z: 0.8 },
+          dining_table: { x: 2, y: 0.8, z: 1.2 },
+          sofa: { x: 2, y: 0.8, z: 0.8 },
+          desk: { x: 1.2, y: 0.8, z: 0.6 },
+          wardrobe: { x: 1, y: 2, z: 0.6 },
+          tv_stand: { x: 1.5, y: 0.6, z: 0.4 },
+          counter: { x: 2, y: 0.8, z: 0.6 },
+          refrigerator: { x: 0.6, y: 2, z: 0.6 },
+          toilet: { x: 0.6, y: 0.8, z: 0.8 },
+          sink: { x: 0.6, y: 0.8, z: 0.4 },
+          bathtub: { x: 1.5, y: 0.6, z: 0.8 },
+          nightstand: { x: 0.5, y: 0.6, z: 0.4 },
+          bookshelf: { x: 0.4, y: 2, z: 1.5 }
+        };
+
+        return get().createObject({
+          type: 'furniture',
+          category: 'furniture',
+          subtype: furnitureType,
+          name: furnitureType.charAt(0).toUpperCase() + furnitureType.slice(1),
+          position: position || { x: 0, y: 0.5, z: 0 },
+          scale: furnitureScales[furnitureType] || { x: 1, y: 1, z: 1 },
+          rotation: { x: 0, y: 0, z: 0 },
+          color: furnitureColors[furnitureType] || '#8B4513',
+          room: roomId
+        });
+      }),
+
+      createWall: (start, end, options = {}) => transact('Create wall', () => {
+        const height = options.height ?? DEFAULT_WALL_HEIGHT;
+        const dx = end.x - start.x;
+        const dz = end.z - start.z;
+
+        // Unit box stretched along local X, turned to run from start to end
+        return get().createObject({
+          type: 'wall',
+          category: 'room',
+          name: options.name || 'Wall',
+          position: { x: (start.x + end.x) / 2, y: height / 2, z: (start.z + end.z) / 2 },
+          scale: { x: Math.hypot(dx, dz), y: height, z: options.thickness ?? DEFAULT_WALL_THICKNESS },
+          rotation: { x: 0, y: Math.atan2(-dz, dx), z: 0 },
+          color: '#F5F5F5',
+          room: options.room,
+          isStructural: true
+        });
+      }),
+
+      createOpening: (kind, start, end, options = {}) => {
+        const defaults = OPENING_DEFAULTS[kind];
+        const host = options.hostId
+          ? get().objects.find(obj => obj.id === options.hostId && obj.type === 'wall')
+          : undefined;
+
+        if (host) {
+          // Offsets of both clicks along the wall
+          const along = (p: { x: number; z: number }) =>
+            (p.x - host.position.x) * Math.cos(host.rotation.y) - (p.z - host.position.z) * Math.sin(host.rotation.y);
+          const a = along(start);
+          const b = along(end);
+          const opening = get().addOpening(host.id, kind, { offset: (a + b) / 2, width: Math.abs(b - a) });
+          if (opening) return opening;
+        }
+
+        const dx = end.x - start.x;
+        const dz = end.z - start.z;
+
+        return transact(kind === 'door' ? 'Create door' : 'Create window', () => get().createObject({
+          type: kind,
+          category: 'structure',
+          name: kind === 'door' ? 'Door' : 'Window',
+          position: { x: (start.x + end.x) / 2, y: defaults.sill + defaults.height / 2, z: (start.z + end.z) / 2 },
+          // Slightly thicker than the wall so it shows through both faces
+          scale: { x: Math.hypot(dx, dz), y: defaults.height, z: (options.thickness ?? DEFAULT_WALL_THICKNESS) + 0.05 },
+          rotation: { x: 0, y: Math.atan2(-dz, dx), z: 0 },
+          color: defaults.color,
+          material: defaults.material,
+          room: options.room,
+          isStructural: true
+        }));
+      },
+
+      addOpening: (wallId, kind, placement = {}) => {
+        const { objects } = get();
+        const wall = objects.find(obj => obj.id === wallId && obj.type === 'wall');
+        if (!wall) return null;
+
+        const defaults = OPENING_DEFAULTS[kind];
+        const width = placement.width ?? defaults.width;
+        const resolved = clampPlacement(wall, {
+          offset: placement.offset ?? findFreeOffset(wall, hostedOpenings(objects, wallId), width),
+          width,
+          height: placement.height ?? defaults.height,
+          sill: placement.sill ?? defaults.sill
+        });
+
+        return transact(kind === 'door' ? 'Create door' : 'Create window', () => get().createObject({
+          type: kind,
+          category: 'structure',
+          name: kind === 'door' ? 'Door' : 'Window',
+          ...openingTransform(wall, resolved),
+          color: defaults.color,
+          material: defaults.material,
+          room: wall.room,
+          level: levelOf(wall, listLevels(get().floorPlan)).id,
+          isStructural: true,
+          hostId: wall.id,
+          hostOffset: resolved.offset,
+          sillHeight: resolved.sill
+        }));
+      },
+
+      // Level Actions
+      addLevel: (options = {}) => transact('Add level', () => {
+        const levels = listLevels(get().floorPlan);
+        const top = levels[levels.length - 1];
+        const level: Level = {
+          id: `level_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          name: options.name?.trim() || nextLevelName(levels),
+          elevation: top.elevation + top.height,
+          height: options.height ?? top.height
+        };
+
+        set(state => ({
+          floorPlan: { ...(state.floorPlan || createFloorPlan()), levels: [...levels, level] }
+        }));
+        get().setActiveLevel(level.id);
+
+        return level;
+      }),
+
+      updateLevel: (levelId, updates) => transact('Edit level', () => {
+        const levels = listLevels(get().floorPlan);
+        if (!levels.some(level => level.id === levelId)) return;
+        if (updates.height !== undefined && !(updates.height > 0)) return;
+
+        const edited = levels
+          .map(level => level.id === levelId ? { ...level, ...updates, id: levelId } : level)
+          .sort((a, b) => a.elevation - b.elevation);
+        const next = stackLevels(edited, levelId);
+
+        const shift = new Map(next.map(level => [
+          level.id,
+          level.elevation - levels.find(previous => previous.id === level.id)!.elevation
+        ]));
+        const moved = get().objects.map(obj => {
+          const level = levelOf(obj, next);
+          let updated = obj;
+
+          const delta = shift.get(level.id) || 0;
+          if (delta) updated = { ...updated, position: { ...updated.position, y: updated.position.y + delta } };
+
+          // Stairs keep reaching the level above
+          if (obj.type === 'stairs') {
+            const target = next.find(l => l.id === obj.connectsTo) || levelAbove(next, level.id);
+            const rise = target ? target.elevation - level.elevation : level.height;
+            if (rise > 0 && Math.abs(rise - obj.scale.y) > 1e-6) {
+              updated = {
+                ...updated,
+                position: { ...updated.position, y: level.elevation + rise / 2 },
+                scale: { ...updated.scale, y: rise, z: stairSteps(rise) * STAIR_TREAD }
+              };
+            }
+          }
+          return updated;
+        });
+        const objects = syncOpenings(moved, new Set());
+
+        set(state => ({
+          objects,
+          floorPlan: { ...(state.floorPlan || createFloorPlan()), levels: next },
+          ...keepSelection(objects)
+        }));
+      }, `update-level:${levelId}:${Object.keys(updates).sort().join(',')}`),
+
+      deleteLevel: (levelId) => transact('Delete level', () => {
+        const { floorPlan, objects } = get();
+        const levels = listLevels(floorPlan);
+        const removed = levels.find(level => level.id === levelId);
+        if (!floorPlan || levels.length < 2 || !removed) return;
+
+        const remainingLevels = levels.filter(level => level.id !== levelId);
+        const rooms = floorPlan.rooms.filter(room => !isOnLevel(room, levelId, levels));
+        const nextObjects = objects
+          .filter(obj => !isOnLevel(obj, levelId, levels))
+          // Stairs up to the removed level lead nowhere now
+          .filter(obj => obj.connectsTo !== levelId);
+        const measurements = (floorPlan.measurements || []).filter(m => !isOnLevel(m, levelId, levels));
+
+        set(state => ({
+          objects: nextObjects,
+          floorPlan: {
+            ...detachFrom(floorPlan, objects.filter(obj => !nextObjects.includes(obj)))!,
+            rooms,
+            levels: remainingLevels,
+            measurements
+          },
+          currentRoom: state.currentRoom && rooms.includes(state.currentRoom) ? state.currentRoom : null,
+          ...keepSelection(nextObjects)
+        }));
+
+        if (get().activeLevelId === levelId) {
+          const below = [...remainingLevels].reverse().find(level => level.elevation < removed.elevation);
+          get().setActiveLevel((below || remainingLevels[0]).id);
+        }
+      }),
+
+      setActiveLevel: (levelId) => {
+        const { floorPlan, currentRoom, objects } = get();
+        const levels = listLevels(floorPlan);
+        if (!levels.some(level => level.id === levelId)) return;
+
+        // Keep the selection only if it is on the level being shown
+        const rooms = roomsOnLevel(floorPlan?.rooms || [], levelId, levels);
+        set({
+          activeLevelId: levelId,
+          currentRoom: currentRoom && rooms.includes(currentRoom) ? currentRoom : rooms[0] || null,
+          ...keepSelection(objects.filter(obj => isOnLevel(obj, levelId, levels)))
+        });
+      },
+
+      setHideUpperLevels: (hide) => {
+        set({ hideUpperLevels: hide });
+      },
+
+      addStairs: (options = {}) => {
+        const levels = listLevels(get().floorPlan);
+        const level = activeLevel();
+        const target = levelAbove(levels, level.id);
+        if (!target) return null;
+
+        const rise = target.elevation - level.elevation;
+        const { currentRoom } = get();
+        const foot = options.position || (currentRoom
+          ? { x: currentRoom.floor.position.x, z: currentRoom.floor.position.z }
+          : { x: 0, z: 0 });
+
+        // Unit box: X across the flight, Y the rise, Z the run (climbing
+        // towards +Z)
+        return transact('Add stairs', () => get().createObject({
+          type: 'stairs',
+          category: 'structure',
+          name: `Stairs to ${target.name}`,
+          position: { x: foot.x, y: rise / 2, z: foot.z },
+          scale: { x: options.width ?? 1, y: rise, z: stairSteps(rise) * STAIR_TREAD },
+          rotation: { x: 0, y: options.rotation ?? 0, z: 0 },
+          color: '#A0826D',
+          material: 'wood',
+          room: currentRoom?.id,
+          connectsTo: target.id,
+          isStructural: true
+        }));
+      },
+
+      addCeilings: () => transact('Add ceilings', () => {
+        const { floorPlan, objects } = get();
+        const levels = listLevels(floorPlan);
+        const level = activeLevel();
+        const covered = new Set(objects.filter(obj => obj.type === 'ceiling').map(obj => obj.room));
+
+        const added = roomsOnLevel(floorPlan?.rooms || [], level.id, levels)
+          .filter(room => !covered.has(room.id))
+          .map(room => ({
+            ...room,
+            ceiling: createSurface('ceiling', room.type, roomOutline(room), room.dimensions.height, room.id)
+          }));
+
+        if (added.length) {
+          set(state => ({
+            floorPlan: attachRooms(state.floorPlan, added),
+            currentRoom: added.find(room => room.id === state.currentRoom?.id) || state.currentRoom
+          }));
+        }
+        return added.length;
+      }),
+
+      addMeasurement: (kind, start, end) => {
+        if (getLayer(get().floorPlan, 'annotations').locked) return null;
+        const measurement: Measurement = {
+          id: `measurement_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          kind,
+          start,
+          end,
+          level: activeLevel().id
+        };
+
+        transact('Add dimension', () => {
+          set(state => {
+            const floorPlan = state.floorPlan || createFloorPlan();
+            return { floorPlan: { ...floorPlan, measurements: [...(floorPlan.measurements || []), measurement] } };
+          });
+        });
+        return measurement;
+      },
+
+      deleteMeasurement: (id) => transact('Delete dimension', () => {
+        const { floorPlan } = get();
+        if (!floorPlan?.measurements?.some(m => m.id === id) || getLayer(floorPlan, 'annotations').locked) return;
+        set({ floorPlan: { ...floorPlan, measurements: floorPlan.measurements.filter(m => m.id !== id) } });
+      }),
+
+      clearMeasurements: () => transact('Clear dimensions', () => {
+        const { floorPlan } = get();
+        const levels = listLevels(floorPlan);
+        const level = activeLevel();
+        if (!floorPlan?.measurements?.some(m => isOnLevel(m, level.id, levels))) return;
+        if (getLayer(floorPlan, 'annotations').locked) return;
+        set({ floorPlan: { ...floorPlan, measurements: floorPlan.measurements.filter(m => !isOnLevel(m, level.id, levels)) } });
+      }),
+
+      setViewMode: (mode) => {
+        set({ viewMode: mode });
+      },
+
+      setCamera: (camera) => {
+        set({ camera });
+      },
+
+      // Project Actions
+      loadScene: (scene, options) => {
+        if (pendingTransaction) return;
+
+        // Older scenes keep their only room outside the floor plan
+        const rooms = listRooms(scene.currentRoom, scene.floorPlan);
+        const floorPlan = rooms.length ? attachRooms(scene.floorPlan, rooms) : scene.floorPlan;
+
+        const currentRoom = rooms.find(room => room.id === scene.currentRoom?.id) || rooms[0] || null;
+        const sceneState = {
+          objects: scene.objects,
+          currentRoom,
+          floorPlan,
+          activeLevelId: currentRoom ? levelOf(currentRoom, listLevels(floorPlan)).id : null,
+          camera: scene.camera || DEFAULT_CAMERA,
+          selectedObject: null,
+          selectedIds: []
+        };
+
+        if (options?.undoable) {
+          transact('Import scene', () => set(sceneState));
+        } else {
+          set({ ...sceneState, past: [], future: [] });
+        }
+      },
+
+      setProject: (projectId, projectName) => {
+        set({ projectId, projectName });
+      },
+
+      importBlueprint: async (file) => {
+        const imageUrl = URL.createObjectURL(file);
+        const imageSize = await readImageSize(file);
+
+        // Assumed scale until the user calibrates against a known distance
+        const scale = imageSize ? imageSize.width / DEFAULT_BLUEPRINT_WIDTH_METERS : 1;
+      
+        // Rooms already built stay; generating from the blueprint replaces them
+        const floorPlan: FloorPlan = {
+          id: `plan_${Date.now()}`,
+          name: file.name.split('.')[0],
+          rooms: get().floorPlan?.rooms || [],
+          levels: get().floorPlan?.levels,
+          measurements: get().floorPlan?.measurements,
+          groups: get().floorPlan?.groups,
+          categoryStates: get().floorPlan?.categoryStates,
+          layers: get().floorPlan?.layers,
+          scale,
+          imageUrl,
+          imageSize,
+          calibrated: false,
+          dimensions: imageSize
+            ? planDimensions(imageSize, scale)
+            : { width: DEFAULT_BLUEPRINT_WIDTH_METERS, length: DEFAULT_BLUEPRINT_WIDTH_METERS }
+        };
+
+        transact('Import blueprint', () => set({ floorPlan }));
+        return floorPlan;
+      },
+
+      calibrateBlueprint: (pixelsPerMeter) => {
+        const { floorPlan } = get();
+        if (!floorPlan || !(pixelsPerMeter > 0) || getLayer(floorPlan, 'underlay').locked) return;
+
+        transact('Calibrate blueprint', () => set({
+          floorPlan: {
+            ...floorPlan,
+            scale: pixelsPerMeter,
+            calibrated: true,
+            dimensions: floorPlan.imageSize
+              ? planDimensions(floorPlan.imageSize, pixelsPerMeter)
+              : floorPlan.dimensions
+          }
+        }), 'calibrate-blueprint');
+      },
+
+      applyBlueprintLayout: (layout, options = {}) => transact('Generate from blueprint', () => {
+        const height = options.wallHeight ?? DEFAULT_WALL_HEIGHT;
+        const { createWall } = get();
+        const stamp = Date.now();
+        const roomIds = layout.rooms.map((_, index) => `room_${stamp}_${index}`);
+        const levels = listLevels(get().floorPlan);
+        const level = activeLevel();
+
+        set(state => ({
+          objects: state.objects.filter(obj => !isOnLevel(obj, level.id, levels)),
+          selectedObject: null,
+          selectedIds: []
+        }));
+
+        // A wall between two rooms is listed by both but tagged with the first
+        const owner = new Map<number, string>();
+        layout.rooms.forEach((room, index) => {
+          room.wallIndices.forEach(wallIndex => {
+            if (!owner.has(wallIndex)) owner.set(wallIndex, roomIds[index]);
+          });
+        });
+
+        const walls = layout.walls.map((wall, index) => createWall(wall.start, wall.end, {
+          height,
+          thickness: wall.thickness,
+          room: owner.get(index),
+          name: `Wall ${index + 1}`
+        }));
+
+        const rooms: Room[] = layout.rooms.map((planRoom, index) => {
+          const polygon = normalizePolygon(planRoom.polygon) ||
+            rectanglePolygon(planRoom.center, planRoom.width, planRoom.length);
+
+          return {
+            id: roomIds[index],
+            name: planRoom.name,
+            type: 'custom',
+            dimensions: { width: planRoom.width, length: planRoom.length, height },
+            polygon,
+            level: level.id,
+            walls: planRoom.wallIndices.map(wallIndex => walls[wallIndex]),
+            floor: createSurface('floor', planRoom.name, polygon, 0, roomIds[index]),
+            ceiling: createSurface('ceiling', planRoom.name, polygon, height, roomIds[index]),
+            furniture: [],
+            doors: [],
+            windows: []
+          };
+        });
+
+        // Rooms on other levels are kept
+        set(state => ({
+          currentRoom: rooms[0] || null,
+          floorPlan: {
+            ...(state.floorPlan || createFloorPlan()),
+            rooms: [...(state.floorPlan?.rooms || []).filter(room => !isOnLevel(room, level.id, levels)), ...rooms],
+            measurements: state.floorPlan?.measurements?.filter(m => !isOnLevel(m, level.id, levels)),
+            groups: state.floorPlan?.groups && pruneGroups(state.floorPlan.groups, state.objects)
+          },
+          selectedObject: null,
+          selectedIds: []
+        }));
+
+        return rooms;
+      }),
+
+      // History Actions
+      beginTransaction: (label, key) => {
+        if (pendingTransaction) {
+          pendingTransaction.depth++;
+          return;
+        }
+
+        pendingTransaction = { label, key, depth: 1, snapshot: takeSnapshot() };
+      },
+
+      cancelTransaction: () => {
+        if (!pendingTransaction) return;
+
+        const { snapshot } = pendingTransaction;
+        pendingTransaction = null;
+        restoreSnapshot(snapshot);
+      },
+
+      commitTransaction: () => {
+        if (!pendingTransaction) return;
+
+        pendingTransaction.depth--;
+        if (pendingTransaction.depth > 0) return;
+
+        const { label, key, snapshot } = pendingTransaction;
+        pendingTransaction = null;
+
+        const current = takeSnapshot();
+        const changed = current.objects !== snapshot.objects ||
+          current.currentRoom !== snapshot.currentRoom ||
+          current.floorPlan !== snapshot.floorPlan;
+        if (!changed) return;
+
+        const now = Date.now();
+        const { past } = get();
+        const last = past[past.length - 1];
+
+        if (key && last?.key === key && now - last.timestamp < HISTORY_MERGE_WINDOW_MS) {
+          // Keep the original "before" snapshot, just extend the merge window
+          set({
+            past: [...past.slice(0, -1), { ...last, timestamp: now }],
+            future: []
+          });
+          return;
+        }
+
+        set({
+          past: [...past, { label, key, snapshot, timestamp: now }].slice(-MAX_HISTORY_ENTRIES),
+          future: []
+        });
+      },
+
+      undo: () => {
+        // Never rewind underneath an in-flight drag
+        if (pendingTransaction) return;
+
+        const { past, future } = get();
+        const entry = past[past.length - 1];
+        if (!entry) return;
+
+        const redoEntry: HistoryEntry = { label: entry.label, snapshot: takeSnapshot(), timestamp: Date.now() };
+        restoreSnapshot(entry.snapshot);
+        set({
+          past: unmergeable(past.slice(0, -1)),
+          future: [...future, redoEntry]
+        });
+      },
+
+      redo: () => {
+        if (pendingTransaction) return;
+
+        const { past, future } = get();
+        const entry = future[future.length - 1];
+        if (!entry) return;
+
+        const undoEntry: HistoryEntry = { label: entry.label, snapshot: takeSnapshot(), timestamp: Date.now() };
+        restoreSnapshot(entry.snapshot);
+        set({
+          past: unmergeable([...past, undoEntry].slice(-MAX_HISTORY_ENTRIES)),
+          future: future.slice(0, -1)
+        });
+      },
 
-      set({ floorPlan });
-      return floorPlan;
-    }
-  }))
+      clearHistory: () => {
+        set({ past: [], future: [] });
+      }
+    };
+  })
 );
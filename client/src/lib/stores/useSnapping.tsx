@@ -0,0 +1,25 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { DEFAULT_SNAP_SETTINGS, type SnapSettings } from "../snapping";
+
+// Snapping preferences, kept in the browser like the other editor settings
+interface SnappingState extends SnapSettings {
+  setSnapSettings: (settings: Partial<SnapSettings>) => void;
+  resetSnapSettings: () => void;
+}
+
+export const useSnapping = create<SnappingState>()(
+  persist(
+    (set) => ({
+      ...DEFAULT_SNAP_SETTINGS,
+
+      setSnapSettings: (settings) => {
+        if (settings.gridSize !== undefined && !(settings.gridSize > 0)) return;
+        if (settings.angleStep !== undefined && !(settings.angleStep > 0)) return;
+        set(settings);
+      },
+      resetSnapSettings: () => set(DEFAULT_SNAP_SETTINGS)
+    }),
+    { name: 'snap-settings' }
+  )
+);
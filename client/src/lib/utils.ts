@@ -11,3 +11,40 @@ const setLocalStorage = (key: string, value: any): void =>
   window.localStorage.setItem(key, JSON.stringify(value));
 
 export { getLocalStorage, setLocalStorage };
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+// Prints an image on its own page, from a hidden frame so the rest of the
+// app stays out of the printout
+export function printImage(src: string, title: string) {
+  const frame = document.createElement("iframe");
+  Object.assign(frame.style, { position: "fixed", width: "0", height: "0", border: "0" });
+  document.body.appendChild(frame);
+
+  const doc = frame.contentDocument;
+  const win = frame.contentWindow;
+  if (!doc || !win) {
+    frame.remove();
+    return;
+  }
+
+  doc.title = title;
+  const img = doc.createElement("img");
+  img.style.maxWidth = "100%";
+  img.onload = () => {
+    win.onafterprint = () => frame.remove();
+    win.focus();
+    win.print();
+  };
+  img.src = src;
+  doc.body.appendChild(img);
+}
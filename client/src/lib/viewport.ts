@@ -0,0 +1,135 @@
+import * as THREE from "three";
+import type { ModelingObject, Room } from "../types/modeling";
+
+// The R3F scene lives inside <Canvas>; exporters run from regular UI code, so
+// the mounted viewport registers its scene here (see ViewportBridge).
+let activeScene: THREE.Scene | null = null;
+
+export function registerViewportScene(scene: THREE.Scene | null) {
+  activeScene = scene;
+}
+
+export function getViewportScene(): THREE.Scene | null {
+  return activeScene;
+}
+
+// userData flags set by the 3D renderers:
+//   objectId     - root node of a rendered ModelingObject
+//   exportIgnore - editor-only helpers (labels, selection outlines)
+export const OBJECT_ID_KEY = 'objectId';
+export const EXPORT_IGNORE_KEY = 'exportIgnore';
+
+export class ViewportUnavailableError extends Error {
+  constructor() {
+    super('Switch to the 3D view to export the scene');
+    this.name = 'ViewportUnavailableError';
+  }
+}
+
+export interface ExportHierarchyOptions {
+  objects: ModelingObject[];
+  rooms: Room[];
+  // Limit the export to these objects; defaults to everything
+  objectIds?: string[];
+  // Nest objects under one node per room (named after the room)
+  groupByRoom?: boolean;
+}
+
+export const exportNodeName = (obj: ModelingObject) =>
+  obj.name || `${obj.type}_${obj.id.slice(-4)}`;
+
+export function collectRenderedObjects(scene: THREE.Object3D): Map<string, THREE.Object3D> {
+  const nodes = new Map<string, THREE.Object3D>();
+  scene.traverse(node => {
+    const id = node.userData[OBJECT_ID_KEY];
+    if (typeof id === 'string' && !nodes.has(id)) {
+      nodes.set(id, node);
+    }
+  });
+  return nodes;
+}
+
+function cloneForExport(node: THREE.Object3D, obj: ModelingObject): THREE.Object3D {
+  const clone = node.clone(true);
+
+  // Drop helpers; collect first, removing while traversing skips siblings
+  const helpers: THREE.Object3D[] = [];
+  clone.traverse(child => {
+    if (child.userData[EXPORT_IGNORE_KEY]) helpers.push(child);
+  });
+  helpers.forEach(helper => helper.removeFromParent());
+
+  // Bake the world transform; the export hierarchy only adds identity groups
+  node.matrixWorld.decompose(clone.position, clone.quaternion, clone.scale);
+  clone.name = exportNodeName(obj);
+  // glTF writes userData as node extras, so the ids survive the export
+  clone.userData = { objectId: obj.id, type: obj.type, subtype: obj.subtype, room: obj.room };
+
+  clone.traverse(child => {
+    const mesh = child as THREE.Mesh;
+    if (!mesh.isMesh) return;
+
+    // OBJ/STL writers label parts by mesh name
+    mesh.name = mesh.name || clone.name;
+
+    const materials = Array.isArray(mesh.material) ? mesh.material : [mesh.material];
+    const exported = materials.map(material => {
+      const copy = material.clone();
+      // Primitives are tinted while hovered/selected; export the real colour.
+      // Imported models keep the materials they came with.
+      if (obj.type !== 'imported' && 'color' in copy && copy.color instanceof THREE.Color) {
+        copy.color.set(obj.color);
+      }
+      // Wireframe is only a way of viewing; the exported surface is solid
+      if ('wireframe' in copy) copy.wireframe = false;
+      if (obj.type !== 'imported' || !copy.name) {
+        copy.name = `${obj.material || 'standard'}_${obj.color.replace('#', '')}`;
+      }
+      return copy;
+    });
+    mesh.material = Array.isArray(mesh.material) ? exported : exported[0];
+  });
+
+  return clone;
+}
+
+export function buildExportHierarchy(options: ExportHierarchyOptions): THREE.Group {
+  const scene = getViewportScene();
+  if (!scene) {
+    throw new ViewportUnavailableError();
+  }
+
+  scene.updateMatrixWorld(true);
+  const rendered = collectRenderedObjects(scene);
+  const wanted = options.objectIds ? new Set(options.objectIds) : null;
+
+  const root = new THREE.Group();
+  root.name = 'Scene';
+  const roomGroups = new Map<string, THREE.Group>();
+
+  const parentFor = (obj: ModelingObject): THREE.Object3D => {
+    if (!options.groupByRoom || !obj.room) return root;
+
+    let group = roomGroups.get(obj.room);
+    if (!group) {
+      group = new THREE.Group();
+      group.name = options.rooms.find(room => room.id === obj.room)?.name || obj.room;
+      group.userData = { roomId: obj.room };
+      roomGroups.set(obj.room, group);
+      root.add(group);
+    }
+    return group;
+  };
+
+  options.objects.forEach(obj => {
+    if (wanted && !wanted.has(obj.id)) return;
+
+    // Hidden objects aren't rendered, so they are left out too
+    const node = rendered.get(obj.id);
+    if (!node) return;
+
+    parentFor(obj).add(cloneForExport(node, obj));
+  });
+
+  return root;
+}
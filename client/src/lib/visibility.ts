@@ -0,0 +1,39 @@
+import type { CategoryState, DisplayCategory, FloorPlan, ModelingObject } from "../types/modeling";
+import { objectLayer } from "./layers";
+
+export const DISPLAY_CATEGORIES: { category: DisplayCategory; label: string }[] = [
+  { category: 'structure', label: 'Structure' },
+  { category: 'furniture', label: 'Furniture' },
+  { category: 'decoration', label: 'Decoration' },
+  { category: 'other', label: 'Other' }
+];
+
+// Room shells (floors, ceilings, walls) count as structure
+export function displayCategory(obj: ModelingObject): DisplayCategory {
+  if (obj.category === 'room' || obj.category === 'structure') return 'structure';
+  return obj.category || 'other';
+}
+
+export function categoryState(floorPlan: FloorPlan | null | undefined, category: DisplayCategory): CategoryState {
+  return floorPlan?.categoryStates?.[category] || {};
+}
+
+// Hidden on its own, with its whole category or with its layer. Hidden
+// objects are not drawn, picked, snapped to or exported.
+export function isHidden(obj: ModelingObject, floorPlan: FloorPlan | null | undefined): boolean {
+  return obj.visible === false ||
+    !!categoryState(floorPlan, displayCategory(obj)).hidden ||
+    !objectLayer(obj, floorPlan).visible;
+}
+
+// Locked objects can still be selected and edited by value, but the gizmo
+// and plan drags leave them where they are
+export function isLocked(obj: ModelingObject, floorPlan: FloorPlan | null | undefined): boolean {
+  return obj.isDraggable === false ||
+    !!categoryState(floorPlan, displayCategory(obj)).locked ||
+    objectLayer(obj, floorPlan).locked;
+}
+
+export function visibleObjects(objects: ModelingObject[], floorPlan: FloorPlan | null | undefined): ModelingObject[] {
+  return objects.filter(obj => !isHidden(obj, floorPlan));
+}
@@ -0,0 +1,86 @@
+import * as THREE from "three";
+import type { ModelingObject } from "../types/modeling";
+import { placementOf } from "./openings";
+import type { WallEnds } from "./wallJoins";
+
+// Keeps holes strictly inside the outline so the triangulation stays valid
+const INSET = 0.001;
+
+// Unit-box wall (X along the wall, Y up, Z through it) with its openings cut
+// out and its ends shaped by the joins with neighbouring walls. Openings
+// standing on the floor become notches in the outline rather than holes, as a
+// hole cannot touch the outline.
+export function createWallGeometry(
+  wall: ModelingObject,
+  openings: ModelingObject[],
+  ends?: WallEnds
+): THREE.BufferGeometry {
+  const length = wall.scale.x || 1;
+  const height = wall.scale.y || 1;
+
+  // Opening rectangles in the wall's unit space, left to right, overlaps dropped
+  const rects: { x0: number; x1: number; y0: number; y1: number }[] = [];
+  openings
+    .map(opening => {
+      const { offset, width, height: openingHeight, sill } = placementOf(opening);
+      return {
+        x0: Math.max(-0.5 + INSET, (offset - width / 2) / length),
+        x1: Math.min(0.5 - INSET, (offset + width / 2) / length),
+        y0: sill / height - 0.5,
+        y1: Math.min(0.5 - INSET, (sill + openingHeight) / height - 0.5)
+      };
+    })
+    .filter(rect => rect.x1 > rect.x0 && rect.y1 > rect.y0)
+    .sort((a, b) => a.x0 - b.x0)
+    .forEach(rect => {
+      const previous = rects[rects.length - 1];
+      if (!previous || rect.x0 > previous.x1 + INSET) rects.push(rect);
+    });
+
+  const shape = new THREE.Shape();
+  shape.moveTo(-0.5, -0.5);
+  rects
+    .filter(rect => rect.y0 <= -0.5 + INSET)
+    .forEach(rect => {
+      shape.lineTo(rect.x0, -0.5);
+      shape.lineTo(rect.x0, rect.y1);
+      shape.lineTo(rect.x1, rect.y1);
+      shape.lineTo(rect.x1, -0.5);
+    });
+  shape.lineTo(0.5, -0.5);
+  shape.lineTo(0.5, 0.5);
+  shape.lineTo(-0.5, 0.5);
+  shape.closePath();
+
+  rects
+    .filter(rect => rect.y0 > -0.5 + INSET)
+    .forEach(rect => {
+      const hole = new THREE.Path();
+      hole.moveTo(rect.x0, rect.y0);
+      hole.lineTo(rect.x0, rect.y1);
+      hole.lineTo(rect.x1, rect.y1);
+      hole.lineTo(rect.x1, rect.y0);
+      hole.closePath();
+      shape.holes.push(hole);
+    });
+
+  const geometry = new THREE.ExtrudeGeometry(shape, { depth: 1, bevelEnabled: false });
+  geometry.translate(0, 0, -0.5);
+
+  if (ends) {
+    // Slide the end vertices of each face along the wall; the faces stay
+    // planar and the end caps become the miter or T-junction cuts
+    const position = geometry.getAttribute('position');
+    for (let i = 0; i < position.count; i++) {
+      const x = position.getX(i);
+      const end = x <= -0.5 + INSET / 2 ? ends.start : x >= 0.5 - INSET / 2 ? ends.end : null;
+      if (!end) continue;
+
+      const extension = position.getZ(i) > 0 ? end.pos : end.neg;
+      position.setX(i, x + Math.sign(x) * extension / length);
+    }
+    geometry.computeVertexNormals();
+  }
+
+  return geometry;
+}
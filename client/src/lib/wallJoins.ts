@@ -0,0 +1,155 @@
+import type { ModelingObject } from "../types/modeling";
+import { projectOntoSegment, wallEndpoints, type PlanPosition } from "./snapping";
+
+// How far each face of a wall runs past (positive) or stops short of
+// (negative) the wall's nominal end, meters. `pos` is the face on the wall's
+// local +Z side, `neg` the one on -Z.
+export interface WallEnd {
+  pos: number;
+  neg: number;
+}
+
+export interface WallEnds {
+  start: WallEnd;
+  end: WallEnd;
+}
+
+// Acute corners would otherwise produce needle-like miters
+const MAX_MITER_FACTOR = 4;
+
+const NO_JOIN: WallEnd = { pos: 0, neg: 0 };
+
+interface WallLine {
+  wall: ModelingObject;
+  ends: [PlanPosition, PlanPosition];
+  // Unit direction from start to end and local +Z in plan coordinates
+  dir: PlanPosition;
+  normal: PlanPosition;
+  thickness: number;
+  // Vertical extent, so walls on different levels never join
+  bottom: number;
+  top: number;
+}
+
+const sub = (a: PlanPosition, b: PlanPosition) => ({ x: a.x - b.x, z: a.z - b.z });
+const dot = (a: PlanPosition, b: PlanPosition) => a.x * b.x + a.z * b.z;
+const cross = (a: PlanPosition, b: PlanPosition) => a.x * b.z - a.z * b.x;
+const offset = (p: PlanPosition, d: PlanPosition, t: number) => ({ x: p.x + d.x * t, z: p.z + d.z * t });
+const overlaps = (a: WallLine, b: WallLine) => Math.min(a.top, b.top) - Math.max(a.bottom, b.bottom) > 1e-3;
+
+function wallLine(wall: ModelingObject): WallLine {
+  const angle = wall.rotation.y;
+  return {
+    wall,
+    ends: wallEndpoints(wall),
+    // A positive Y rotation turns local +X towards -Z
+    dir: { x: Math.cos(angle), z: -Math.sin(angle) },
+    normal: { x: Math.sin(angle), z: Math.cos(angle) },
+    thickness: wall.scale.z,
+    bottom: wall.position.y - wall.scale.y / 2,
+    top: wall.position.y + wall.scale.y / 2
+  };
+}
+
+// Parameter along (p, d) where it crosses (q, e); null for parallel lines
+function intersect(p: PlanPosition, d: PlanPosition, q: PlanPosition, e: PlanPosition): number | null {
+  const denominator = cross(d, e);
+  if (Math.abs(denominator) < 1e-9) return null;
+  return cross(sub(q, p), e) / denominator;
+}
+
+// Extension of each face of `line` at end `index` so it meets the faces of
+// `other`. `pairFace` picks which face of `other` each face meets.
+function joinEnd(
+  line: WallLine,
+  index: 0 | 1,
+  other: WallLine,
+  pairFace: (side: 1 | -1) => 1 | -1
+): WallEnd {
+  const point = line.ends[index];
+  // Direction pointing out of the wall through this end
+  const outward = index === 0 ? { x: -line.dir.x, z: -line.dir.z } : line.dir;
+  const limit = MAX_MITER_FACTOR * Math.max(line.thickness, other.thickness);
+
+  const extend = (side: 1 | -1) => {
+    const facePoint = offset(point, line.normal, side * line.thickness / 2);
+    const otherSide = pairFace(side);
+    const otherPoint = offset(other.ends[0], other.normal, otherSide * other.thickness / 2);
+    const t = intersect(facePoint, outward, otherPoint, other.dir);
+    return t === null ? 0 : Math.max(-limit, Math.min(limit, t));
+  };
+
+  return { pos: extend(1), neg: extend(-1) };
+}
+
+export function computeWallJoins(walls: ModelingObject[]): Map<string, WallEnds> {
+  const lines = walls.filter(wall => wall.type === 'wall').map(wallLine);
+  const joins = new Map<string, WallEnds>();
+
+  lines.forEach(line => {
+    const ends = ([0, 1] as const).map(index => {
+      const point = line.ends[index];
+      const tolerance = line.thickness;
+
+      // Corner: exactly one other wall ends here
+      const corners = lines.flatMap(other => {
+        if (other === line || !overlaps(line, other)) return [];
+        const [a, b] = other.ends;
+        const da = Math.hypot(a.x - point.x, a.z - point.z);
+        const db = Math.hypot(b.x - point.x, b.z - point.z);
+        if (Math.min(da, db) > Math.max(tolerance, other.thickness)) return [];
+        return [{ other, otherIndex: (da <= db ? 0 : 1) as 0 | 1 }];
+      });
+
+      if (corners.length === 1) {
+        const { other, otherIndex } = corners[0];
+        const away = index === 0 ? line.dir : { x: -line.dir.x, z: -line.dir.z };
+        const otherAway = otherIndex === 0 ? other.dir : { x: -other.dir.x, z: -other.dir.z };
+        // Faces are paired mirror-wise: the left face (looking away from
+        // the corner) of one wall meets the right face of the other
+        const leftIsPos = cross(away, line.normal) > 0;
+        const otherLeftIsPos = cross(otherAway, other.normal) > 0;
+        return joinEnd(line, index, other, side => {
+          const isLeft = (side === 1) === leftIsPos;
+          return !isLeft === otherLeftIsPos ? 1 : -1;
+        });
+      }
+      if (corners.length > 1) return NO_JOIN;
+
+      // T-junction: this end stops against the side of another wall
+      for (const other of lines) {
+        if (other === line || !overlaps(line, other)) continue;
+        const [a, b] = other.ends;
+        const projection = projectOntoSegment(point, a, b);
+        if (projection.t <= 0 || projection.t >= 1) continue;
+        if (projection.distance > other.thickness / 2 + tolerance) continue;
+
+        // Meet the face of the other wall on this wall's side of it
+        const body = line.ends[index === 0 ? 1 : 0];
+        const side: 1 | -1 = dot(sub(body, a), other.normal) >= 0 ? 1 : -1;
+        return joinEnd(line, index, other, () => side);
+      }
+
+      return NO_JOIN;
+    });
+
+    joins.set(line.wall.id, { start: ends[0], end: ends[1] });
+  });
+
+  return joins;
+}
+
+// Joins are needed by every wall's renderer; compute once per objects array
+const joinCache = new WeakMap<ModelingObject[], Map<string, WallEnds>>();
+
+export function getWallJoins(objects: ModelingObject[]): Map<string, WallEnds> {
+  let joins = joinCache.get(objects);
+  if (!joins) {
+    joins = computeWallJoins(objects);
+    joinCache.set(objects, joins);
+  }
+  return joins;
+}
+
+export const isJoined = (ends?: WallEnds) =>
+  !!ends && [ends.start.pos, ends.start.neg, ends.end.pos, ends.end.neg].some(value => Math.abs(value) > 1e-6);
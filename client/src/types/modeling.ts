@@ -4,9 +4,11 @@ export interface Vector3 {
   z: number;
 }
 
+export type MaterialId = 'standard' | 'basic' | 'phong' | 'lambert' | 'wood' | 'metal' | 'glass' | 'fabric' | 'leather' | 'ceramic' | 'marble' | 'granite' | 'plastic' | 'stainless_steel' | 'acrylic' | 'mirror';
+
 export interface ModelingObject {
   id: string;
-  type: 'cube' | 'sphere' | 'cylinder' | 'cone' | 'torus' | 'plane' | 'imported' | 'wall' | 'floor' | 'ceiling' | 'door' | 'window' | 'furniture';
+  type: 'cube' | 'sphere' | 'cylinder' | 'cone' | 'torus' | 'plane' | 'imported' | 'wall' | 'floor' | 'ceiling' | 'door' | 'window' | 'furniture' | 'stairs';
   category?: 'room' | 'furniture' | 'decoration' | 'structure';
   subtype?: string; // e.g., 'bed', 'chair', 'table', 'sofa' for furniture
   name?: string;
@@ -16,11 +18,20 @@ export interface ModelingObject {
   color: string;
   opacity?: number;
   modelPath?: string; // For imported models
-  material?: 'standard' | 'basic' | 'phong' | 'lambert' | 'wood' | 'metal' | 'glass' | 'fabric' | 'leather' | 'ceramic' | 'marble' | 'granite' | 'plastic' | 'stainless_steel' | 'acrylic' | 'mirror';
+  material?: MaterialId;
+  textureRepeat?: { x: number; y: number }; // Times the material's texture tiles across each face
   wireframe?: boolean;
   visible?: boolean;
   room?: string; // Room assignment
   isStructural?: boolean; // For walls, floors, ceilings
+  outline?: { x: number; z: number }[]; // Floor/ceiling footprint in local X/Z, meters
+  hostId?: string; // Wall a door/window is set into
+  hostOffset?: number; // Centre of the opening along its host wall, from the wall's centre
+  sillHeight?: number; // Bottom of the opening above the host wall's base
+  level?: string; // Storey the object stands on; the lowest level when absent
+  connectsTo?: string; // Level a flight of stairs leads up to
+  groupId?: string; // Innermost group the object belongs to
+  layer?: ObjectLayerId; // Drawing layer, when not the one its category puts it on
   gradient?: {
     colors: string[];
     direction: 'horizontal' | 'vertical' | 'radial';
@@ -53,6 +64,8 @@ export interface Room {
     length: number;
     height: number;
   };
+  polygon?: { x: number; z: number }[]; // Corners on the ground plane, counter-clockwise; absent for legacy rectangles
+  level?: string; // Storey the room is on; the lowest level when absent
   walls: ModelingObject[];
   floor: ModelingObject;
   ceiling?: ModelingObject;
@@ -61,12 +74,69 @@ export interface Room {
   windows: ModelingObject[];
 }
 
+export interface Level {
+  id: string;
+  name: string;
+  elevation: number; // Top of the level's floor above ground, meters
+  height: number; // Floor-to-floor height, meters
+}
+
+export interface MeasurementAnchor {
+  point: { x: number; z: number }; // Plan position when placed
+  objectId?: string; // Object the point is pinned to and moves with
+  local?: { x: number; z: number }; // Pinned point in the object's unscaled local frame
+}
+
+export interface Measurement {
+  id: string;
+  // Clearance runs from the start object's footprint to the end wall's face
+  kind: 'distance' | 'clearance';
+  start: MeasurementAnchor;
+  end: MeasurementAnchor;
+  level?: string;
+}
+
+// Objects (and nested groups) that are selected and transformed as one
+export interface ObjectGroup {
+  id: string;
+  name: string;
+  parentId?: string; // Enclosing group
+}
+
+// Drawing layers. Walls, electrical and furniture hold objects; annotations
+// are the dimensions and the underlay is the blueprint image.
+export type LayerId = 'walls' | 'electrical' | 'furniture' | 'annotations' | 'underlay';
+export type ObjectLayerId = Extract<LayerId, 'walls' | 'electrical' | 'furniture'>;
+
+export interface Layer {
+  id: LayerId;
+  visible: boolean;
+  locked: boolean;
+  color?: string; // Drawn in this colour instead of the content's own
+  print: boolean; // Included when the plan is printed
+}
+
+// Categories objects are shown and locked by; room shells count as structure
+export type DisplayCategory = 'structure' | 'furniture' | 'decoration' | 'other';
+
+export interface CategoryState {
+  hidden?: boolean;
+  locked?: boolean;
+}
+
 export interface FloorPlan {
   id: string;
   name: string;
   rooms: Room[];
-  scale: number; // units per meter
+  levels?: Level[]; // Storeys bottom to top; a single ground floor when absent
+  measurements?: Measurement[]; // Dimension annotations kept on the plan
+  groups?: ObjectGroup[]; // Groups objects refer to through groupId
+  categoryStates?: Partial<Record<DisplayCategory, CategoryState>>; // Hiding and locking whole categories
+  layers?: Layer[]; // Layer settings; layers not listed use their defaults
+  scale: number; // blueprint image pixels per meter
   imageUrl?: string; // Imported blueprint image
+  imageSize?: { width: number; height: number }; // Natural size of the image in pixels
+  calibrated?: boolean; // Scale was measured rather than assumed
   dimensions: {
     width: number;
     length: number;
@@ -1,6 +1,32 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
+import { fromZodError } from "zod-validation-error";
 import { storage } from "./storage";
+import {
+  insertProjectSchema,
+  updateProjectSchema,
+  type Project,
+  type ProjectSummary,
+} from "@shared/schema";
+
+function toSummary(project: Project): ProjectSummary {
+  return {
+    id: project.id,
+    name: project.name,
+    createdAt: project.createdAt,
+    updatedAt: project.updatedAt,
+    objectCount: project.objects.length,
+  };
+}
+
+function parseId(req: Request, res: Response): number | null {
+  const id = Number(req.params.id);
+  if (!Number.isInteger(id) || id <= 0) {
+    res.status(400).json({ message: "Invalid project id" });
+    return null;
+  }
+  return id;
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // put application routes here
@@ -9,6 +35,79 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // use storage to perform CRUD operations on the storage interface
   // e.g. storage.insertUser(user) or storage.getUserByUsername(username)
 
+  app.get("/api/projects", async (_req, res, next) => {
+    try {
+      const projects = await storage.getProjects();
+      res.json(projects.map(toSummary));
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.get("/api/projects/:id", async (req, res, next) => {
+    try {
+      const id = parseId(req, res);
+      if (id === null) return;
+
+      const project = await storage.getProject(id);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      res.json(project);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.post("/api/projects", async (req, res, next) => {
+    try {
+      const result = insertProjectSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: fromZodError(result.error).toString() });
+      }
+
+      const project = await storage.createProject(result.data);
+      res.status(201).json(project);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.put("/api/projects/:id", async (req, res, next) => {
+    try {
+      const id = parseId(req, res);
+      if (id === null) return;
+
+      const result = updateProjectSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: fromZodError(result.error).toString() });
+      }
+
+      const project = await storage.updateProject(id, result.data);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      res.json(project);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.delete("/api/projects/:id", async (req, res, next) => {
+    try {
+      const id = parseId(req, res);
+      if (id === null) return;
+
+      const deleted = await storage.deleteProject(id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      res.status(204).end();
+    } catch (err) {
+      next(err);
+    }
+  });
+
   const httpServer = createServer(app);
 
   return httpServer;
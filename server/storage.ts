@@ -1,4 +1,11 @@
-import { users, type User, type InsertUser } from "@shared/schema";
+import {
+  users,
+  type User,
+  type InsertUser,
+  type Project,
+  type InsertProject,
+  type UpdateProject,
+} from "@shared/schema";
 
 // modify the interface with any CRUD methods
 // you might need
@@ -7,15 +14,25 @@ export interface IStorage {
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+
+  getProjects(): Promise<Project[]>;
+  getProject(id: number): Promise<Project | undefined>;
+  createProject(project: InsertProject): Promise<Project>;
+  updateProject(id: number, updates: UpdateProject): Promise<Project | undefined>;
+  deleteProject(id: number): Promise<boolean>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
+  private projects: Map<number, Project>;
   currentId: number;
+  currentProjectId: number;
 
   constructor() {
     this.users = new Map();
+    this.projects = new Map();
     this.currentId = 1;
+    this.currentProjectId = 1;
   }
 
   async getUser(id: number): Promise<User | undefined> {
@@ -34,6 +51,51 @@ export class MemStorage implements IStorage {
     this.users.set(id, user);
     return user;
   }
+
+  async getProjects(): Promise<Project[]> {
+    // Most recently edited first
+    return Array.from(this.projects.values()).sort(
+      (a, b) => b.updatedAt.getTime() - a.updatedAt.getTime(),
+    );
+  }
+
+  async getProject(id: number): Promise<Project | undefined> {
+    return this.projects.get(id);
+  }
+
+  async createProject(insertProject: InsertProject): Promise<Project> {
+    const id = this.currentProjectId++;
+    const now = new Date();
+    const project: Project = {
+      ...insertProject,
+      floorPlan: insertProject.floorPlan ?? null,
+      camera: insertProject.camera ?? null,
+      id,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.projects.set(id, project);
+    return project;
+  }
+
+  async updateProject(id: number, updates: UpdateProject): Promise<Project | undefined> {
+    const existing = this.projects.get(id);
+    if (!existing) return undefined;
+
+    const project: Project = {
+      ...existing,
+      ...updates,
+      floorPlan: updates.floorPlan === undefined ? existing.floorPlan : updates.floorPlan,
+      camera: updates.camera === undefined ? existing.camera : updates.camera,
+      updatedAt: new Date(),
+    };
+    this.projects.set(id, project);
+    return project;
+  }
+
+  async deleteProject(id: number): Promise<boolean> {
+    return this.projects.delete(id);
+  }
 }
 
 export const storage = new MemStorage();
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, jsonb, timestamp } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -15,3 +15,55 @@ export const insertUserSchema = createInsertSchema(users).pick({
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+
+// Scene payloads are owned by the client (see client/src/types/modeling.ts),
+// so the server only checks their outer shape and stores them as JSON.
+const vector3Schema = z.object({
+  x: z.number(),
+  y: z.number(),
+  z: z.number(),
+});
+
+export const projectCameraSchema = z.object({
+  position: vector3Schema,
+  target: vector3Schema,
+});
+
+const sceneRecordSchema = z.record(z.unknown());
+
+export type ProjectCamera = z.infer<typeof projectCameraSchema>;
+export type SceneRecord = z.infer<typeof sceneRecordSchema>;
+
+export const projects = pgTable("projects", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  objects: jsonb("objects").$type<SceneRecord[]>().notNull(),
+  rooms: jsonb("rooms").$type<SceneRecord[]>().notNull(),
+  floorPlan: jsonb("floor_plan").$type<SceneRecord | null>(),
+  camera: jsonb("camera").$type<ProjectCamera | null>(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertProjectSchema = createInsertSchema(projects, {
+  name: z.string().trim().min(1, "Project name is required").max(120),
+  objects: z.array(sceneRecordSchema),
+  rooms: z.array(sceneRecordSchema),
+  floorPlan: sceneRecordSchema.nullable().optional(),
+  camera: projectCameraSchema.nullable().optional(),
+}).pick({
+  name: true,
+  objects: true,
+  rooms: true,
+  floorPlan: true,
+  camera: true,
+});
+
+export const updateProjectSchema = insertProjectSchema.partial();
+
+export type InsertProject = z.infer<typeof insertProjectSchema>;
+export type UpdateProject = z.infer<typeof updateProjectSchema>;
+export type Project = typeof projects.$inferSelect;
+export type ProjectSummary = Pick<Project, "id" | "name" | "createdAt" | "updatedAt"> & {
+  objectCount: number;
+};